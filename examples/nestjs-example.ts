@@ -1,244 +1,141 @@
-import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Body, Controller, Get, Injectable, Module, Post } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import {
     DatabaseType,
+    InMemoryTenantConfigProvider,
+    ModelRegistry,
     MultiTenantManager,
     PostgreSQLCredentials,
-    TenantConfig
+    tenantFromHeader,
+    tenantFromSubdomain
 } from 'nodejs-db-multitenant';
+import {
+    InjectTenantConnection,
+    InjectTenantRepository,
+    MultiTenantModule
+} from 'nodejs-db-multitenant/dist/nestjs';
+import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn, Repository } from 'typeorm';
 
-@Injectable()
-export class MultiTenantDatabaseService implements OnModuleInit, OnModuleDestroy {
-  private multiTenantManager: MultiTenantManager;
-  private tenantConfigs: Map<string, TenantConfig> = new Map();
-
-  constructor() {
-    // Initialize the multi-tenant manager with configuration
-    this.multiTenantManager = new MultiTenantManager({
-      enableLogging: true,
-      logLevel: 'info',
-      enableConnectionPooling: true,
-      defaultOptions: {
-        maxConnections: 20,
-        connectionTimeout: 10000,
-        idleTimeout: 60000,
-        retryAttempts: 3,
-        retryDelay: 2000
-      }
-    });
-
-    // Initialize tenant configurations
-    this.initializeTenantConfigs();
-  }
+@Entity('users')
+export class User {
+  @PrimaryGeneratedColumn()
+  id!: number;
 
-  async onModuleInit() {
-    // Initialize connections for all tenants
-    await this.initializeAllConnections();
-  }
+  @Column()
+  name!: string;
 
-  async onModuleDestroy() {
-    // Close all connections when the module is destroyed
-    await this.multiTenantManager.closeAllConnections();
-  }
+  @Column()
+  email!: string;
 
-  /**
-   * Initialize tenant configurations
-   */
-  private initializeTenantConfigs(): void {
-    // Example tenant configurations
-    const tenants = [
-      {
-        id: 'tenant1',
-        config: {
-          tenantId: 'tenant1',
-          databaseType: DatabaseType.POSTGRESQL,
-          credentials: {
-            host: 'localhost',
-            port: 5432,
-            username: 'tenant1_user',
-            password: 'tenant1_password',
-            database: 'tenant1_db',
-            schema: 'tenant1_schema',
-            ssl: false
-          } as PostgreSQLCredentials
-        }
-      },
-      {
-        id: 'tenant2',
-        config: {
-          tenantId: 'tenant2',
-          databaseType: DatabaseType.POSTGRESQL,
-          credentials: {
-            host: 'localhost',
-            port: 5432,
-            username: 'tenant2_user',
-            password: 'tenant2_password',
-            database: 'tenant2_db',
-            schema: 'tenant2_schema',
-            ssl: false
-          } as PostgreSQLCredentials
-        }
-      }
-    ];
-
-    tenants.forEach(tenant => {
-      this.tenantConfigs.set(tenant.id, tenant.config);
-    });
-  }
-
-  /**
-   * Initialize connections for all tenants
-   */
-  private async initializeAllConnections(): Promise<void> {
-    try {
-      for (const [tenantId, config] of this.tenantConfigs) {
-        await this.multiTenantManager.getConnection(tenantId, config);
-        console.log(`Initialized connection for tenant: ${tenantId}`);
-      }
-    } catch (error) {
-      console.error('Failed to initialize tenant connections:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Get database connection for a specific tenant
-   */
-  async getTenantConnection(tenantId: string): Promise<any> {
-    const config = this.tenantConfigs.get(tenantId);
-    if (!config) {
-      throw new Error(`Tenant configuration not found for: ${tenantId}`);
-    }
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
 
-    return this.multiTenantManager.getConnection(tenantId, config);
-  }
+/**
+ * Tenant configurations; in production these usually come from a control-plane database
+ */
+function createTenantConfigProvider(config: ConfigService): InMemoryTenantConfigProvider {
+  const tenants = ['tenant1', 'tenant2'].map((tenantId) => ({
+    tenantId,
+    databaseType: DatabaseType.POSTGRESQL,
+    credentials: {
+      host: config.get<string>('DB_HOST', 'localhost'),
+      port: config.get<number>('DB_PORT', 5432),
+      username: `${tenantId}_user`,
+      password: config.get<string>(`${tenantId.toUpperCase()}_PASSWORD`, ''),
+      database: `${tenantId}_db`,
+      schema: `${tenantId}_schema`,
+      ssl: false
+    } as PostgreSQLCredentials
+  }));
+
+  return new InMemoryTenantConfigProvider(tenants);
+}
 
-  /**
-   * Add a new tenant configuration
-   */
-  async addTenant(tenantConfig: TenantConfig): Promise<void> {
-    // Validate the configuration
-    if (this.tenantConfigs.has(tenantConfig.tenantId)) {
-      throw new Error(`Tenant already exists: ${tenantConfig.tenantId}`);
-    }
+// Every tenant connection is opened with the registered entities
+const models = new ModelRegistry().registerEntities([User]);
 
-    // Store the configuration
-    this.tenantConfigs.set(tenantConfig.tenantId, tenantConfig);
+// Example usage in a NestJS service: repositories are resolved per request for the request's tenant.
+@Injectable()
+export class UserService {
+  constructor(
+    @InjectTenantRepository(User) private readonly users: Repository<User>,
+    @InjectTenantConnection() private readonly connection: any
+  ) {}
 
-    // Initialize the connection
-    await this.multiTenantManager.getConnection(tenantConfig.tenantId, tenantConfig);
+  async createUser(userData: Pick<User, 'name' | 'email'>): Promise<User> {
+    return this.users.save(this.users.create(userData));
   }
 
-  /**
-   * Remove a tenant and close its connection
-   */
-  async removeTenant(tenantId: string): Promise<void> {
-    if (!this.tenantConfigs.has(tenantId)) {
-      throw new Error(`Tenant not found: ${tenantId}`);
-    }
-
-    // Close the connection
-    await this.multiTenantManager.closeConnection(tenantId);
-
-    // Remove the configuration
-    this.tenantConfigs.delete(tenantId);
+  async getUsers(): Promise<User[]> {
+    return this.users.find({ order: { createdAt: 'DESC' } });
   }
 
-  /**
-   * Get connection statistics
-   */
-  getConnectionStats() {
-    return this.multiTenantManager.getConnectionStats();
+  async countUsers(): Promise<number> {
+    const [{ count }] = await this.connection.query('SELECT COUNT(*)::int AS count FROM users');
+    return count;
   }
+}
 
-  /**
-   * Check if a tenant connection exists
-   */
-  hasTenantConnection(tenantId: string): boolean {
-    return this.multiTenantManager.hasConnection(tenantId);
-  }
+// Services that are not request-scoped can use the tenant context set by TenantInterceptor
+@Injectable()
+export class AuditService {
+  constructor(private readonly manager: MultiTenantManager) {}
 
-  /**
-   * Get all tenant IDs
-   */
-  getAllTenantIds(): string[] {
-    return Array.from(this.tenantConfigs.keys());
+  async record(action: string): Promise<void> {
+    const connection = await this.manager.currentConnection();
+    await connection.query('INSERT INTO audit_log (action, tenant_id) VALUES ($1, $2)', [action, this.manager.currentTenant()]);
   }
+}
 
-  /**
-   * Update tenant configuration
-   */
-  async updateTenant(tenantId: string, newConfig: Partial<TenantConfig>): Promise<void> {
-    const existingConfig = this.tenantConfigs.get(tenantId);
-    if (!existingConfig) {
-      throw new Error(`Tenant not found: ${tenantId}`);
-    }
-
-    // Close existing connection
-    await this.multiTenantManager.closeConnection(tenantId);
-
-    // Update configuration
-    const updatedConfig = { ...existingConfig, ...newConfig };
-    this.tenantConfigs.set(tenantId, updatedConfig);
+@Controller('users')
+export class UserController {
+  constructor(private readonly userService: UserService, private readonly auditService: AuditService) {}
 
-    // Initialize new connection
-    await this.multiTenantManager.getConnection(tenantId, updatedConfig);
+  @Get()
+  getUsers(): Promise<User[]> {
+    return this.userService.getUsers();
   }
 
-  /**
-   * Test connection for a specific tenant
-   */
-  async testTenantConnection(tenantId: string): Promise<boolean> {
-    try {
-      const connection = await this.getTenantConnection(tenantId);
-      if (connection && connection.isInitialized) {
-        await connection.query('SELECT 1');
-        return true;
-      }
-      return false;
-    } catch (error) {
-      return false;
-    }
-  }
-
-  /**
-   * Cleanup inactive connections
-   */
-  async cleanupInactiveConnections(): Promise<void> {
-    await this.multiTenantManager.cleanupInactiveConnections();
+  @Post()
+  async createUser(@Body() userData: Pick<User, 'name' | 'email'>): Promise<User> {
+    const user = await this.userService.createUser(userData);
+    await this.auditService.record('user.created');
+    return user;
   }
 }
 
-// Example usage in a NestJS controller or service
-@Injectable()
-export class UserService {
-  constructor(private multiTenantDbService: MultiTenantDatabaseService) {}
-
-  async createUser(tenantId: string, userData: any): Promise<any> {
-    try {
-      const connection = await this.multiTenantDbService.getTenantConnection(tenantId);
-      
-      // Use the connection to create a user
-      const result = await connection.query(
-        'INSERT INTO users (name, email, created_at) VALUES ($1, $2, $3) RETURNING *',
-        [userData.name, userData.email, new Date()]
-      );
-
-      return result[0];
-    } catch (error) {
-      throw new Error(`Failed to create user: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  async getUsers(tenantId: string): Promise<any[]> {
-    try {
-      const connection = await this.multiTenantDbService.getTenantConnection(tenantId);
-      
-      // Use the connection to get users
-      const result = await connection.query('SELECT * FROM users ORDER BY created_at DESC');
-      
-      return result;
-    } catch (error) {
-      throw new Error(`Failed to get users: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-}
+@Module({
+  imports: [MultiTenantModule.forFeature([User])],
+  controllers: [UserController],
+  providers: [UserService, AuditService]
+})
+export class UsersModule {}
+
+@Module({
+  imports: [
+    ConfigModule.forRoot(),
+    // Provides MultiTenantManager everywhere and closes all connections on shutdown
+    MultiTenantModule.forRootAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      globalInterceptor: true,
+      useFactory: (config: ConfigService) => ({
+        logLevel: 'info',
+        enableIdleReaper: true,
+        tenantConfigProvider: createTenantConfigProvider(config),
+        modelRegistry: models,
+        resolvers: [tenantFromHeader('x-tenant-id'), tenantFromSubdomain({ baseDomain: 'example.com' })],
+        defaultOptions: {
+          maxConnections: 20,
+          connectionTimeout: 10000,
+          idleTimeout: 60000,
+          retryAttempts: 3,
+          retryDelay: 2000
+        }
+      })
+    }),
+    UsersModule
+  ]
+})
+export class AppModule {}
@@ -1,390 +1,119 @@
 import {
     DatabaseType,
     MongoDBCredentials,
-    MultiTenantManager,
-    TenantConfig
+    tenantFromHeader,
+    tenantFromSubdomain
 } from 'nodejs-db-multitenant';
-
-// Strapi plugin for multi-tenant database management
-export default {
-  register({ strapi }: any) {
-    // Initialize multi-tenant manager
-    const multiTenantManager = new MultiTenantManager({
-      enableLogging: true,
+import type { StrapiMultiTenantPluginConfig, StrapiTenantService } from 'nodejs-db-multitenant/dist/strapi';
+
+// config/plugins.ts: enable the plugin shipped with the package (its strapi-server.js)
+export const plugins = ({ env }: any) => ({
+  'multi-tenant': {
+    enabled: true,
+    resolve: './node_modules/nodejs-db-multitenant',
+    config: {
       logLevel: 'info',
-      enableConnectionPooling: true,
+      warmUp: true,              // connect all tenants during bootstrap (awaited)
+      enableIdleReaper: true,
+      resolvers: [tenantFromHeader('x-tenant-id'), tenantFromSubdomain({ baseDomain: env('BASE_DOMAIN', 'example.com') })],
       defaultOptions: {
         maxConnections: 15,
         connectionTimeout: 8000,
         idleTimeout: 45000,
         retryAttempts: 3,
         retryDelay: 1500
-      }
-    });
-
-    // Store tenant configurations
-    const tenantConfigs = new Map<string, TenantConfig>();
-
-    // Initialize default tenant configurations
-    const initializeTenantConfigs = () => {
-      const tenants = [
-        {
-          id: 'strapi_tenant1',
-          config: {
-            tenantId: 'strapi_tenant1',
-            databaseType: DatabaseType.MONGODB,
-            credentials: {
-              host: 'localhost',
-              port: 27017,
-              username: 'strapi_user1',
-              password: 'strapi_pass1',
-              database: 'strapi_tenant1_db',
-              authSource: 'admin',
-              ssl: false
-            } as MongoDBCredentials
-          }
-        },
-        {
-          id: 'strapi_tenant2',
-          config: {
-            tenantId: 'strapi_tenant2',
-            databaseType: DatabaseType.MONGODB,
-            credentials: {
-              host: 'localhost',
-              port: 27017,
-              username: 'strapi_user2',
-              password: 'strapi_pass2',
-              database: 'strapi_tenant2_db',
-              authSource: 'admin',
-              ssl: false
-            } as MongoDBCredentials
-          }
-        }
-      ];
-
-      tenants.forEach(tenant => {
-        tenantConfigs.set(tenant.id, tenant.config);
-      });
-    };
-
-    // Initialize connections for all tenants
-    const initializeAllConnections = async () => {
-      try {
-        for (const [tenantId, config] of tenantConfigs) {
-          await multiTenantManager.getConnection(tenantId, config);
-          strapi.log.info(`Initialized MongoDB connection for tenant: ${tenantId}`);
-        }
-      } catch (error) {
-        strapi.log.error('Failed to initialize tenant connections:', error);
-        throw error;
-      }
-    };
-
-    // Initialize on plugin load
-    initializeTenantConfigs();
-    initializeAllConnections();
-
-    // Add multi-tenant manager to strapi context
-    strapi.multiTenantManager = multiTenantManager;
-    strapi.tenantConfigs = tenantConfigs;
-
-    // Add utility functions to strapi
-    strapi.getTenantConnection = async (tenantId: string) => {
-      const config = tenantConfigs.get(tenantId);
-      if (!config) {
-        throw new Error(`Tenant configuration not found for: ${tenantId}`);
-      }
-      return multiTenantManager.getConnection(tenantId, config);
-    };
-
-    strapi.addTenant = async (tenantConfig: TenantConfig) => {
-      if (tenantConfigs.has(tenantConfig.tenantId)) {
-        throw new Error(`Tenant already exists: ${tenantConfig.tenantId}`);
-      }
-
-      tenantConfigs.set(tenantConfig.tenantId, tenantConfig);
-      await multiTenantManager.getConnection(tenantConfig.tenantId, tenantConfig);
-    };
-
-    strapi.removeTenant = async (tenantId: string) => {
-      if (!tenantConfigs.has(tenantId)) {
-        throw new Error(`Tenant not found: ${tenantId}`);
-      }
-
-      await multiTenantManager.closeConnection(tenantId);
-      tenantConfigs.delete(tenantId);
-    };
-
-    strapi.getConnectionStats = () => {
-      return multiTenantManager.getConnectionStats();
-    };
-
-    strapi.hasTenantConnection = (tenantId: string) => {
-      return multiTenantManager.hasConnection(tenantId);
-    };
-
-    strapi.getAllTenantIds = () => {
-      return Array.from(tenantConfigs.keys());
-    };
-
-    // Cleanup on application shutdown
-    process.on('SIGTERM', async () => {
-      strapi.log.info('Shutting down multi-tenant connections...');
-      await multiTenantManager.closeAllConnections();
-    });
-
-    process.on('SIGINT', async () => {
-      strapi.log.info('Shutting down multi-tenant connections...');
-      await multiTenantManager.closeAllConnections();
-    });
-  },
-
-  bootstrap({ strapi }: any) {
-    // Plugin bootstrap logic
-    strapi.log.info('Multi-tenant database plugin bootstrapped');
-  },
-
-  destroy({ strapi }: any) {
-    // Plugin destroy logic
-    strapi.log.info('Multi-tenant database plugin destroyed');
+      },
+      // Static tenants; pass tenantConfigProvider instead to load them from a database
+      tenants: ['strapi_tenant1', 'strapi_tenant2'].map((tenantId) => ({
+        tenantId,
+        databaseType: DatabaseType.MONGODB,
+        credentials: {
+          host: env('TENANT_DB_HOST', 'localhost'),
+          port: env.int('TENANT_DB_PORT', 27017),
+          username: `${tenantId}_user`,
+          password: env(`${tenantId.toUpperCase()}_PASSWORD`),
+          database: `${tenantId}_db`,
+          authSource: 'admin',
+          ssl: false
+        } as MongoDBCredentials
+      }))
+    } as StrapiMultiTenantPluginConfig
   }
+});
+
+// src/api/tenant-user/routes/tenant-user.ts: resolve the tenant before the handler runs.
+// Missing, unknown and unavailable tenants are answered with 400, 404 and 503.
+export const routes = {
+  routes: [
+    { method: 'GET', path: '/tenant-users', handler: 'tenant-user.find', config: { policies: ['plugin::multi-tenant.resolve-tenant'] } },
+    { method: 'GET', path: '/tenant-users/:id', handler: 'tenant-user.findOne', config: { policies: ['plugin::multi-tenant.resolve-tenant'] } },
+    { method: 'POST', path: '/tenant-users', handler: 'tenant-user.create', config: { policies: ['plugin::multi-tenant.resolve-tenant'] } },
+    // The route middleware also runs the handler inside the tenant context (service.currentConnection())
+    { method: 'GET', path: '/tenant-users-count', handler: 'tenant-user.count', config: { middlewares: ['plugin::multi-tenant.resolve-tenant'] } }
+  ]
 };
 
-// Example Strapi service using multi-tenant database
+// Example Strapi service using the tenant connection resolved for the request
 export class MultiTenantUserService {
   constructor(private strapi: any) {}
 
-  async createUser(tenantId: string, userData: any): Promise<any> {
-    try {
-      const connection = await this.strapi.getTenantConnection(tenantId);
-      
-      // Create a new user document
-      const user = new connection.models.User({
-        username: userData.username,
-        email: userData.email,
-        password: userData.password,
-        role: userData.role || 'authenticated',
-        created_at: new Date(),
-        updated_at: new Date()
-      });
-
-      const savedUser = await user.save();
-      return savedUser;
-    } catch (error) {
-      throw new Error(`Failed to create user: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  private get tenants(): StrapiTenantService {
+    return this.strapi.plugin('multi-tenant').service('tenant');
   }
 
-  async getUsers(tenantId: string, filters: any = {}): Promise<any[]> {
-    try {
-      const connection = await this.strapi.getTenantConnection(tenantId);
-      
-      // Build query based on filters
-      let query = connection.models.User.find();
-      
-      if (filters.username) {
-        query = query.where('username', new RegExp(filters.username, 'i'));
-      }
-      
-      if (filters.email) {
-        query = query.where('email', new RegExp(filters.email, 'i'));
-      }
-      
-      if (filters.role) {
-        query = query.where('role', filters.role);
-      }
-      
-      // Add sorting and pagination
-      query = query.sort({ created_at: -1 });
-      
-      if (filters.limit) {
-        query = query.limit(filters.limit);
-      }
-      
-      if (filters.offset) {
-        query = query.skip(filters.offset);
-      }
-      
-      const users = await query.exec();
-      return users;
-    } catch (error) {
-      throw new Error(`Failed to get users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  async getUsers(connection: any, filters: { role?: string; limit?: number; offset?: number } = {}): Promise<any[]> {
+    const query: Record<string, unknown> = {};
+    if (filters.role) {
+      query.role = filters.role;
     }
-  }
 
-  async getUserById(tenantId: string, userId: string): Promise<any> {
-    try {
-      const connection = await this.strapi.getTenantConnection(tenantId);
-      
-      const user = await connection.models.User.findById(userId).exec();
-      if (!user) {
-        throw new Error('User not found');
-      }
-      
-      return user;
-    } catch (error) {
-      throw new Error(`Failed to get user: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return connection.collection('users')
+      .find(query)
+      .sort({ created_at: -1 })
+      .skip(filters.offset ?? 0)
+      .limit(filters.limit ?? 100)
+      .toArray();
   }
 
-  async updateUser(tenantId: string, userId: string, updateData: any): Promise<any> {
-    try {
-      const connection = await this.strapi.getTenantConnection(tenantId);
-      
-      const user = await connection.models.User.findByIdAndUpdate(
-        userId,
-        { ...updateData, updated_at: new Date() },
-        { new: true, runValidators: true }
-      ).exec();
-      
-      if (!user) {
-        throw new Error('User not found');
-      }
-      
-      return user;
-    } catch (error) {
-      throw new Error(`Failed to update user: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  async getUserById(connection: any, userId: string): Promise<any> {
+    const { ObjectId } = require('mongodb');
+    return connection.collection('users').findOne({ _id: new ObjectId(userId) });
   }
 
-  async deleteUser(tenantId: string, userId: string): Promise<boolean> {
-    try {
-      const connection = await this.strapi.getTenantConnection(tenantId);
-      
-      const result = await connection.models.User.findByIdAndDelete(userId).exec();
-      return !!result;
-    } catch (error) {
-      throw new Error(`Failed to delete user: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  async getUserCount(tenantId: string): Promise<number> {
-    try {
-      const connection = await this.strapi.getTenantConnection(tenantId);
-      
-      const count = await connection.models.User.countDocuments().exec();
-      return count;
-    } catch (error) {
-      throw new Error(`Failed to get user count: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  async createUser(connection: any, userData: { username: string; email: string; role?: string }): Promise<any> {
+    const now = new Date();
+    const user = { ...userData, role: userData.role ?? 'authenticated', created_at: now, updated_at: now };
+    const { insertedId } = await connection.collection('users').insertOne(user);
+    return { _id: insertedId, ...user };
   }
 
-  async searchUsers(tenantId: string, searchTerm: string): Promise<any[]> {
-    try {
-      const connection = await this.strapi.getTenantConnection(tenantId);
-      
-      const users = await connection.models.User.find({
-        $or: [
-          { username: { $regex: searchTerm, $options: 'i' } },
-          { email: { $regex: searchTerm, $options: 'i' } },
-          { firstname: { $regex: searchTerm, $options: 'i' } },
-          { lastname: { $regex: searchTerm, $options: 'i' } }
-        ]
-      }).sort({ created_at: -1 }).exec();
-      
-      return users;
-    } catch (error) {
-      throw new Error(`Failed to search users: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  async countUsers(): Promise<number> {
+    const connection = await this.tenants.currentConnection();
+    return connection.collection('users').countDocuments();
   }
 }
 
-// Example Strapi controller using multi-tenant database
+// Example Strapi controller: the policy has put the tenant connection on ctx.state
 export class MultiTenantUserController {
   constructor(private userService: MultiTenantUserService) {}
 
-  async create(ctx: any) {
-    try {
-      const { tenantId } = ctx.params;
-      const userData = ctx.request.body;
-      
-      const user = await this.userService.createUser(tenantId, userData);
-      
-      ctx.send({
-        success: true,
-        data: user,
-        message: 'User created successfully'
-      });
-    } catch (error) {
-      ctx.badRequest('Failed to create user', {
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  }
-
   async find(ctx: any) {
-    try {
-      const { tenantId } = ctx.params;
-      const filters = ctx.query;
-      
-      const users = await this.userService.getUsers(tenantId, filters);
-      
-      ctx.send({
-        success: true,
-        data: users,
-        count: users.length
-      });
-    } catch (error) {
-      ctx.badRequest('Failed to get users', {
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
+    ctx.body = await this.userService.getUsers(ctx.state.tenantConnection, ctx.query);
   }
 
   async findOne(ctx: any) {
-    try {
-      const { tenantId, id } = ctx.params;
-      
-      const user = await this.userService.getUserById(tenantId, id);
-      
-      ctx.send({
-        success: true,
-        data: user
-      });
-    } catch (error) {
-      ctx.notFound('User not found', {
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+    const user = await this.userService.getUserById(ctx.state.tenantConnection, ctx.params.id);
+    if (!user) {
+      return ctx.notFound('User not found');
     }
+    ctx.body = user;
   }
 
-  async update(ctx: any) {
-    try {
-      const { tenantId, id } = ctx.params;
-      const updateData = ctx.request.body;
-      
-      const user = await this.userService.updateUser(tenantId, id, updateData);
-      
-      ctx.send({
-        success: true,
-        data: user,
-        message: 'User updated successfully'
-      });
-    } catch (error) {
-      ctx.badRequest('Failed to update user', {
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
+  async create(ctx: any) {
+    ctx.body = await this.userService.createUser(ctx.state.tenantConnection, ctx.request.body);
   }
 
-  async delete(ctx: any) {
-    try {
-      const { tenantId, id } = ctx.params;
-      
-      const deleted = await this.userService.deleteUser(tenantId, id);
-      
-      if (deleted) {
-        ctx.send({
-          success: true,
-          message: 'User deleted successfully'
-        });
-      } else {
-        ctx.notFound('User not found');
-      }
-    } catch (error) {
-      ctx.badRequest('Failed to delete user', {
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
+  async count(ctx: any) {
+    ctx.body = { count: await this.userService.countUsers() };
   }
 }
@@ -1,4 +1,7 @@
-import { ConnectionOptions, DatabaseCredentials, DatabaseType } from '../types';
+import { ConnectionError } from '../errors';
+import { ConnectionOptions, DatabaseCredentials, DatabaseType, Logger } from '../types';
+import { ConsoleLogger } from '../utils/logger';
+import { createRetryPolicy, isRetryableConnectionError, withRetry } from '../utils/retry';
 
 export abstract class BaseConnector {
   protected databaseType: DatabaseType;
@@ -6,6 +9,7 @@ export abstract class BaseConnector {
   protected options: ConnectionOptions;
   protected connection: any;
   protected isConnected: boolean = false;
+  protected logger: Logger;
 
   constructor(
     databaseType: DatabaseType,
@@ -15,6 +19,7 @@ export abstract class BaseConnector {
     this.databaseType = databaseType;
     this.credentials = credentials;
     this.options = options;
+    this.logger = options.logger ?? new ConsoleLogger(new.target.name);
   }
 
   /**
@@ -48,6 +53,24 @@ export abstract class BaseConnector {
     };
   }
 
+  /**
+   * Run a connection attempt, retrying transient failures according to the connection options
+   */
+  protected connectWithRetry<T>(attempt: () => Promise<T>): Promise<T> {
+    return withRetry(attempt, createRetryPolicy(this.options));
+  }
+
+  /**
+   * Wrap a final connection failure, keeping the original error as its cause
+   */
+  protected createConnectionError(message: string, error: unknown): ConnectionError {
+    return new ConnectionError(
+      `${message}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error,
+      isRetryableConnectionError(error)
+    );
+  }
+
   /**
    * Abstract method to create connection
    */
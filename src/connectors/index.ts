@@ -1,4 +1,10 @@
 export { BaseConnector } from './base-connector';
 export { MongoDBConnector } from './mongodb-connector';
+export { MongoDBSharedConnector } from './mongodb-shared-connector';
 export { PostgreSQLConnector } from './postgresql-connector';
+export { PostgreSQLRlsConnection } from './postgresql-rls-connection';
+export { PostgreSQLRlsConnector } from './postgresql-rls-connector';
+export { PostgreSQLSchemaConnection } from './postgresql-schema-connection';
+export { PostgreSQLSchemaConnector } from './postgresql-schema-connector';
+export { PostgreSQLSharedPoolConnector, PostgreSQLTenantHandle } from './postgresql-shared-pool-connector';
 
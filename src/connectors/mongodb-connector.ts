@@ -66,33 +66,47 @@ export class MongoDBConnector extends BaseConnector {
         ...this.credentials.options
       };
 
-      this.mongooseConnection = await mongoose.createConnection(
-        this.connectionString,
-        mongooseOptions
-      ) as Connection;
+      this.mongooseConnection = await this.connectWithRetry(() => this.openConnection(mongooseOptions));
 
       this.mongooseConnection.on('connected', () => {
         this.isConnected = true;
-        console.log(`MongoDB connected for tenant: ${this.credentials.database}`);
+        this.logger.info(`MongoDB connected for tenant: ${this.credentials.database}`, { database: this.credentials.database });
       });
 
       this.mongooseConnection.on('disconnected', () => {
         this.isConnected = false;
-        console.log(`MongoDB disconnected for tenant: ${this.credentials.database}`);
+        this.logger.info(`MongoDB disconnected for tenant: ${this.credentials.database}`, { database: this.credentials.database });
       });
 
-      this.mongooseConnection.on('error', (error) => {
-        console.error(`MongoDB connection error for tenant ${this.credentials.database}:`, error);
+      this.mongooseConnection.on('error', (error: Error) => {
+        this.logger.error(`MongoDB connection error for tenant ${this.credentials.database}: ${error.message}`, {
+          database: this.credentials.database
+        });
         this.isConnected = false;
       });
 
-      (this as any).connection = this.mongooseConnection;
+      this.connection = this.mongooseConnection;
       this.isConnected = true;
 
       return this.mongooseConnection;
     } catch (error) {
       this.isConnected = false;
-      throw new Error(`Failed to connect to MongoDB: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.createConnectionError('Failed to connect to MongoDB', error);
+    }
+  }
+
+  /**
+   * Open a single Mongoose connection and wait for the initial handshake
+   */
+  private async openConnection(mongooseOptions: MongooseConnectionOptions): Promise<Connection> {
+    const connection = mongoose.createConnection(this.connectionString, mongooseOptions);
+
+    try {
+      return await connection.asPromise();
+    } catch (error) {
+      // Release the failed connection before the next attempt
+      await connection.close().catch(() => undefined);
+      throw error;
     }
   }
 
@@ -0,0 +1,121 @@
+import { Connection } from 'mongoose';
+import { ConnectionOptions, DatabaseType, MongoDBCredentials } from '../types';
+import { SharedConnectionRegistry } from '../utils/shared-connection-registry';
+import { BaseConnector } from './base-connector';
+import { MongoDBConnector } from './mongodb-connector';
+
+/**
+ * Connector for tenants that share a base connection: tenants on the same cluster with the same user
+ * share one Mongoose connection (one pool and topology monitor), and each tenant gets
+ * `base.useDb(database, { useCache: true })` for its own database.
+ */
+export class MongoDBSharedConnector extends BaseConnector {
+  private sharedConnections: SharedConnectionRegistry<Connection>;
+  private baseKey: string;
+  private tenantConnection: Connection | null = null;
+
+  constructor(
+    credentials: MongoDBCredentials,
+    options: ConnectionOptions,
+    sharedConnections: SharedConnectionRegistry<Connection>
+  ) {
+    super(DatabaseType.MONGODB, credentials, options);
+    this.sharedConnections = sharedConnections;
+    this.baseKey = MongoDBSharedConnector.getBaseKey(credentials);
+  }
+
+  /**
+   * Key of the base connection shared by all tenants with the same host, port, replica set and user
+   */
+  public static getBaseKey(credentials: MongoDBCredentials): string {
+    const user = credentials.username ? `${credentials.username}@` : '';
+    const params = [
+      `authSource=${credentials.authSource ?? 'admin'}`,
+      ...(credentials.replicaSet ? [`replicaSet=${credentials.replicaSet}`] : [])
+    ];
+    return `mongodb://${user}${credentials.host}:${credentials.port}?${params.join('&')}`;
+  }
+
+  /**
+   * Join (or open) the shared base connection and switch to the tenant database
+   */
+  public async connect(): Promise<Connection> {
+    if (this.isConnected && this.tenantConnection) {
+      return this.tenantConnection;
+    }
+
+    const credentials: MongoDBCredentials = { ...this.credentials };
+    delete credentials.sharedConnection;
+    const authSource = credentials.authSource ?? 'admin';
+    // The base authenticates against authSource; the first tenant's connection options size its pool
+    const base = await this.sharedConnections.acquire(
+      this.baseKey,
+      () => new MongoDBConnector({ ...credentials, database: authSource, authSource }, this.options).connect()
+    );
+
+    this.tenantConnection = base.useDb(this.credentials.database, { useCache: true });
+    this.connection = this.tenantConnection;
+    this.isConnected = true;
+
+    this.logger.info(`MongoDB database ${this.credentials.database} attached to shared connection ${this.baseKey}`, {
+      database: this.credentials.database,
+      tenantsOnConnection: this.sharedConnections.getRefCount(this.baseKey)
+    });
+
+    return this.tenantConnection;
+  }
+
+  /**
+   * Release this tenant's share of the base connection; the base closes when its last tenant is gone.
+   * The tenant connection itself is not closed, because closing a useDb connection closes its base.
+   */
+  public async disconnect(): Promise<void> {
+    if (!this.tenantConnection) return;
+
+    this.tenantConnection = null;
+    this.connection = null;
+    this.isConnected = false;
+
+    await this.sharedConnections.release(this.baseKey);
+  }
+
+  public async testConnection(): Promise<boolean> {
+    return this.ping();
+  }
+
+  public async ping(): Promise<boolean> {
+    try {
+      if (!this.tenantConnection) {
+        return false;
+      }
+
+      await this.tenantConnection.db.admin().ping();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public async getConnectionInfo(): Promise<any> {
+    if (!this.tenantConnection) {
+      throw new Error('MongoDB connection not established');
+    }
+
+    try {
+      const serverInfo = await this.tenantConnection.db.admin().serverInfo();
+      const dbStats = await this.tenantConnection.db.stats();
+
+      return {
+        serverInfo,
+        dbStats,
+        database: this.credentials.database,
+        host: this.credentials.host,
+        port: this.credentials.port,
+        sharedConnection: this.baseKey,
+        tenantsOnConnection: this.sharedConnections.getRefCount(this.baseKey)
+      };
+    } catch (error) {
+      throw new Error(`Failed to get MongoDB connection info: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
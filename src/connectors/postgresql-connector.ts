@@ -1,17 +1,24 @@
-import { Connection, ConnectionOptions as TypeORMConnectionOptions } from 'typeorm';
+import { Connection, ConnectionOptions as TypeORMConnectionOptions, createConnection } from 'typeorm';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
 import { ConnectionOptions, DatabaseType, PostgreSQLCredentials } from '../types';
 import { BaseConnector } from './base-connector';
 
 export class PostgreSQLConnector extends BaseConnector {
   private typeormConnection: Connection | null = null;
   private connectionString: string;
+  private typeormOptions: Partial<PostgresConnectionOptions>;
 
+  /**
+   * @param typeormOptions Extra TypeORM options (connection name, entities, migrations, ...) merged over the defaults
+   */
   constructor(
     credentials: PostgreSQLCredentials,
-    options: ConnectionOptions = {}
+    options: ConnectionOptions = {},
+    typeormOptions: Partial<PostgresConnectionOptions> = {}
   ) {
     super(DatabaseType.POSTGRESQL, credentials, options);
     this.connectionString = this.buildConnectionString(credentials);
+    this.typeormOptions = typeormOptions;
   }
 
   /**
@@ -56,6 +63,10 @@ export class PostgreSQLConnector extends BaseConnector {
         return this.typeormConnection;
       }
 
+      const typeormOptions = { ...this.typeormOptions };
+      const extra = typeormOptions.extra as Record<string, unknown> | undefined;
+      delete typeormOptions.extra;
+      const sslConfig = (this.credentials as PostgreSQLCredentials).ssl;
       const connectionOptions: TypeORMConnectionOptions = {
         type: 'postgres',
         host: this.credentials.host,
@@ -63,7 +74,10 @@ export class PostgreSQLConnector extends BaseConnector {
         username: this.credentials.username,
         password: this.credentials.password,
         database: this.credentials.database,
-        schema: (this.credentials as PostgreSQLCredentials).schema || 'public',
+        // Schema-per-tenant pools leave table paths unqualified, so each checkout's search_path picks the tenant schema
+        ...((this.credentials as PostgreSQLCredentials).tenancy === 'schema'
+          ? {}
+          : { schema: (this.credentials as PostgreSQLCredentials).schema || 'public' }),
         synchronize: false,
         logging: false,
         entities: [],
@@ -73,38 +87,30 @@ export class PostgreSQLConnector extends BaseConnector {
           max: this.options.maxConnections || 10,
           connectionTimeoutMillis: this.options.connectionTimeout || 5000,
           idleTimeoutMillis: this.options.idleTimeout || 30000,
-          ...this.credentials.options
-        }
-      };
-
-      // Handle SSL configuration
-      if ((this.credentials as PostgreSQLCredentials).ssl) {
-        const sslConfig = (this.credentials as PostgreSQLCredentials).ssl;
-        if (typeof sslConfig === 'object') {
-          (connectionOptions.extra as any) = {
-            ...connectionOptions.extra,
-            ssl: sslConfig
-          };
-        } else if (sslConfig === true) {
-          (connectionOptions.extra as any) = {
-            ...connectionOptions.extra,
-            ssl: { rejectUnauthorized: false }
-          };
-        }
-      }
+          ...this.credentials.options,
+          ...extra,
+          // Handle SSL configuration
+          ...(typeof sslConfig === 'object' ? { ssl: sslConfig } : {}),
+          ...(sslConfig === true ? { ssl: { rejectUnauthorized: false } } : {})
+        },
+        ...typeormOptions
+      } as TypeORMConnectionOptions;
 
       // In older TypeORM versions, we need to use createConnection
-      this.typeormConnection = await require('typeorm').createConnection(connectionOptions);
-      
-      (this as any).connection = this.typeormConnection!;
+      const connection = await this.connectWithRetry<Connection>(
+        () => createConnection(connectionOptions)
+      );
+
+      this.typeormConnection = connection;
+      this.connection = connection;
       this.isConnected = true;
 
-      console.log(`PostgreSQL connected for tenant: ${this.credentials.database}`);
+      this.logger.info(`PostgreSQL connected for tenant: ${this.credentials.database}`, { database: this.credentials.database });
 
-      return this.typeormConnection!;
+      return connection;
     } catch (error) {
       this.isConnected = false;
-      throw new Error(`Failed to connect to PostgreSQL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.createConnectionError('Failed to connect to PostgreSQL', error);
     }
   }
 
@@ -149,9 +155,9 @@ export class PostgreSQLConnector extends BaseConnector {
     }
 
     try {
-      const version = await this.typeormConnection.query('SELECT version()');
-      const currentDatabase = await this.typeormConnection.query('SELECT current_database()');
-      const currentSchema = await this.typeormConnection.query('SELECT current_schema()');
+      const version = await this.typeormConnection.query('SELECT version()') as Array<{ version: string }>;
+      const currentDatabase = await this.typeormConnection.query('SELECT current_database()') as Array<{ current_database: string }>;
+      const currentSchema = await this.typeormConnection.query('SELECT current_schema()') as Array<{ current_schema: string }>;
       
       return {
         version: version[0]?.version,
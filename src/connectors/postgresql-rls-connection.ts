@@ -0,0 +1,100 @@
+import { Connection, QueryRunner } from 'typeorm';
+import { IsolationLevel } from 'typeorm/driver/types/IsolationLevel';
+
+/**
+ * Tenant handle on a PostgreSQL pool shared by row-level-security tenants.
+ * Every checkout opens a transaction and sets the tenant setting with set_config(..., true),
+ * so the value is scoped to that transaction and never outlives the checkout.
+ */
+export class PostgreSQLRlsConnection {
+  public readonly tenantId: string;
+  public readonly tenantSetting: string;
+  public readonly dataSource: Connection;
+  private onDestroy: () => Promise<void>;
+  private destroyed: boolean = false;
+
+  constructor(dataSource: Connection, tenantId: string, tenantSetting: string, onDestroy: () => Promise<void>) {
+    this.dataSource = dataSource;
+    this.tenantId = tenantId;
+    this.tenantSetting = tenantSetting;
+    this.onDestroy = onDestroy;
+  }
+
+  /**
+   * Whether the handle can still be used (the shared pool is open and the tenant was not closed)
+   */
+  public get isInitialized(): boolean {
+    return !this.destroyed && this.dataSource.isConnected;
+  }
+
+  /**
+   * Check out a query runner with an open transaction scoped to the tenant. The caller commits
+   * the transaction and must release the runner; releasing rolls back anything left uncommitted.
+   */
+  public async acquireQueryRunner(isolationLevel?: IsolationLevel): Promise<QueryRunner> {
+    if (this.destroyed) {
+      throw new Error(`Connection for tenant ${this.tenantId} has been closed`);
+    }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    try {
+      await queryRunner.startTransaction(isolationLevel);
+      await queryRunner.query('SELECT set_config($1, $2, true)', [this.tenantSetting, this.tenantId]);
+    } catch (error) {
+      await this.rollback(queryRunner);
+      await queryRunner.release();
+      throw error;
+    }
+
+    const release = queryRunner.release.bind(queryRunner);
+    queryRunner.release = async () => {
+      try {
+        await this.rollback(queryRunner);
+      } finally {
+        await release();
+      }
+    };
+
+    return queryRunner;
+  }
+
+  /**
+   * Run a callback in a transaction scoped to the tenant. The transaction is committed when the
+   * callback resolves and rolled back when it throws.
+   */
+  public async withQueryRunner<T>(callback: (queryRunner: QueryRunner) => Promise<T>): Promise<T> {
+    const queryRunner = await this.acquireQueryRunner();
+    try {
+      const result = await callback(queryRunner);
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.commitTransaction();
+      }
+      return result;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Execute a raw query as the tenant
+   */
+  public query(sql: string, parameters?: any[]): Promise<any> {
+    return this.withQueryRunner((queryRunner) => queryRunner.query(sql, parameters));
+  }
+
+  /**
+   * Give up this tenant's share of the pool; the pool closes when its last tenant is gone
+   */
+  public async destroy(): Promise<void> {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    await this.onDestroy();
+  }
+
+  private async rollback(queryRunner: QueryRunner): Promise<void> {
+    if (queryRunner.isTransactionActive && !queryRunner.isReleased) {
+      await queryRunner.rollbackTransaction();
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Connection } from 'typeorm';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+import { ConnectionOptions, PostgreSQLCredentials } from '../types';
+import { DEFAULT_TENANT_SETTING } from '../utils/rls-policies';
+import { SharedConnectionRegistry } from '../utils/shared-connection-registry';
+import { PostgreSQLRlsConnection } from './postgresql-rls-connection';
+import { PostgreSQLSharedPoolConnector } from './postgresql-shared-pool-connector';
+
+/**
+ * Connector for row-level-security tenants: tenants with the same host, port, database, user and
+ * schema share one pool and the same tables, and each tenant gets a PostgreSQLRlsConnection that
+ * identifies it to the RLS policies through the tenant setting.
+ */
+export class PostgreSQLRlsConnector extends PostgreSQLSharedPoolConnector<PostgreSQLRlsConnection> {
+  private tenantId: string;
+  private tenantSetting: string;
+
+  constructor(
+    tenantId: string,
+    credentials: PostgreSQLCredentials,
+    options: ConnectionOptions,
+    sharedPools: SharedConnectionRegistry<Connection>,
+    typeormOptions: Partial<PostgresConnectionOptions> = {},
+    group?: string
+  ) {
+    super(credentials, options, sharedPools, PostgreSQLRlsConnector.getRlsPoolKey(credentials, group), typeormOptions);
+    this.tenantId = tenantId;
+    this.tenantSetting = credentials.tenantSetting ?? DEFAULT_TENANT_SETTING;
+  }
+
+  /**
+   * Tenants only share a pool when they also share the default schema
+   */
+  public static getRlsPoolKey(credentials: PostgreSQLCredentials, group?: string): string {
+    const poolKey = PostgreSQLSharedPoolConnector.getPoolKey(credentials, group);
+    return credentials.schema ? `${poolKey}?schema=${credentials.schema}` : poolKey;
+  }
+
+  protected getPoolCredentials(): PostgreSQLCredentials {
+    const poolCredentials: PostgreSQLCredentials = { ...this.credentials };
+    delete poolCredentials.tenancy;
+    delete poolCredentials.tenantSetting;
+    return poolCredentials;
+  }
+
+  protected createHandle(dataSource: Connection, onDestroy: () => Promise<void>): PostgreSQLRlsConnection {
+    return new PostgreSQLRlsConnection(dataSource, this.tenantId, this.tenantSetting, onDestroy);
+  }
+
+  protected describeTenancy(): Record<string, unknown> {
+    return { tenancy: 'rls', tenantSetting: this.tenantSetting };
+  }
+}
@@ -0,0 +1,90 @@
+import { Connection, QueryRunner } from 'typeorm';
+import { quoteIdentifier } from '../utils/sql';
+
+/**
+ * Tenant handle on a PostgreSQL pool shared by schema-per-tenant tenants.
+ * Every checkout runs on a query runner whose search_path is the tenant schema; it is reset on release.
+ */
+export class PostgreSQLSchemaConnection {
+  public readonly schema: string;
+  public readonly dataSource: Connection;
+  private onDestroy: () => Promise<void>;
+  private destroyed: boolean = false;
+
+  constructor(dataSource: Connection, schema: string, onDestroy: () => Promise<void>) {
+    this.dataSource = dataSource;
+    this.schema = schema;
+    this.onDestroy = onDestroy;
+  }
+
+  /**
+   * Whether the handle can still be used (the shared pool is open and the tenant was not closed)
+   */
+  public get isInitialized(): boolean {
+    return !this.destroyed && this.dataSource.isConnected;
+  }
+
+  /**
+   * Check out a query runner scoped to the tenant schema. The caller must release it.
+   */
+  public async acquireQueryRunner(): Promise<QueryRunner> {
+    if (this.destroyed) {
+      throw new Error(`Connection for schema ${this.schema} has been closed`);
+    }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    try {
+      await queryRunner.query(`SET search_path TO ${quoteIdentifier(this.schema)}`);
+    } catch (error) {
+      await queryRunner.release();
+      throw error;
+    }
+
+    const release = queryRunner.release.bind(queryRunner);
+    queryRunner.release = async () => {
+      try {
+        // Pooled connections must not leak the tenant schema, or a transaction left open, to the next checkout.
+        // An aborted transaction would also fail the RESET, so it is rolled back first.
+        if (!queryRunner.isReleased) {
+          if (queryRunner.isTransactionActive) {
+            await queryRunner.rollbackTransaction();
+          }
+          await queryRunner.query('RESET search_path');
+        }
+      } finally {
+        await release();
+      }
+    };
+
+    return queryRunner;
+  }
+
+  /**
+   * Run a callback with a query runner scoped to the tenant schema, releasing it afterwards
+   */
+  public async withQueryRunner<T>(callback: (queryRunner: QueryRunner) => Promise<T>): Promise<T> {
+    const queryRunner = await this.acquireQueryRunner();
+    try {
+      return await callback(queryRunner);
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Execute a raw query in the tenant schema
+   */
+  public query(sql: string, parameters?: any[]): Promise<any> {
+    return this.withQueryRunner((queryRunner) => queryRunner.query(sql, parameters));
+  }
+
+  /**
+   * Give up this tenant's share of the pool; the pool closes when its last tenant is gone
+   */
+  public async destroy(): Promise<void> {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    await this.onDestroy();
+  }
+}
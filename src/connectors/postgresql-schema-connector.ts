@@ -0,0 +1,47 @@
+import { Connection } from 'typeorm';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+import { ConnectionOptions, PostgreSQLCredentials } from '../types';
+import { SharedConnectionRegistry } from '../utils/shared-connection-registry';
+import { PostgreSQLSchemaConnection } from './postgresql-schema-connection';
+import { PostgreSQLSharedPoolConnector } from './postgresql-shared-pool-connector';
+
+/**
+ * Connector for schema-per-tenant tenants: tenants with the same host, port, database and user
+ * share one pool, and each tenant gets a PostgreSQLSchemaConnection scoped to its schema.
+ */
+export class PostgreSQLSchemaConnector extends PostgreSQLSharedPoolConnector<PostgreSQLSchemaConnection> {
+  private schema: string;
+
+  constructor(
+    credentials: PostgreSQLCredentials,
+    options: ConnectionOptions,
+    sharedPools: SharedConnectionRegistry<Connection>,
+    typeormOptions: Partial<PostgresConnectionOptions> = {},
+    group?: string
+  ) {
+    super(credentials, options, sharedPools, PostgreSQLSharedPoolConnector.getPoolKey(credentials, group), typeormOptions);
+
+    if (!credentials.schema) {
+      throw new Error('Schema-per-tenant mode requires credentials.schema');
+    }
+
+    this.schema = credentials.schema;
+  }
+
+  /**
+   * The pool keeps tenancy 'schema' and drops the schema, so its table paths stay unqualified
+   */
+  protected getPoolCredentials(): PostgreSQLCredentials {
+    const poolCredentials: PostgreSQLCredentials = { ...this.credentials };
+    delete poolCredentials.schema;
+    return poolCredentials;
+  }
+
+  protected createHandle(dataSource: Connection, onDestroy: () => Promise<void>): PostgreSQLSchemaConnection {
+    return new PostgreSQLSchemaConnection(dataSource, this.schema, onDestroy);
+  }
+
+  protected describeTenancy(): Record<string, unknown> {
+    return { schema: this.schema, tenancy: 'schema' };
+  }
+}
@@ -0,0 +1,148 @@
+import { Connection } from 'typeorm';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+import { ConnectionOptions, DatabaseType, PostgreSQLCredentials } from '../types';
+import { SharedConnectionRegistry } from '../utils/shared-connection-registry';
+import { BaseConnector } from './base-connector';
+import { PostgreSQLConnector } from './postgresql-connector';
+
+/**
+ * Tenant-scoped handle on a shared PostgreSQL pool
+ */
+export interface PostgreSQLTenantHandle {
+  readonly isInitialized: boolean;
+  query(sql: string, parameters?: any[]): Promise<any>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * Base for connectors whose tenants share one pool per host, port, database and user.
+ * Each tenant joins the pool on connect, gets a handle scoped to it, and leaves the pool on disconnect.
+ */
+export abstract class PostgreSQLSharedPoolConnector<THandle extends PostgreSQLTenantHandle> extends BaseConnector {
+  protected sharedPools: SharedConnectionRegistry<Connection>;
+  protected poolKey: string;
+  private typeormOptions: Partial<PostgresConnectionOptions>;
+  private handle: THandle | null = null;
+
+  constructor(
+    credentials: PostgreSQLCredentials,
+    options: ConnectionOptions,
+    sharedPools: SharedConnectionRegistry<Connection>,
+    poolKey: string,
+    typeormOptions: Partial<PostgresConnectionOptions> = {}
+  ) {
+    super(DatabaseType.POSTGRESQL, credentials, options);
+    this.sharedPools = sharedPools;
+    this.poolKey = poolKey;
+    this.typeormOptions = typeormOptions;
+  }
+
+  /**
+   * Key of the pool shared by all tenants with the same host, port, database and user.
+   * Tenant groups get pools of their own, because the pool holds the group's entities.
+   */
+  public static getPoolKey(credentials: PostgreSQLCredentials, group?: string): string {
+    const poolKey = `postgresql://${credentials.username}@${credentials.host}:${credentials.port}/${credentials.database}`;
+    return group !== undefined ? `${poolKey}#${encodeURIComponent(group)}` : poolKey;
+  }
+
+  /**
+   * Credentials the shared pool is opened with
+   */
+  protected abstract getPoolCredentials(): PostgreSQLCredentials;
+
+  /**
+   * Create the tenant handle on the shared pool
+   */
+  protected abstract createHandle(dataSource: Connection, onDestroy: () => Promise<void>): THandle;
+
+  /**
+   * Tenancy details added to logs and connection info
+   */
+  protected abstract describeTenancy(): Record<string, unknown>;
+
+  /**
+   * Join (or open) the shared pool and return a handle scoped to the tenant
+   */
+  public async connect(): Promise<THandle> {
+    if (this.isConnected && this.handle) {
+      return this.handle;
+    }
+
+    // The first tenant's connection options size the shared pool. The pool is named after its key,
+    // since TypeORM refuses a second active connection under the same name.
+    const dataSource = await this.sharedPools.acquire(
+      this.poolKey,
+      () => new PostgreSQLConnector(
+        this.getPoolCredentials(),
+        this.options,
+        { name: `pool:${this.poolKey}`, ...this.typeormOptions }
+      ).connect()
+    );
+
+    this.handle = this.createHandle(dataSource, () => this.disconnect());
+    this.connection = this.handle;
+    this.isConnected = true;
+
+    this.logger.info(`PostgreSQL tenant attached to shared pool ${this.poolKey}`, {
+      ...this.describeTenancy(),
+      tenantsOnPool: this.sharedPools.getRefCount(this.poolKey)
+    });
+
+    return this.handle;
+  }
+
+  /**
+   * Release this tenant's share of the pool
+   */
+  public async disconnect(): Promise<void> {
+    const handle = this.handle;
+    if (!handle) return;
+
+    this.handle = null;
+    this.connection = null;
+    this.isConnected = false;
+
+    await handle.destroy();
+    await this.sharedPools.release(this.poolKey);
+  }
+
+  public async testConnection(): Promise<boolean> {
+    return this.ping();
+  }
+
+  public async ping(): Promise<boolean> {
+    try {
+      if (!this.handle) {
+        return false;
+      }
+
+      await this.handle.query('SELECT 1');
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public async getConnectionInfo(): Promise<any> {
+    if (!this.handle) {
+      throw new Error('PostgreSQL connection not established');
+    }
+
+    const [row] = await this.handle.query(
+      'SELECT version() AS version, current_database() AS current_database, current_schema() AS current_schema'
+    ) as Array<{ version: string; current_database: string; current_schema: string } | undefined>;
+
+    return {
+      version: row?.version,
+      currentDatabase: row?.current_database,
+      currentSchema: row?.current_schema,
+      database: this.credentials.database,
+      host: this.credentials.host,
+      port: this.credentials.port,
+      ...this.describeTenancy(),
+      sharedPool: this.poolKey,
+      tenantsOnPool: this.sharedPools.getRefCount(this.poolKey)
+    };
+  }
+}
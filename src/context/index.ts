@@ -0,0 +1 @@
+export { TenantContext } from './tenant-context';
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { NoTenantContextError } from '../errors';
+import { TenantContextStore } from '../types';
+
+/**
+ * Tracks the current tenant across async calls, so code deep in the call stack
+ * can find its tenant without threading tenantId through every function.
+ */
+export class TenantContext {
+  private storage: AsyncLocalStorage<TenantContextStore> = new AsyncLocalStorage();
+
+  /**
+   * Run a function with the given tenant as the current tenant; nested scopes override outer ones
+   */
+  public run<T>(tenantId: string, fn: () => T): T {
+    return this.storage.run({ tenantId }, fn);
+  }
+
+  /**
+   * Get the current tenant ID, or undefined outside a tenant scope
+   */
+  public getTenantId(): string | undefined {
+    return this.storage.getStore()?.tenantId;
+  }
+
+  /**
+   * Get the current tenant ID, throwing outside a tenant scope
+   */
+  public requireTenantId(): string {
+    const tenantId = this.getTenantId();
+    if (tenantId === undefined) {
+      throw new NoTenantContextError();
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,120 @@
+export class MultiTenantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class TenantNotFoundError extends MultiTenantError {
+  public readonly tenantId: string;
+
+  constructor(tenantId: string) {
+    super(`Tenant not found: ${tenantId}`);
+    this.tenantId = tenantId;
+  }
+}
+
+export class ConnectionError extends MultiTenantError {
+  public readonly cause: unknown;
+  public readonly retryable: boolean;
+
+  constructor(message: string, cause: unknown, retryable: boolean) {
+    super(message);
+    this.cause = cause;
+    this.retryable = retryable;
+  }
+}
+
+export class ConnectionBudgetExceededError extends MultiTenantError {
+  public readonly tenantId: string;
+
+  constructor(tenantId: string, reason: string) {
+    super(`Connection budget exceeded for tenant ${tenantId}: ${reason}`);
+    this.tenantId = tenantId;
+  }
+}
+
+export class CircuitOpenError extends MultiTenantError {
+  public readonly tenantId: string;
+  public readonly retryAfter: number;
+
+  constructor(tenantId: string, retryAfter: number) {
+    super(`Circuit breaker is open for tenant ${tenantId}, retry in ${retryAfter}ms`);
+    this.tenantId = tenantId;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class TimeoutError extends MultiTenantError {
+  public readonly timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(`${message} timed out after ${timeout}ms`);
+    this.timeout = timeout;
+  }
+}
+
+export class NoTenantContextError extends MultiTenantError {
+  constructor() {
+    super('No tenant context: wrap the call in MultiTenantManager.runWithTenant()');
+  }
+}
+
+export class TenantRequestError extends MultiTenantError {
+  public readonly statusCode: number;
+  public readonly tenantId: string | undefined;
+  public readonly retryAfter: number | undefined;   // Seconds, for the Retry-After header
+  public readonly cause: unknown;
+
+  constructor(statusCode: number, message: string, tenantId?: string, cause?: unknown, retryAfter?: number) {
+    super(message);
+    this.statusCode = statusCode;
+    this.tenantId = tenantId;
+    this.cause = cause;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class TenantAlreadyExistsError extends MultiTenantError {
+  public readonly tenantId: string;
+
+  constructor(tenantId: string) {
+    super(`Tenant already exists: ${tenantId}`);
+    this.tenantId = tenantId;
+  }
+}
+
+export class CrossTenantError extends MultiTenantError {
+  public readonly tenantId: string;
+  public readonly operation: string;
+
+  constructor(tenantId: string, operation: string) {
+    super(`Cross-tenant operation rejected: ${operation} would read or write data outside tenant ${tenantId}`);
+    this.tenantId = tenantId;
+    this.operation = operation;
+  }
+}
+
+export class ProvisioningError extends MultiTenantError {
+  public readonly tenantId: string;
+  public readonly step: string;
+  public readonly cause: unknown;
+
+  constructor(tenantId: string, step: string, cause: unknown) {
+    super(`Provisioning tenant ${tenantId} failed at step ${step}: ${cause instanceof Error ? cause.message : 'Unknown error'}`);
+    this.tenantId = tenantId;
+    this.step = step;
+    this.cause = cause;
+  }
+}
+
+export class MigrationLockError extends MultiTenantError {
+  public readonly tenantId: string;
+  public readonly owner: string | undefined;
+
+  constructor(tenantId: string, owner?: string) {
+    super(`Migrations for tenant ${tenantId} are locked${owner ? ` by ${owner}` : ''}`);
+    this.tenantId = tenantId;
+    this.owner = owner;
+  }
+}
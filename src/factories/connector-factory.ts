@@ -20,7 +20,7 @@ export class ConnectorFactory {
         return new PostgreSQLConnector(credentials, options);
       
       default:
-        throw new Error(`Unsupported database type: ${databaseType}`);
+        throw new Error(`Unsupported database type: ${String(databaseType)}`);
     }
   }
 
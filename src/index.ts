@@ -5,13 +5,198 @@ export { MultiTenantManager } from './multi-tenant-manager';
 // Connector exports
 export { BaseConnector } from './connectors/base-connector';
 export { MongoDBConnector } from './connectors/mongodb-connector';
+export { MongoDBSharedConnector } from './connectors/mongodb-shared-connector';
 export { PostgreSQLConnector } from './connectors/postgresql-connector';
+export { PostgreSQLRlsConnection } from './connectors/postgresql-rls-connection';
+export { PostgreSQLRlsConnector } from './connectors/postgresql-rls-connector';
+export { PostgreSQLSchemaConnection } from './connectors/postgresql-schema-connection';
+export { PostgreSQLSchemaConnector } from './connectors/postgresql-schema-connector';
+export { PostgreSQLSharedPoolConnector, PostgreSQLTenantHandle } from './connectors/postgresql-shared-pool-connector';
+
+// Tenant context exports
+export { TenantContext } from './context';
+
+// Model registry exports
+export { ModelClass, ModelRegistrationOptions, ModelRegistry, MongooseSchemaDefinition } from './models';
+
+// Transaction exports
+export {
+    isRetryableTransactionError,
+    MongoDBClientSession,
+    MongoDBTransaction,
+    MongoDBTransactionOptions,
+    PostgreSQLTransaction,
+    TenantTransaction,
+    TransactionOptions
+} from './transactions';
+
+// Mongoose exports
+export { tenantPlugin, TenantPluginOptions } from './mongoose';
+
+// HTTP middleware exports
+export {
+    createFastifyTenantHook,
+    createKoaTenantMiddleware,
+    createTenantMiddleware,
+    FastifyLikeReply,
+    FastifyLikeRequest,
+    HttpRequestLike,
+    JwtClaimResolverOptions,
+    KoaLikeContext,
+    NextFunction,
+    releaseOnResponseEnd,
+    resolveTenantRequest,
+    ResponseEndEmitter,
+    SubdomainResolverOptions,
+    TenantErrorBody,
+    tenantErrorBody,
+    tenantFromHeader,
+    tenantFromJwtClaim,
+    tenantFromPath,
+    tenantFromQuery,
+    tenantFromSubdomain,
+    TenantIncomingMessage,
+    TenantMiddlewareOptions,
+    TenantRequestInfo,
+    tenantRequestInfo,
+    TenantResolution,
+    TenantResolver
+} from './middleware';
+
+// Migration exports
+export {
+    MigrationReport,
+    MigrationRunOptions,
+    MongoDBMigration,
+    MongoDBMigrationRunner,
+    MongoDBMigrationRunnerOptions,
+    MongoDBRollbackOptions,
+    PostgreSQLMigrationRunner,
+    PostgreSQLMigrationRunnerOptions,
+    TenantMigrationResult,
+    TenantMigrationStatus
+} from './migrations';
+
+// Provisioning exports
+export {
+    MongoDBCollectionDefinition,
+    MongoDBIndexDefinition,
+    MongoDBProvisioner,
+    MongoDBProvisionOptions,
+    PostgreSQLProvisioner,
+    PostgreSQLProvisionOptions
+} from './provisioning';
+
+// Tenant config provider exports
+export {
+    CachedTenantConfigProvider,
+    CachedTenantConfigProviderOptions,
+    FunctionTenantConfigProvider,
+    InMemoryTenantConfigProvider,
+    TenantConfigLookup,
+    TenantIdLister
+} from './providers';
+
+// Metrics exports
+export {
+    Counter,
+    DEFAULT_DURATION_BUCKETS,
+    Gauge,
+    Histogram,
+    MetricLabels,
+    MetricsRegistry,
+    MultiTenantMetrics,
+    MultiTenantMetricsOptions,
+    PROMETHEUS_CONTENT_TYPE
+} from './metrics';
+
+// Error exports
+export {
+    CircuitOpenError,
+    ConnectionBudgetExceededError,
+    ConnectionError,
+    CrossTenantError,
+    MigrationLockError,
+    MultiTenantError,
+    NoTenantContextError,
+    ProvisioningError,
+    TenantAlreadyExistsError,
+    TenantNotFoundError,
+    TenantRequestError,
+    TimeoutError
+} from './errors';
+
+// Utility exports
+export { CircuitBreaker } from './utils/circuit-breaker';
+export { createAbortController, mapWithConcurrency, onAbort, withTimeout } from './utils/concurrency';
+export {
+    ConsoleLogger,
+    createPinoLoggerAdapter,
+    createWinstonLoggerAdapter,
+    filterLogLevel,
+    isLogLevelEnabled,
+    PinoLikeLogger,
+    silentLogger,
+    WinstonLikeLogger
+} from './utils/logger';
+export {
+    computeRetryDelay,
+    createRetryPolicy,
+    isRetryableConnectionError,
+    RetryPolicy,
+    withRetry
+} from './utils/retry';
+export {
+    DEFAULT_TENANT_SETTING,
+    generateRlsPolicy,
+    isValidTenantSetting,
+    RlsPolicyOptions,
+    RlsPolicyRegistry,
+    RlsTableDefinition
+} from './utils/rls-policies';
+export { SharedConnectionRegistry } from './utils/shared-connection-registry';
+export { quoteIdentifier, quoteLiteral } from './utils/sql';
 
 // Type exports
 export {
+    CircuitBreakerOptions,
+    CircuitBreakerSnapshot,
+    CircuitState,
+    CircuitStateChangedEvent,
+    ConfigUpdatedEvent,
+    ConnectionBudget,
+    ConnectionCloseReason,
+    ConnectionClosedEvent,
+    ConnectionCreatedEvent,
+    ConnectionEvent,
+    ConnectionEvictedEvent,
+    ConnectionFailedEvent,
     ConnectionInfo,
+    ConnectionLease,
     ConnectionOptions, DatabaseCredentials, DatabaseType, MongoDBCredentials, MultiTenantConfig, PostgreSQLCredentials,
-    TenantConfig
+    ConnectionRetryEvent,
+    ConnectionReusedEvent,
+    ForEachTenantOptions,
+    ForEachTenantReport,
+    HealthCheckOptions,
+    HealthFailedEvent,
+    HealthPassedEvent,
+    HealthReport,
+    Logger,
+    LogLevel,
+    LogMetadata,
+    MultiTenantManagerEvents,
+    PostgreSQLTenancy,
+    ReapedConnection,
+    RetryAttempt,
+    TenantConfig,
+    TenantConfigProvider,
+    TenantContextStore,
+    TenantHealth,
+    TenantHealthStatus,
+    TenantTaskContext,
+    TenantTaskResult,
+    TenantTaskStatus
 } from './types';
 
 // Note: For mongoose Connection and typeorm DataSource types, 
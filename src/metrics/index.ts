@@ -0,0 +1,9 @@
+export {
+    Counter,
+    DEFAULT_DURATION_BUCKETS,
+    Gauge,
+    Histogram,
+    MetricLabels,
+    MetricsRegistry
+} from './metrics-registry';
+export { MultiTenantMetrics, MultiTenantMetricsOptions, PROMETHEUS_CONTENT_TYPE } from './multi-tenant-metrics';
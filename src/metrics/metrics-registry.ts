@@ -0,0 +1,227 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Escape HELP text for the Prometheus text format
+ */
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric {
+  public readonly name: string;
+  public readonly help: string;
+  protected abstract readonly type: MetricType;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  /**
+   * Render the metric in Prometheus text exposition format
+   */
+  public render(): string {
+    const lines = [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSamples()
+    ];
+    return lines.join('\n');
+  }
+
+  /**
+   * Forget all recorded samples
+   */
+  public abstract reset(): void;
+
+  protected abstract renderSamples(): string[];
+
+  protected static key(labels: MetricLabels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+  }
+}
+
+export class Counter extends Metric {
+  protected readonly type = 'counter';
+  private values: Map<string, { labels: MetricLabels; value: number }> = new Map();
+
+  public inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = Metric.key(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  public get(labels: MetricLabels = {}): number {
+    return this.values.get(Metric.key(labels))?.value ?? 0;
+  }
+
+  public reset(): void {
+    this.values.clear();
+  }
+
+  protected renderSamples(): string[] {
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  protected readonly type = 'gauge';
+  private values: Map<string, { labels: MetricLabels; value: number }> = new Map();
+  private collector: ((gauge: Gauge) => void) | undefined;
+
+  /**
+   * @param collector Called before every render to refresh the gauge from live state
+   */
+  constructor(name: string, help: string, collector?: (gauge: Gauge) => void) {
+    super(name, help);
+    this.collector = collector;
+  }
+
+  public set(labels: MetricLabels, value: number): void {
+    this.values.set(Metric.key(labels), { labels, value });
+  }
+
+  public get(labels: MetricLabels = {}): number {
+    return this.values.get(Metric.key(labels))?.value ?? 0;
+  }
+
+  public reset(): void {
+    this.values.clear();
+  }
+
+  protected renderSamples(): string[] {
+    if (this.collector) {
+      this.reset();
+      this.collector(this);
+    }
+
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  protected readonly type = 'histogram';
+  private buckets: number[];
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_DURATION_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  public observe(labels: MetricLabels, value: number): void {
+    const key = Metric.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const { bucketCounts } = series;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        bucketCounts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  public getCount(labels: MetricLabels = {}): number {
+    return this.series.get(Metric.key(labels))?.count ?? 0;
+  }
+
+  public reset(): void {
+    this.series.clear();
+  }
+
+  protected renderSamples(): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, bucketCounts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${bucketCounts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+
+  public counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  public gauge(name: string, help: string, collector?: (gauge: Gauge) => void): Gauge {
+    return this.register(new Gauge(name, help, collector));
+  }
+
+  public histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Render all metrics in Prometheus text exposition format (version 0.0.4)
+   */
+  public render(): string {
+    return `${Array.from(this.metrics.values()).map((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  public reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,192 @@
+import type { MultiTenantManager } from '../multi-tenant-manager';
+import { DatabaseType, MultiTenantManagerEvents } from '../types';
+import { Counter, DEFAULT_DURATION_BUCKETS, Histogram, MetricLabels, MetricsRegistry } from './metrics-registry';
+
+export interface MultiTenantMetricsOptions {
+  prefix?: string;                          // Default: 'multitenant_'
+  tenantLabel?: boolean;                    // Add a tenant label to counters. Default: true
+  maxTenantLabelValues?: number;            // Distinct tenant label values before folding into otherTenantLabel. Default: 100
+  otherTenantLabel?: string;                // Default: '__other__'
+  tenantLabelMapper?: (tenantId: string) => string; // e.g. map tenants to a plan or shard
+  histogramTenantLabel?: boolean;           // Also add the tenant label to histograms. Default: false
+  buckets?: number[];                       // Histogram buckets in seconds
+}
+
+type Listener<E extends keyof MultiTenantManagerEvents> = (payload: MultiTenantManagerEvents[E]) => void;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export class MultiTenantMetrics {
+  public readonly contentType = PROMETHEUS_CONTENT_TYPE;
+
+  private manager: MultiTenantManager;
+  private registry: MetricsRegistry = new MetricsRegistry();
+  private options: Required<Omit<MultiTenantMetricsOptions, 'tenantLabelMapper'>>;
+  private tenantLabelMapper: ((tenantId: string) => string) | undefined;
+  private tenantLabelValues: Set<string> = new Set();
+  private detachListeners: Array<() => void> = [];
+
+  private connectionsCreated: Counter;
+  private connectionFailures: Counter;
+  private connectionReuses: Counter;
+  private connectionRetries: Counter;
+  private connectionEvictions: Counter;
+  private connectionsClosed: Counter;
+  private healthCheckFailures: Counter;
+  private connectDuration: Histogram;
+  private healthCheckDuration: Histogram;
+
+  constructor(manager: MultiTenantManager, options: MultiTenantMetricsOptions = {}) {
+    this.manager = manager;
+    this.options = {
+      prefix: options.prefix ?? 'multitenant_',
+      tenantLabel: options.tenantLabel ?? true,
+      maxTenantLabelValues: options.maxTenantLabelValues ?? 100,
+      otherTenantLabel: options.otherTenantLabel ?? '__other__',
+      histogramTenantLabel: options.histogramTenantLabel ?? false,
+      buckets: options.buckets ?? DEFAULT_DURATION_BUCKETS
+    };
+    this.tenantLabelMapper = options.tenantLabelMapper;
+
+    const prefix = this.options.prefix;
+    const buckets = this.options.buckets;
+
+    this.connectionsCreated = this.registry.counter(`${prefix}connections_created_total`, 'Tenant connections opened');
+    this.connectionFailures = this.registry.counter(`${prefix}connection_failures_total`, 'Failed tenant connection attempts');
+    this.connectionReuses = this.registry.counter(`${prefix}connection_reuse_total`, 'Requests served by an existing tenant connection');
+    this.connectionRetries = this.registry.counter(`${prefix}connection_retries_total`, 'Retried tenant connection attempts');
+    this.connectionEvictions = this.registry.counter(`${prefix}connection_evictions_total`, 'Tenant connections evicted by the connection budget');
+    this.connectionsClosed = this.registry.counter(`${prefix}connections_closed_total`, 'Tenant connections closed, by reason');
+    this.healthCheckFailures = this.registry.counter(`${prefix}health_check_failures_total`, 'Failed tenant connection health checks');
+    this.connectDuration = this.registry.histogram(`${prefix}connect_duration_seconds`, 'Time to open a tenant connection', buckets);
+    this.healthCheckDuration = this.registry.histogram(`${prefix}health_check_duration_seconds`, 'Latency of tenant connection health checks', buckets);
+
+    this.registry.gauge(`${prefix}open_pools`, 'Open tenant connection pools', (gauge) => {
+      const { databaseTypes } = this.manager.getConnectionStats();
+      for (const databaseType of Object.values(DatabaseType)) {
+        gauge.set({ database_type: databaseType }, databaseTypes[databaseType]);
+      }
+    });
+    this.registry.gauge(`${prefix}pool_slots`, 'Pool slots (maxConnections) reserved by open tenant pools', (gauge) => {
+      const slots: Record<string, number> = {};
+      for (const databaseType of Object.values(DatabaseType)) {
+        slots[databaseType] = 0;
+      }
+      for (const connectionInfo of this.manager.getAllConnections().values()) {
+        slots[connectionInfo.databaseType] += connectionInfo.poolSize;
+      }
+      for (const [databaseType, value] of Object.entries(slots)) {
+        gauge.set({ database_type: databaseType }, value);
+      }
+    });
+    this.registry.gauge(`${prefix}connections_in_use`, 'Tenant connections with outstanding leases', (gauge) => {
+      gauge.set({}, this.manager.getConnectionStats().connectionsInUse);
+    });
+    this.registry.gauge(`${prefix}open_circuits`, 'Tenants whose circuit breaker is open', (gauge) => {
+      gauge.set({}, this.manager.getConnectionStats().openCircuits);
+    });
+
+    this.attach();
+  }
+
+  /**
+   * Render all metrics in Prometheus text exposition format
+   */
+  public render(): string {
+    return this.registry.render();
+  }
+
+  /**
+   * Forget recorded counters and histograms (gauges are always read live)
+   */
+  public reset(): void {
+    this.registry.reset();
+    this.tenantLabelValues.clear();
+  }
+
+  /**
+   * Stop listening to manager events
+   */
+  public detach(): void {
+    for (const detach of this.detachListeners) {
+      detach();
+    }
+    this.detachListeners = [];
+  }
+
+  private attach(): void {
+    this.listen('connection:created', (event) => {
+      this.connectionsCreated.inc(this.counterLabels(event.tenantId, event.databaseType));
+      this.connectDuration.observe(this.histogramLabels(event.tenantId, event.databaseType), event.duration / 1000);
+    });
+
+    this.listen('connection:failed', (event) => {
+      this.connectionFailures.inc(this.counterLabels(event.tenantId, event.databaseType));
+    });
+
+    this.listen('connection:reused', (event) => {
+      this.connectionReuses.inc(this.counterLabels(event.tenantId, event.databaseType));
+      this.healthCheckDuration.observe(this.histogramLabels(event.tenantId, event.databaseType), event.duration / 1000);
+    });
+
+    this.listen('health:passed', (event) => {
+      this.healthCheckDuration.observe(this.histogramLabels(event.tenantId, event.databaseType), event.duration / 1000);
+    });
+
+    this.listen('health:failed', (event) => {
+      this.healthCheckFailures.inc(this.counterLabels(event.tenantId, event.databaseType));
+      this.healthCheckDuration.observe(this.histogramLabels(event.tenantId, event.databaseType), event.duration / 1000);
+    });
+
+    this.listen('connection:retry', (event) => {
+      this.connectionRetries.inc(this.counterLabels(event.tenantId, event.databaseType));
+    });
+
+    this.listen('connection:evicted', (event) => {
+      this.connectionEvictions.inc(this.counterLabels(event.tenantId, event.databaseType));
+    });
+
+    this.listen('connection:closed', (event) => {
+      this.connectionsClosed.inc({ ...this.counterLabels(event.tenantId, event.databaseType), reason: event.reason });
+    });
+  }
+
+  private listen<E extends keyof MultiTenantManagerEvents>(event: E, listener: Listener<E>): void {
+    this.manager.on(event, listener);
+    this.detachListeners.push(() => this.manager.off(event, listener));
+  }
+
+  private counterLabels(tenantId: string, databaseType: DatabaseType | undefined): MetricLabels {
+    const labels: MetricLabels = { database_type: databaseType ?? 'unknown' };
+    if (this.options.tenantLabel) {
+      labels.tenant = this.tenantLabel(tenantId);
+    }
+    return labels;
+  }
+
+  private histogramLabels(tenantId: string, databaseType: DatabaseType): MetricLabels {
+    const labels: MetricLabels = { database_type: databaseType };
+    if (this.options.tenantLabel && this.options.histogramTenantLabel) {
+      labels.tenant = this.tenantLabel(tenantId);
+    }
+    return labels;
+  }
+
+  /**
+   * Map a tenant to its label value, folding tenants beyond the cardinality limit into one series
+   */
+  private tenantLabel(tenantId: string): string {
+    const value = this.tenantLabelMapper ? this.tenantLabelMapper(tenantId) : tenantId;
+
+    if (this.tenantLabelValues.has(value)) {
+      return value;
+    }
+
+    if (this.tenantLabelValues.size >= this.options.maxTenantLabelValues) {
+      return this.options.otherTenantLabel;
+    }
+
+    this.tenantLabelValues.add(value);
+    return value;
+  }
+}
@@ -0,0 +1,30 @@
+export {
+    createFastifyTenantHook,
+    createKoaTenantMiddleware,
+    createTenantMiddleware,
+    FastifyLikeReply,
+    FastifyLikeRequest,
+    HttpRequestLike,
+    KoaLikeContext,
+    NextFunction,
+    releaseOnResponseEnd,
+    resolveTenantRequest,
+    ResponseEndEmitter,
+    TenantErrorBody,
+    tenantErrorBody,
+    TenantIncomingMessage,
+    TenantMiddlewareOptions,
+    tenantRequestInfo,
+    TenantResolution
+} from './tenant-middleware';
+export {
+    JwtClaimResolverOptions,
+    SubdomainResolverOptions,
+    tenantFromHeader,
+    tenantFromJwtClaim,
+    tenantFromPath,
+    tenantFromQuery,
+    tenantFromSubdomain,
+    TenantRequestInfo,
+    TenantResolver
+} from './tenant-resolvers';
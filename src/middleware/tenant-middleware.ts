@@ -0,0 +1,266 @@
+import { IncomingHttpHeaders, IncomingMessage, ServerResponse, STATUS_CODES } from 'http';
+import { CircuitOpenError, TenantNotFoundError, TenantRequestError } from '../errors';
+import type { MultiTenantManager } from '../multi-tenant-manager';
+import { tenantFromHeader, TenantRequestInfo, TenantResolver } from './tenant-resolvers';
+
+export interface TenantMiddlewareOptions {
+  resolvers?: TenantResolver[];       // Tried in order, first match wins. Default: [tenantFromHeader()]
+  tenantIdPattern?: RegExp | null;    // Reject other tenant IDs with 400. Default: /^[A-Za-z0-9_-]{1,64}$/, null to disable
+  runInTenantContext?: boolean;       // Run downstream handlers in manager.runWithTenant (Express/Koa). Default: true
+}
+
+export interface TenantResolution {
+  tenantId: string;
+  connection: unknown;
+  release: () => void;    // Ends the connection lease; the idle reaper and budget eviction skip the connection until then
+}
+
+/**
+ * A response that emits 'finish' once it is sent, and 'close' when it ends or the client goes away
+ */
+export interface ResponseEndEmitter {
+  once(event: 'finish' | 'close', listener: () => void): unknown;
+}
+
+export interface TenantErrorBody {
+  statusCode: number;
+  error: string;
+  message: string;
+}
+
+/**
+ * Node/Express/Connect request after the tenant middleware ran
+ */
+export interface TenantIncomingMessage extends IncomingMessage {
+  tenantId?: string;
+  tenantConnection?: any;
+  hostname?: string;          // Express, honours 'trust proxy'
+  originalUrl?: string;       // Express, URL before mounting
+  user?: unknown;
+  auth?: unknown;             // express-jwt
+}
+
+export type NextFunction = (error?: unknown) => void;
+
+/**
+ * The request fields read by tenantRequestInfo, shared by Express, Node http and Fastify requests
+ */
+export interface HttpRequestLike {
+  headers: IncomingHttpHeaders;
+  url?: string | undefined;
+  originalUrl?: string | undefined;
+  hostname?: string | undefined;
+  user?: unknown;
+  auth?: unknown;
+}
+
+export interface KoaLikeContext {
+  headers: IncomingHttpHeaders;
+  hostname: string;
+  originalUrl: string;
+  state: Record<string, unknown>;
+  status: number;
+  body: unknown;
+  set(field: string, value: string): void;
+}
+
+export interface FastifyLikeRequest {
+  headers: IncomingHttpHeaders;
+  hostname: string;
+  url: string;
+  user?: unknown;
+  tenantId?: string;
+  tenantConnection?: any;
+}
+
+export interface FastifyLikeReply {
+  raw: ResponseEndEmitter;
+  code(statusCode: number): FastifyLikeReply;
+  header(name: string, value: string): FastifyLikeReply;
+  send(payload?: unknown): FastifyLikeReply;
+}
+
+const DEFAULT_TENANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Resolve the tenant of a request and lease its connection; the caller releases the lease when the request is done.
+ * Fails with a TenantRequestError carrying the HTTP status: 400 missing/invalid, 404 unknown, 503 unavailable.
+ */
+export async function resolveTenantRequest(
+  manager: MultiTenantManager,
+  request: TenantRequestInfo,
+  options: TenantMiddlewareOptions = {}
+): Promise<TenantResolution> {
+  const resolvers = options.resolvers ?? [tenantFromHeader()];
+  const tenantIdPattern = options.tenantIdPattern === undefined ? DEFAULT_TENANT_ID_PATTERN : options.tenantIdPattern;
+
+  let tenantId: string | undefined;
+  try {
+    for (const resolver of resolvers) {
+      tenantId = await resolver(request);
+      if (tenantId !== undefined) break;
+    }
+  } catch (error) {
+    throw new TenantRequestError(400, `Could not resolve tenant: ${error instanceof Error ? error.message : 'Unknown error'}`, undefined, error);
+  }
+
+  if (tenantId === undefined) {
+    throw new TenantRequestError(400, 'Tenant could not be determined from the request');
+  }
+  if (tenantIdPattern && !tenantIdPattern.test(tenantId)) {
+    throw new TenantRequestError(400, 'Invalid tenant ID', tenantId);
+  }
+
+  try {
+    const lease = await manager.acquireConnection(tenantId);
+    return { tenantId, connection: lease.connection as unknown, release: () => lease.release() };
+  } catch (error) {
+    if (error instanceof TenantNotFoundError) {
+      throw new TenantRequestError(404, `Tenant not found: ${tenantId}`, tenantId, error);
+    }
+
+    const retryAfter = error instanceof CircuitOpenError ? Math.ceil(error.retryAfter / 1000) : undefined;
+    throw new TenantRequestError(503, `Database for tenant ${tenantId} is unavailable`, tenantId, error, retryAfter);
+  }
+}
+
+/**
+ * Build the JSON body sent for a failed tenant resolution
+ */
+export function tenantErrorBody(error: TenantRequestError): TenantErrorBody {
+  return {
+    statusCode: error.statusCode,
+    error: STATUS_CODES[error.statusCode] ?? 'Error',
+    message: error.message
+  };
+}
+
+/**
+ * Release a connection lease once the response is sent, or the client went away before that
+ */
+export function releaseOnResponseEnd(response: ResponseEndEmitter, release: () => void): void {
+  response.once('finish', release);
+  response.once('close', release);
+}
+
+/**
+ * Build the resolver input from an Express, Node http or Fastify request
+ */
+export function tenantRequestInfo(req: HttpRequestLike): TenantRequestInfo {
+  const url = new URL(req.originalUrl ?? req.url ?? '/', 'http://localhost');
+
+  return {
+    headers: req.headers,
+    host: stripPort(req.hostname ?? req.headers.host),
+    path: url.pathname,
+    query: url.searchParams,
+    user: req.auth ?? req.user
+  };
+}
+
+/**
+ * Middleware for Express, Connect and plain Node http servers.
+ * Sets req.tenantId and req.tenantConnection, or responds with 400/404/503.
+ */
+export function createTenantMiddleware(manager: MultiTenantManager, options: TenantMiddlewareOptions = {}) {
+  return (req: TenantIncomingMessage, res: ServerResponse, next: NextFunction): void => {
+    resolveTenantRequest(manager, tenantRequestInfo(req), options).then(
+      ({ tenantId, connection, release }) => {
+        req.tenantId = tenantId;
+        req.tenantConnection = connection;
+        releaseOnResponseEnd(res, release);
+
+        if (options.runInTenantContext === false) {
+          next();
+        } else {
+          manager.runWithTenant(tenantId, () => next());
+        }
+      },
+      (error) => {
+        if (!(error instanceof TenantRequestError)) {
+          next(error);
+          return;
+        }
+
+        res.statusCode = error.statusCode;
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        if (error.retryAfter !== undefined) {
+          res.setHeader('Retry-After', String(error.retryAfter));
+        }
+        res.end(JSON.stringify(tenantErrorBody(error)));
+      }
+    );
+  };
+}
+
+/**
+ * Koa middleware. Sets ctx.state.tenantId and ctx.state.tenantConnection, or responds with 400/404/503.
+ */
+export function createKoaTenantMiddleware(manager: MultiTenantManager, options: TenantMiddlewareOptions = {}) {
+  return async (ctx: KoaLikeContext, next: () => Promise<unknown>): Promise<void> => {
+    const url = new URL(ctx.originalUrl, 'http://localhost');
+    let resolution: TenantResolution;
+
+    try {
+      resolution = await resolveTenantRequest(manager, {
+        headers: ctx.headers,
+        host: stripPort(ctx.hostname),
+        path: url.pathname,
+        query: url.searchParams,
+        user: ctx.state.user
+      }, options);
+    } catch (error) {
+      if (!(error instanceof TenantRequestError)) {
+        throw error;
+      }
+
+      ctx.status = error.statusCode;
+      ctx.body = tenantErrorBody(error);
+      if (error.retryAfter !== undefined) {
+        ctx.set('Retry-After', String(error.retryAfter));
+      }
+      return;
+    }
+
+    const { tenantId, connection, release } = resolution;
+    ctx.state.tenantId = tenantId;
+    ctx.state.tenantConnection = connection;
+
+    try {
+      await (options.runInTenantContext === false ? next() : manager.runWithTenant(tenantId, next));
+    } finally {
+      release();
+    }
+  };
+}
+
+/**
+ * Fastify onRequest/preHandler hook. Sets request.tenantId and request.tenantConnection, or responds with 400/404/503.
+ * Fastify hooks cannot wrap the route handler, so runInTenantContext does not apply. The connection lease is
+ * released when reply.raw finishes, which is when an onResponse hook would run.
+ */
+export function createFastifyTenantHook(manager: MultiTenantManager, options: TenantMiddlewareOptions = {}) {
+  return async (request: FastifyLikeRequest, reply: FastifyLikeReply): Promise<FastifyLikeReply | void> => {
+    try {
+      const { tenantId, connection, release } = await resolveTenantRequest(manager, tenantRequestInfo(request), options);
+
+      request.tenantId = tenantId;
+      request.tenantConnection = connection;
+      releaseOnResponseEnd(reply.raw, release);
+    } catch (error) {
+      if (!(error instanceof TenantRequestError)) {
+        throw error;
+      }
+
+      reply.code(error.statusCode);
+      if (error.retryAfter !== undefined) {
+        reply.header('Retry-After', String(error.retryAfter));
+      }
+      return reply.send(tenantErrorBody(error));
+    }
+  };
+}
+
+function stripPort(host: string | undefined): string | undefined {
+  return host?.replace(/:\d+$/, '') || undefined;
+}
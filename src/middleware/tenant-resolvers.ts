@@ -0,0 +1,125 @@
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * Framework-neutral view of an incoming request, built by each middleware adapter
+ */
+export interface TenantRequestInfo {
+  headers: IncomingHttpHeaders;
+  host: string | undefined;   // Host name without port
+  path: string;               // URL path without query string
+  query: URLSearchParams;
+  user?: unknown;             // Decoded JWT claims set by upstream auth middleware (req.user / req.auth / ctx.state.user)
+}
+
+/**
+ * Resolve the tenant of a request, or undefined when this strategy does not apply
+ */
+export type TenantResolver = (request: TenantRequestInfo) => string | undefined | Promise<string | undefined>;
+
+export interface SubdomainResolverOptions {
+  baseDomain?: string;        // e.g. 'example.com'; without it the first label of a 3+ label host is used
+  ignore?: string[];          // Subdomains that are never tenants. Default: ['www']
+}
+
+export interface JwtClaimResolverOptions {
+  claim?: string;             // Claim name, dots for nested claims. Default: 'tenantId'
+  /**
+   * Verify and decode the bearer token of the Authorization header.
+   * Without it only claims already decoded by upstream auth middleware are used.
+   */
+  verify?: (token: string) => unknown;
+}
+
+/**
+ * Resolve the tenant from a request header
+ */
+export function tenantFromHeader(headerName: string = 'x-tenant-id'): TenantResolver {
+  const name = headerName.toLowerCase();
+
+  return (request) => {
+    const value = request.headers[name];
+    return nonEmpty(Array.isArray(value) ? value[0] : value);
+  };
+}
+
+/**
+ * Resolve the tenant from the subdomain of the Host header
+ */
+export function tenantFromSubdomain(options: SubdomainResolverOptions = {}): TenantResolver {
+  const baseDomain = options.baseDomain?.toLowerCase();
+  const ignore = new Set(options.ignore ?? ['www']);
+
+  return (request) => {
+    const host = request.host?.toLowerCase();
+    if (!host) {
+      return undefined;
+    }
+
+    let subdomain: string | undefined;
+    if (baseDomain) {
+      subdomain = host.endsWith(`.${baseDomain}`) ? host.slice(0, -baseDomain.length - 1) : undefined;
+    } else {
+      const labels = host.split('.');
+      subdomain = labels.length >= 3 ? labels[0] : undefined;
+    }
+
+    if (!subdomain || subdomain.includes('.') || ignore.has(subdomain)) {
+      return undefined;
+    }
+    return subdomain;
+  };
+}
+
+/**
+ * Resolve the tenant from the first path segment after `prefix`, e.g. '/tenants/:tenantId/...'
+ */
+export function tenantFromPath(prefix: string = ''): TenantResolver {
+  const normalizedPrefix = prefix.replace(/\/+$/, '');
+
+  return (request) => {
+    if (normalizedPrefix && request.path !== normalizedPrefix && !request.path.startsWith(`${normalizedPrefix}/`)) {
+      return undefined;
+    }
+
+    const segment = request.path.slice(normalizedPrefix.length).split('/').find((part) => part !== '');
+    return nonEmpty(segment === undefined ? undefined : decodeURIComponent(segment));
+  };
+}
+
+/**
+ * Resolve the tenant from a query string parameter
+ */
+export function tenantFromQuery(parameterName: string = 'tenant'): TenantResolver {
+  return (request) => nonEmpty(request.query.get(parameterName) ?? undefined);
+}
+
+/**
+ * Resolve the tenant from a JWT claim
+ */
+export function tenantFromJwtClaim(options: JwtClaimResolverOptions = {}): TenantResolver {
+  const path = (options.claim ?? 'tenantId').split('.');
+
+  return async (request) => {
+    let claims: unknown = request.user;
+
+    if (options.verify) {
+      const authorization = request.headers.authorization;
+      const match = authorization ? /^Bearer\s+(.+)$/i.exec(authorization) : null;
+      if (!match) {
+        return undefined;
+      }
+      claims = await options.verify(match[1]);
+    }
+
+    const value = path.reduce<unknown>(
+      (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+      claims
+    );
+    return typeof value === 'string' || typeof value === 'number' ? nonEmpty(String(value)) : undefined;
+  };
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
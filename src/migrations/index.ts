@@ -0,0 +1,13 @@
+export {
+    MongoDBMigration,
+    MongoDBMigrationRunner,
+    MongoDBMigrationRunnerOptions,
+    MongoDBRollbackOptions
+} from './mongodb-migration-runner';
+export { PostgreSQLMigrationRunner, PostgreSQLMigrationRunnerOptions } from './postgresql-migration-runner';
+export {
+    MigrationReport,
+    MigrationRunOptions,
+    TenantMigrationResult,
+    TenantMigrationStatus
+} from './types';
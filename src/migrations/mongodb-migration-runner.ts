@@ -0,0 +1,204 @@
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+import { Connection } from 'mongoose';
+import { MigrationLockError, MultiTenantError } from '../errors';
+import type { MultiTenantManager } from '../multi-tenant-manager';
+import { DatabaseType, TenantConfig } from '../types';
+import { resolveMigrationTenants, runTenantMigrations } from './run-tenant-migrations';
+import { MigrationReport, MigrationRunOptions, TenantMigrationResult } from './types';
+
+const LOCK_ID = 'migrations';
+
+/**
+ * A MongoDB migration; migrations run in the order they are registered
+ */
+export interface MongoDBMigration {
+  name: string;
+  up(connection: Connection): Promise<void>;
+  down?(connection: Connection): Promise<void>;
+}
+
+export interface MongoDBMigrationRunnerOptions {
+  migrations: MongoDBMigration[];
+  changelogCollection?: string;  // Applied migrations. Default: 'migrations_changelog'
+  lockCollection?: string;       // Default: 'migrations_lock'
+  lockTimeout?: number;          // A lock older than this is considered abandoned. Default: 600000 (10 minutes)
+}
+
+export interface MongoDBRollbackOptions extends MigrationRunOptions {
+  steps?: number;                // Migrations reverted per tenant, newest first. Default: 1
+}
+
+interface ChangelogEntry {
+  name: string;
+  appliedAt: Date;
+  duration: number;
+}
+
+interface MigrationLock {
+  _id: string;
+  owner: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Runs MongoDB migrations against every MongoDB tenant. Each tenant database records its applied
+ * migrations in a changelog collection and holds a lock document while migrations run, so two
+ * runners never migrate the same tenant at once.
+ */
+export class MongoDBMigrationRunner {
+  private manager: MultiTenantManager;
+  private migrations: MongoDBMigration[];
+  private changelogCollection: string;
+  private lockCollection: string;
+  private lockTimeout: number;
+  private owner: string = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+
+  constructor(manager: MultiTenantManager, options: MongoDBMigrationRunnerOptions) {
+    const names = new Set<string>();
+    for (const migration of options.migrations) {
+      if (names.has(migration.name)) {
+        throw new MultiTenantError(`Duplicate migration name: ${migration.name}`);
+      }
+      names.add(migration.name);
+    }
+
+    this.manager = manager;
+    this.migrations = options.migrations;
+    this.changelogCollection = options.changelogCollection ?? 'migrations_changelog';
+    this.lockCollection = options.lockCollection ?? 'migrations_lock';
+    this.lockTimeout = options.lockTimeout ?? 600000;
+  }
+
+  /**
+   * List the pending migrations of each tenant without running them
+   */
+  public dryRun(options: Omit<MigrationRunOptions, 'dryRun'> = {}): Promise<MigrationReport> {
+    return this.run({ ...options, dryRun: true });
+  }
+
+  /**
+   * Run the pending migrations of each tenant and report the outcome per tenant
+   */
+  public async run(options: MigrationRunOptions = {}): Promise<MigrationReport> {
+    const tenants = await resolveMigrationTenants(this.manager, DatabaseType.MONGODB, options.tenantIds);
+    return runTenantMigrations(this.manager, tenants, options, (tenantConfig) => this.migrateTenant(tenantConfig, options.dryRun ?? false));
+  }
+
+  /**
+   * Revert the most recently applied migrations of each tenant with their down scripts
+   */
+  public async rollback(options: MongoDBRollbackOptions = {}): Promise<MigrationReport> {
+    const tenants = await resolveMigrationTenants(this.manager, DatabaseType.MONGODB, options.tenantIds);
+    return runTenantMigrations(this.manager, tenants, options, (tenantConfig) => this.rollbackTenant(tenantConfig, options.steps ?? 1, options.dryRun ?? false));
+  }
+
+  private async migrateTenant(tenantConfig: TenantConfig, dryRun: boolean): Promise<TenantMigrationResult> {
+    const { tenantId } = tenantConfig;
+    const startedAt = Date.now();
+    let pending: string[] = [];
+    const applied: string[] = [];
+
+    try {
+      await this.manager.withConnection(tenantId, async (connection: Connection) => {
+        if (dryRun) {
+          pending = await this.getPendingMigrations(connection);
+          return;
+        }
+
+        await this.withLock(connection, tenantId, async () => {
+          const changelog = connection.collection(this.changelogCollection);
+          await changelog.createIndex({ name: 1 }, { unique: true });
+          pending = await this.getPendingMigrations(connection);
+
+          for (const name of pending) {
+            const migration = this.migrations.find((candidate) => candidate.name === name)!;
+            const migrationStartedAt = Date.now();
+            await migration.up(connection);
+            await changelog.insertOne({ name, appliedAt: new Date(), duration: Date.now() - migrationStartedAt } as ChangelogEntry);
+            applied.push(name);
+          }
+        });
+      });
+
+      const status = dryRun && pending.length > 0 ? 'pending' : 'applied';
+      return { tenantId, status, pending, applied, skipped: false, duration: Date.now() - startedAt };
+    } catch (error) {
+      return { tenantId, status: 'failed', pending, applied, skipped: false, duration: Date.now() - startedAt, error };
+    }
+  }
+
+  private async rollbackTenant(tenantConfig: TenantConfig, steps: number, dryRun: boolean): Promise<TenantMigrationResult> {
+    const { tenantId } = tenantConfig;
+    const startedAt = Date.now();
+    const reverted: string[] = [];
+
+    try {
+      await this.manager.withConnection(tenantId, async (connection: Connection) => {
+        const revert = async () => {
+          const changelog = connection.collection(this.changelogCollection);
+          const entries = await changelog.find({}).sort({ appliedAt: -1, _id: -1 }).limit(steps).toArray() as unknown as ChangelogEntry[];
+
+          for (const { name } of entries) {
+            const migration = this.migrations.find((candidate) => candidate.name === name);
+            if (!migration?.down) {
+              throw new MultiTenantError(`Migration ${name} cannot be reverted: ${migration ? 'it has no down script' : 'it is not registered'}`);
+            }
+            if (!dryRun) {
+              await migration.down(connection);
+              await changelog.deleteOne({ name });
+            }
+            reverted.push(name);
+          }
+        };
+
+        await (dryRun ? revert() : this.withLock(connection, tenantId, revert));
+      });
+
+      return { tenantId, status: 'pending', pending: [], applied: [], reverted, skipped: false, duration: Date.now() - startedAt };
+    } catch (error) {
+      return { tenantId, status: 'failed', pending: [], applied: [], reverted, skipped: false, duration: Date.now() - startedAt, error };
+    }
+  }
+
+  /**
+   * Names of the registered migrations that are not in the tenant's changelog, in registration order
+   */
+  private async getPendingMigrations(connection: Connection): Promise<string[]> {
+    const entries = await connection.collection(this.changelogCollection)
+      .find({}, { projection: { name: 1 } })
+      .toArray() as unknown as Array<Pick<ChangelogEntry, 'name'>>;
+    const applied = new Set(entries.map((entry) => entry.name));
+
+    return this.migrations.filter((migration) => !applied.has(migration.name)).map((migration) => migration.name);
+  }
+
+  /**
+   * Hold the tenant's migration lock while a callback runs. A lock older than lockTimeout is taken over.
+   */
+  private async withLock<T>(connection: Connection, tenantId: string, callback: () => Promise<T>): Promise<T> {
+    const locks = connection.collection<MigrationLock>(this.lockCollection);
+    const now = new Date();
+    const lock = { owner: this.owner, acquiredAt: now, expiresAt: new Date(now.getTime() + this.lockTimeout) };
+
+    try {
+      await locks.insertOne({ _id: LOCK_ID, ...lock });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) throw error;
+
+      // Someone holds the lock; take it over only if it has expired
+      const { modifiedCount } = await locks.updateOne({ _id: LOCK_ID, expiresAt: { $lt: now } }, { $set: lock });
+      if (modifiedCount !== 1) {
+        const holder = await locks.findOne({ _id: LOCK_ID });
+        throw new MigrationLockError(tenantId, holder?.owner);
+      }
+    }
+
+    try {
+      return await callback();
+    } finally {
+      await locks.deleteOne({ _id: LOCK_ID, owner: this.owner });
+    }
+  }
+}
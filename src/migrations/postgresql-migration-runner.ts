@@ -0,0 +1,130 @@
+import { Connection, MigrationExecutor, MigrationInterface } from 'typeorm';
+import { PostgreSQLConnector } from '../connectors/postgresql-connector';
+import type { MultiTenantManager } from '../multi-tenant-manager';
+import { DatabaseType, PostgreSQLCredentials, TenantConfig } from '../types';
+import { quoteIdentifier } from '../utils/sql';
+import { resolveMigrationTenants, runTenantMigrations } from './run-tenant-migrations';
+import { MigrationReport, MigrationRunOptions, TenantMigrationResult } from './types';
+
+export interface PostgreSQLMigrationRunnerOptions {
+  migrations: Array<(new () => MigrationInterface) | string>; // Migration classes or glob paths, as in TypeORM
+  migrationsTableName?: string;            // Default: TypeORM's 'migrations'
+  transaction?: 'all' | 'none' | 'each';   // Default: 'each'
+}
+
+/**
+ * Runs TypeORM migrations against every PostgreSQL tenant, each on a short-lived connection of its own.
+ * Schema-per-tenant tenants are migrated inside their schema, so each schema keeps its own migrations table.
+ * Tenants that share tables (RLS tenants on the same database and schema) are migrated once per run, and
+ * every one of them reports that migration's result.
+ */
+export class PostgreSQLMigrationRunner {
+  private manager: MultiTenantManager;
+  private options: PostgreSQLMigrationRunnerOptions;
+
+  constructor(manager: MultiTenantManager, options: PostgreSQLMigrationRunnerOptions) {
+    this.manager = manager;
+    this.options = options;
+  }
+
+  /**
+   * List the pending migrations of each tenant without running them
+   */
+  public dryRun(options: Omit<MigrationRunOptions, 'dryRun'> = {}): Promise<MigrationReport> {
+    return this.run({ ...options, dryRun: true });
+  }
+
+  /**
+   * Run the pending migrations of each tenant and report the outcome per tenant
+   */
+  public async run(options: MigrationRunOptions = {}): Promise<MigrationReport> {
+    const tenants = await resolveMigrationTenants(this.manager, DatabaseType.POSTGRESQL, options.tenantIds);
+    const targets = new Map<string, Promise<TenantMigrationResult>>();
+
+    return runTenantMigrations(this.manager, tenants, options, async (tenantConfig) => {
+      // TypeORM takes no migration lock, so tenants sharing tables must not migrate them side by side
+      const key = PostgreSQLMigrationRunner.getTargetKey(tenantConfig.credentials as PostgreSQLCredentials);
+      const startedAt = Date.now();
+      let target = targets.get(key);
+      if (!target) {
+        target = this.migrateTenant(tenantConfig, options.dryRun ?? false);
+        targets.set(key, target);
+      }
+
+      const result = await target;
+      return { ...result, tenantId: tenantConfig.tenantId, duration: Date.now() - startedAt };
+    });
+  }
+
+  /**
+   * The tables a tenant's migrations change: its database, and its schema within it
+   */
+  private static getTargetKey(credentials: PostgreSQLCredentials): string {
+    return `${credentials.host}:${credentials.port}/${credentials.database}?schema=${credentials.schema ?? 'public'}`;
+  }
+
+  private async migrateTenant(tenantConfig: TenantConfig, dryRun: boolean): Promise<TenantMigrationResult> {
+    const { tenantId } = tenantConfig;
+    const startedAt = Date.now();
+    const connector = this.createConnector(tenantConfig);
+    let connection: Connection | undefined;
+    let pending: string[] = [];
+
+    try {
+      connection = await connector.connect();
+      pending = await this.getPendingMigrations(connection);
+
+      if (dryRun) {
+        return { tenantId, status: pending.length > 0 ? 'pending' : 'applied', pending, applied: [], skipped: false, duration: Date.now() - startedAt };
+      }
+
+      const applied = pending.length > 0
+        ? (await connection.runMigrations({ transaction: this.options.transaction ?? 'each' })).map((migration) => migration.name)
+        : [];
+      return { tenantId, status: 'applied', pending, applied, skipped: false, duration: Date.now() - startedAt };
+    } catch (error) {
+      const applied = connection && pending.length > 0 ? await this.getAppliedBeforeFailure(connection, pending) : [];
+      return { tenantId, status: 'failed', pending, applied, skipped: false, duration: Date.now() - startedAt, error };
+    } finally {
+      await connector.disconnect().catch(() => undefined);
+    }
+  }
+
+  private async getPendingMigrations(connection: Connection): Promise<string[]> {
+    return (await new MigrationExecutor(connection).getPendingMigrations()).map((migration) => migration.name);
+  }
+
+  /**
+   * Migrations that were committed before a run failed, read back from the migrations table
+   */
+  private async getAppliedBeforeFailure(connection: Connection, pending: string[]): Promise<string[]> {
+    try {
+      const stillPending = new Set(await this.getPendingMigrations(connection));
+      return pending.filter((name) => !stillPending.has(name));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * A single-connection connector for the tenant, with the migrations and the tenant schema as search_path
+   */
+  private createConnector(tenantConfig: TenantConfig): PostgreSQLConnector {
+    const credentials: PostgreSQLCredentials = { ...tenantConfig.credentials };
+    delete credentials.tenancy;
+    delete credentials.tenantSetting;
+    const { schema } = credentials;
+
+    return new PostgreSQLConnector(
+      credentials,
+      { ...this.manager.getConfig().defaultOptions, ...credentials.options, maxConnections: 1, logger: this.manager.getLogger() },
+      {
+        name: `migrations:${tenantConfig.tenantId}`,
+        migrations: this.options.migrations,
+        ...(this.options.migrationsTableName ? { migrationsTableName: this.options.migrationsTableName } : {}),
+        // Unqualified names in migrations resolve to the tenant schema; spaces are escaped for the startup options
+        ...(schema ? { extra: { options: `-c search_path=${quoteIdentifier(schema).replace(/([\\ ])/g, '\\$1')}` } } : {})
+      }
+    );
+  }
+}
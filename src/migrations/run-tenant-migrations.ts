@@ -0,0 +1,86 @@
+import { MultiTenantError } from '../errors';
+import type { MultiTenantManager } from '../multi-tenant-manager';
+import { DatabaseType, TenantConfig } from '../types';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { MigrationReport, MigrationRunOptions, TenantMigrationResult } from './types';
+
+const DATABASE_TYPE_NAMES: Record<DatabaseType, string> = {
+  [DatabaseType.POSTGRESQL]: 'PostgreSQL',
+  [DatabaseType.MONGODB]: 'MongoDB'
+};
+
+/**
+ * Resolve the configurations of the tenants to migrate: the given tenants, or every tenant of the
+ * database type listed by the tenant config provider
+ */
+export async function resolveMigrationTenants(manager: MultiTenantManager, databaseType: DatabaseType, tenantIds?: string[]): Promise<TenantConfig[]> {
+  if (tenantIds) {
+    const configs = await Promise.all(tenantIds.map((tenantId) => manager.resolveTenantConfig(tenantId)));
+    const other = configs.find((config) => config.databaseType !== databaseType);
+    if (other) {
+      throw new MultiTenantError(`Tenant ${other.tenantId} is not a ${DATABASE_TYPE_NAMES[databaseType]} tenant`);
+    }
+    return configs;
+  }
+
+  const provider = manager.getTenantConfigProvider();
+  if (!provider?.listTenantIds) {
+    throw new MultiTenantError('Pass tenantIds, or configure a tenant config provider that can list its tenants');
+  }
+
+  const configs = await Promise.all((await provider.listTenantIds()).map((tenantId) => manager.resolveTenantConfig(tenantId)));
+  return configs.filter((config) => config.databaseType === databaseType);
+}
+
+/**
+ * Migrate tenants with bounded concurrency, stopping after the first failure unless continueOnError is set,
+ * and summarize the results
+ */
+export async function runTenantMigrations(
+  manager: MultiTenantManager,
+  tenants: TenantConfig[],
+  options: MigrationRunOptions,
+  migrateTenant: (tenantConfig: TenantConfig) => Promise<TenantMigrationResult>
+): Promise<MigrationReport> {
+  const startedAt = new Date();
+  const dryRun = options.dryRun ?? false;
+  const continueOnError = options.continueOnError ?? false;
+  const logger = manager.getLogger();
+  let stopped = false;
+
+  logger.info(`${dryRun ? 'Checking' : 'Running'} migrations for ${tenants.length} tenants`, { dryRun, tenants: tenants.length });
+
+  const results = await mapWithConcurrency(tenants, options.concurrency ?? 4, async (tenantConfig): Promise<TenantMigrationResult> => {
+    if (stopped) {
+      return { tenantId: tenantConfig.tenantId, status: 'pending', pending: [], applied: [], skipped: true, duration: 0 };
+    }
+
+    const result = await migrateTenant(tenantConfig);
+    if (result.status === 'failed') {
+      logger.error(`Migrations failed for tenant ${result.tenantId}: ${result.error instanceof Error ? result.error.message : 'Unknown error'}`, { tenantId: result.tenantId });
+      stopped = !continueOnError;
+    } else if (result.applied.length > 0 || (result.reverted?.length ?? 0) > 0) {
+      logger.info(`Migrated tenant ${result.tenantId}`, { tenantId: result.tenantId, applied: result.applied, ...(result.reverted ? { reverted: result.reverted } : {}) });
+    }
+    return result;
+  });
+
+  const report: MigrationReport = {
+    dryRun,
+    startedAt,
+    duration: Date.now() - startedAt.getTime(),
+    total: results.length,
+    applied: results.filter((result) => result.status === 'applied').length,
+    pending: results.filter((result) => result.status === 'pending').length,
+    failed: results.filter((result) => result.status === 'failed').length,
+    skipped: results.filter((result) => result.skipped).length,
+    tenants: results
+  };
+
+  logger.info(`Migrations ${dryRun ? 'checked' : 'finished'}: ${report.applied} applied, ${report.pending} pending, ${report.failed} failed, ${report.skipped} skipped`, {
+    dryRun,
+    duration: report.duration
+  });
+
+  return report;
+}
@@ -0,0 +1,36 @@
+/**
+ * pending - the tenant has migrations that have not run (or was not reached, or a rollback reverted migrations)
+ * applied - every migration has run on the tenant
+ * failed  - a migration (or the connection) failed; migrations completed before the failure stay applied
+ */
+export type TenantMigrationStatus = 'pending' | 'applied' | 'failed';
+
+export interface MigrationRunOptions {
+  tenantIds?: string[];        // Default: every tenant of the runner's database type listed by the tenant config provider
+  concurrency?: number;        // Tenants migrated at once. Default: 4
+  continueOnError?: boolean;   // Keep migrating other tenants after a failure. Default: false
+  dryRun?: boolean;            // Only list pending migrations. Default: false
+}
+
+export interface TenantMigrationResult {
+  tenantId: string;
+  status: TenantMigrationStatus;
+  pending: string[];           // Migrations pending before the run
+  applied: string[];           // Migrations applied by the run
+  reverted?: string[];         // Migrations reverted by a rollback
+  skipped: boolean;            // Not attempted, because an earlier tenant failed
+  duration: number;
+  error?: unknown;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  startedAt: Date;
+  duration: number;
+  total: number;
+  applied: number;
+  pending: number;
+  failed: number;
+  skipped: number;
+  tenants: TenantMigrationResult[];
+}
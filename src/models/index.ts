@@ -0,0 +1 @@
+export { ModelClass, ModelRegistrationOptions, ModelRegistry, MongooseSchemaDefinition } from './model-registry';
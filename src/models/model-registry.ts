@@ -0,0 +1,119 @@
+import type { Connection as MongooseConnection, Schema } from 'mongoose';
+
+export interface ModelRegistrationOptions {
+  group?: string;   // Only tenants with this TenantConfig.group get the models. Default: every tenant
+}
+
+export interface MongooseSchemaDefinition {
+  name: string;
+  schema: Schema;
+  collection?: string;   // Default: mongoose's pluralized model name
+}
+
+/**
+ * A TypeORM entity or subscriber class
+ */
+export type ModelClass = new (...args: never[]) => unknown;
+
+interface ModelGroup {
+  entities: Set<ModelClass | string>;
+  subscribers: Set<ModelClass | string>;
+  schemas: Map<string, MongooseSchemaDefinition>;
+}
+
+/**
+ * TypeORM entities and subscribers, and mongoose schemas, declared once and given to every tenant
+ * connection. Models registered without a group apply to all tenants; a group adds its models to
+ * the global ones for the tenants in that group.
+ */
+export class ModelRegistry {
+  private global: ModelGroup = ModelRegistry.createGroup();
+  private groups: Map<string, ModelGroup> = new Map();
+
+  private static createGroup(): ModelGroup {
+    return { entities: new Set(), subscribers: new Set(), schemas: new Map() };
+  }
+
+  /**
+   * Register TypeORM entity classes or glob paths
+   */
+  public registerEntities(entities: Array<ModelClass | string>, options: ModelRegistrationOptions = {}): this {
+    const group = this.getGroup(options.group);
+    entities.forEach((entity) => group.entities.add(entity));
+    return this;
+  }
+
+  /**
+   * Register TypeORM subscriber classes or glob paths
+   */
+  public registerSubscribers(subscribers: Array<ModelClass | string>, options: ModelRegistrationOptions = {}): this {
+    const group = this.getGroup(options.group);
+    subscribers.forEach((subscriber) => group.subscribers.add(subscriber));
+    return this;
+  }
+
+  /**
+   * Register a mongoose schema under a model name; registering the same name again replaces it
+   */
+  public registerSchema(definition: MongooseSchemaDefinition, options: ModelRegistrationOptions = {}): this {
+    this.getGroup(options.group).schemas.set(definition.name, definition);
+    return this;
+  }
+
+  /**
+   * Entities of a tenant group, including the global ones
+   */
+  public getEntities(group?: string): Array<ModelClass | string> {
+    return this.collect(group, (models) => Array.from(models.entities));
+  }
+
+  /**
+   * Subscribers of a tenant group, including the global ones
+   */
+  public getSubscribers(group?: string): Array<ModelClass | string> {
+    return this.collect(group, (models) => Array.from(models.subscribers));
+  }
+
+  /**
+   * Schemas of a tenant group, including the global ones; a group schema replaces a global one with the same name
+   */
+  public getSchemas(group?: string): MongooseSchemaDefinition[] {
+    const schemas = new Map(this.global.schemas);
+    const groupModels = group !== undefined ? this.groups.get(group) : undefined;
+    groupModels?.schemas.forEach((definition, name) => schemas.set(name, definition));
+    return Array.from(schemas.values());
+  }
+
+  public getSchema(name: string, group?: string): MongooseSchemaDefinition | undefined {
+    const groupModels = group !== undefined ? this.groups.get(group) : undefined;
+    return groupModels?.schemas.get(name) ?? this.global.schemas.get(name);
+  }
+
+  /**
+   * Compile the group's schemas on a tenant connection, skipping models the connection already has
+   */
+  public applySchemas(connection: MongooseConnection, group?: string): void {
+    for (const definition of this.getSchemas(group)) {
+      if (!connection.models[definition.name]) {
+        connection.model(definition.name, definition.schema, definition.collection);
+      }
+    }
+  }
+
+  private getGroup(group?: string): ModelGroup {
+    if (group === undefined) return this.global;
+
+    let models = this.groups.get(group);
+    if (!models) {
+      models = ModelRegistry.createGroup();
+      this.groups.set(group, models);
+    }
+    return models;
+  }
+
+  private collect<T>(group: string | undefined, select: (models: ModelGroup) => T[]): T[] {
+    const groupModels = group !== undefined ? this.groups.get(group) : undefined;
+    const items = select(this.global);
+    return groupModels ? items.concat(select(groupModels).filter((item) => !items.includes(item))) : items;
+  }
+}
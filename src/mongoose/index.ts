@@ -0,0 +1 @@
+export { tenantPlugin, TenantPluginOptions } from './tenant-plugin';
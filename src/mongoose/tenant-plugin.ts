@@ -0,0 +1,189 @@
+import { Aggregate, Document, MongooseQueryMiddleware, PipelineStage, Query, Schema } from 'mongoose';
+import { TenantContext } from '../context';
+import { CrossTenantError, MultiTenantError, NoTenantContextError } from '../errors';
+
+/**
+ * Query operations the plugin scopes to the current tenant
+ */
+const SCOPED_QUERY_OPERATIONS: MongooseQueryMiddleware[] = [
+  'count', 'countDocuments', 'deleteMany', 'deleteOne', 'distinct', 'find', 'findOne',
+  'findOneAndDelete', 'findOneAndRemove', 'findOneAndReplace', 'findOneAndUpdate',
+  'remove', 'replaceOne', 'update', 'updateMany', 'updateOne'
+];
+
+const REPLACE_OPERATIONS = ['findOneAndReplace', 'replaceOne'];
+
+/**
+ * Pipeline stages that must come first; the tenant filter is merged into them instead of preceding them
+ */
+const LEADING_STAGES_WITH_QUERY = ['$geoNear'];
+
+export interface TenantPluginOptions {
+  context: Pick<TenantContext, 'getTenantId'>;  // Usually manager.getTenantContext()
+  field?: string;                               // Path holding the tenant ID. Default: 'tenantId'
+  requireTenant?: boolean;                      // Reject operations outside a tenant scope. Default: true
+  index?: boolean;                              // Index the tenant path. Default: true
+}
+
+/**
+ * Mongoose plugin for collections shared between tenants. Inside a tenant scope it adds the tenant
+ * to query filters, aggregations (as a leading $match) and new documents, and rejects operations that
+ * name another tenant or change a document's tenant.
+ *
+ * Model.bulkWrite() and the native collection (Model.collection) are not scoped.
+ */
+export function tenantPlugin(schema: Schema, options: TenantPluginOptions): void {
+  const field = options.field ?? 'tenantId';
+  const requireTenant = options.requireTenant ?? true;
+
+  if (!schema.path(field)) {
+    schema.add({ [field]: { type: String, required: true, immutable: true, index: options.index ?? true } });
+  }
+
+  const resolveTenantId = (): string | undefined => {
+    const tenantId = options.context.getTenantId();
+    if (tenantId === undefined && requireTenant) {
+      throw new NoTenantContextError();
+    }
+    return tenantId;
+  };
+
+  schema.pre(SCOPED_QUERY_OPERATIONS, function (this: Query<unknown, unknown>) {
+    const tenantId = resolveTenantId();
+    if (tenantId === undefined) return;
+
+    // Query#op is not part of the mongoose typings
+    const { op: operation } = this as unknown as { op: string };
+    const filter = this.getFilter();
+    if (filter[field] !== undefined && !matchesTenant(filter[field], tenantId)) {
+      throw new CrossTenantError(tenantId, `${operation} filtering on ${field}`);
+    }
+    void this.where({ [field]: tenantId });
+
+    const update = this.getUpdate();
+    if (!update) return;
+
+    if (REPLACE_OPERATIONS.includes(operation)) {
+      const replacement = update as Record<string, unknown>;
+      if (replacement[field] !== undefined && replacement[field] !== tenantId) {
+        throw new CrossTenantError(tenantId, `${operation} replacing ${field}`);
+      }
+      this.setUpdate({ ...replacement, [field]: tenantId });
+      return;
+    }
+
+    if (updatesTenant(update, field, tenantId)) {
+      throw new CrossTenantError(tenantId, `${operation} changing ${field}`);
+    }
+  });
+
+  schema.pre('estimatedDocumentCount', function () {
+    if (resolveTenantId() !== undefined) {
+      throw new MultiTenantError('estimatedDocumentCount cannot be scoped to a tenant; use countDocuments');
+    }
+  });
+
+  schema.pre('aggregate', function (this: Aggregate<unknown>) {
+    const tenantId = resolveTenantId();
+    if (tenantId === undefined) return;
+
+    const pipeline = this.pipeline();
+    const stages = pipeline as unknown as Array<Record<string, Record<string, unknown> | undefined>>;
+    for (const stage of stages) {
+      if (stage.$match?.[field] !== undefined && !matchesTenant(stage.$match[field], tenantId)) {
+        throw new CrossTenantError(tenantId, `aggregate matching on ${field}`);
+      }
+    }
+
+    const [first] = stages;
+    const leadingStage = first && LEADING_STAGES_WITH_QUERY.find((name) => first[name] !== undefined);
+    if (leadingStage) {
+      const stage = first[leadingStage] as Record<string, unknown>;
+      const query = (stage.query ?? {}) as Record<string, unknown>;
+      if (query[field] !== undefined && !matchesTenant(query[field], tenantId)) {
+        throw new CrossTenantError(tenantId, `aggregate ${leadingStage} on ${field}`);
+      }
+      stage.query = { ...query, [field]: tenantId };
+      return;
+    }
+
+    pipeline.unshift({ $match: { [field]: tenantId } } as PipelineStage.Match);
+  });
+
+  schema.pre('validate', function (this: Document) {
+    const tenantId = resolveTenantId();
+    if (tenantId === undefined) return;
+
+    const current: unknown = this.get(field);
+    if (this.isNew && current == null) {
+      this.set(field, tenantId);
+    } else if (current !== tenantId) {
+      throw new CrossTenantError(tenantId, `saving a document of tenant ${String(current)}`);
+    }
+  });
+
+  schema.pre('insertMany', function (next: (error?: Error) => void, docs: unknown) {
+    try {
+      const tenantId = resolveTenantId();
+      if (tenantId !== undefined) {
+        for (const doc of (Array.isArray(docs) ? docs : [docs]) as Array<Record<string, unknown>>) {
+          if (doc[field] == null) {
+            doc[field] = tenantId;
+          } else if (doc[field] !== tenantId) {
+            throw new CrossTenantError(tenantId, `inserting a document of tenant ${String(doc[field])}`);
+          }
+        }
+      }
+      next();
+    } catch (error) {
+      next(error as Error);
+    }
+  });
+}
+
+/**
+ * Whether a filter value on the tenant path selects only the given tenant
+ */
+function matchesTenant(condition: unknown, tenantId: string): boolean {
+  if (condition === tenantId) return true;
+  if (condition && typeof condition === 'object' && !Array.isArray(condition)) {
+    const keys = Object.keys(condition);
+    return keys.length === 1 && keys[0] === '$eq' && (condition as Record<string, unknown>).$eq === tenantId;
+  }
+  return false;
+}
+
+/**
+ * Whether an update (operator document or pipeline) would change the tenant path to anything but the tenant
+ */
+function updatesTenant(update: unknown, field: string, tenantId: string): boolean {
+  const stages = Array.isArray(update) ? update : [update];
+
+  for (const stage of stages as Array<Record<string, unknown>>) {
+    for (const [key, value] of Object.entries(stage)) {
+      if (!key.startsWith('$')) {
+        // Plain fields are treated as $set
+        if (key === field && value !== tenantId) return true;
+        continue;
+      }
+
+      if (typeof value === 'string' || Array.isArray(value)) {
+        // Pipeline $unset: 'field' or ['field', ...]
+        const paths: unknown[] = Array.isArray(value) ? value : [value];
+        if (paths.includes(field)) return true;
+        continue;
+      }
+
+      if (!value || typeof value !== 'object') continue;
+
+      if (key === '$rename' && Object.values(value).includes(field)) return true;
+      if (field in value) {
+        const keepsTenant = (key === '$set' || key === '$setOnInsert' || key === '$addFields')
+          && (value as Record<string, unknown>)[field] === tenantId;
+        if (!keepsTenant) return true;
+      }
+    }
+  }
+
+  return false;
+}
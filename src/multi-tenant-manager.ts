@@ -1,22 +1,78 @@
+import { EventEmitter } from 'events';
+import type { Model, Connection as MongooseConnection } from 'mongoose';
+import type { Connection, EntityTarget, ObjectLiteral, Repository } from 'typeorm';
 import { BaseConnector } from './connectors/base-connector';
 import { MongoDBConnector } from './connectors/mongodb-connector';
+import { MongoDBSharedConnector } from './connectors/mongodb-shared-connector';
 import { PostgreSQLConnector } from './connectors/postgresql-connector';
+import { PostgreSQLRlsConnector } from './connectors/postgresql-rls-connector';
+import { PostgreSQLSchemaConnector } from './connectors/postgresql-schema-connector';
+import { TenantContext } from './context';
+import { CircuitOpenError, ConnectionBudgetExceededError, MultiTenantError, TenantNotFoundError } from './errors';
+import { ModelRegistry } from './models';
+import { runMongoDBTransaction, runPostgreSQLTransaction, TenantTransaction, TransactionOptions } from './transactions';
 import {
+    CircuitBreakerSnapshot,
+    ConnectionCloseReason,
     ConnectionInfo,
+    ConnectionLease,
     ConnectionOptions,
     DatabaseType,
+    ForEachTenantOptions,
+    ForEachTenantReport,
+    HealthCheckOptions,
+    HealthReport,
+    LogLevel,
+    LogMetadata,
+    Logger,
     MongoDBCredentials,
     MultiTenantConfig,
+    MultiTenantManagerEvents,
     PostgreSQLCredentials,
-    TenantConfig
+    ReapedConnection,
+    RetryAttempt,
+    TenantConfig,
+    TenantConfigProvider,
+    TenantHealth,
+    TenantTaskContext,
+    TenantTaskResult
 } from './types';
+import { CircuitBreaker } from './utils/circuit-breaker';
+import { createAbortController, mapWithConcurrency, onAbort, withTimeout } from './utils/concurrency';
+import { ConnectionValidator } from './utils/connection-validator';
+import { ConsoleLogger, filterLogLevel, silentLogger } from './utils/logger';
+import { SharedConnectionRegistry } from './utils/shared-connection-registry';
 
-export class MultiTenantManager {
+export interface MultiTenantManager {
+  on<E extends keyof MultiTenantManagerEvents>(event: E, listener: (payload: MultiTenantManagerEvents[E]) => void): this;
+  once<E extends keyof MultiTenantManagerEvents>(event: E, listener: (payload: MultiTenantManagerEvents[E]) => void): this;
+  off<E extends keyof MultiTenantManagerEvents>(event: E, listener: (payload: MultiTenantManagerEvents[E]) => void): this;
+  emit<E extends keyof MultiTenantManagerEvents>(event: E, payload: MultiTenantManagerEvents[E]): boolean;
+}
+
+export class MultiTenantManager extends EventEmitter {
   private connections: Map<string, ConnectionInfo> = new Map();
+  private pendingConnections: Map<string, Promise<unknown>> = new Map();
+  private reservations: Map<string, number> = new Map();
+  private sharedPoolSlots: Map<string, number> = new Map();   // Budget charge of each open shared pool, by pool key
+  private capacityWaiters: Set<() => void> = new Set();
+  private closingConnections: number = 0;
+  private idleReaperTimer: NodeJS.Timeout | null = null;
+  private isReaping: boolean = false;
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private sharedPostgreSQLPools: SharedConnectionRegistry<Connection> = new SharedConnectionRegistry((connection) => connection.close());
+  private sharedMongoDBConnections: SharedConnectionRegistry<MongooseConnection> = new SharedConnectionRegistry((connection) => connection.close());
   private config: MultiTenantConfig;
   private defaultOptions: ConnectionOptions;
+  private tenantConfigProvider: TenantConfigProvider | undefined;
+  private logger: Logger;
+  private tenantContext: TenantContext = new TenantContext();
+  private modelRegistry: ModelRegistry;
+  private repositories: WeakMap<Connection, Map<EntityTarget<ObjectLiteral>, unknown>> = new WeakMap();
 
   constructor(config: MultiTenantConfig = {}) {
+    super();
+
     const defaultConfig = {
       enableConnectionPooling: true,
       enableLogging: true,
@@ -42,100 +98,868 @@ export class MultiTenantManager {
     this.defaultOptions = {
       ...this.config.defaultOptions
     };
+
+    this.tenantConfigProvider = this.config.tenantConfigProvider;
+    this.modelRegistry = this.config.modelRegistry ?? new ModelRegistry();
+    this.logger = this.createLogger();
+    // Validation warnings follow the manager's logger and enableLogging
+    ConnectionValidator.setLogger(this.logger);
+
+    if (this.config.enableIdleReaper) {
+      this.startIdleReaper();
+    }
   }
 
   /**
-   * Get or create a database connection for a tenant
+   * Get or create a database connection for a tenant.
+   * When no tenant configuration is passed, it is resolved through the registered TenantConfigProvider.
    */
-  public async getConnection(tenantId: string, tenantConfig: TenantConfig): Promise<any> {
+  public getConnection(tenantId: string): Promise<any>;
+  public getConnection(tenantId: string, tenantConfig: TenantConfig): Promise<any>;
+  public async getConnection(tenantId: string, tenantConfig?: TenantConfig): Promise<any> {
     try {
       // Check if connection already exists and is active
       const existingConnection = this.connections.get(tenantId);
       if (existingConnection && existingConnection.isActive) {
+        const checkStartedAt = Date.now();
+        const idleTime = checkStartedAt - existingConnection.lastUsed.getTime();
+
         // Update last used timestamp
         existingConnection.lastUsed = new Date();
         
         // Test if connection is still alive
-        if (await this.testConnection(existingConnection.connection, tenantConfig.databaseType)) {
-          this.log('info', `Returning existing connection for tenant: ${tenantId}`);
-          return existingConnection.connection;
+        const isAlive = await existingConnection.connector.ping();
+        const event = {
+          tenantId,
+          databaseType: existingConnection.databaseType,
+          timestamp: new Date(),
+          duration: Date.now() - checkStartedAt
+        };
+
+        if (isAlive) {
+          this.log('info', `Returning existing connection for tenant: ${tenantId}`, { tenantId });
+          this.emitEvent('connection:reused', { ...event, idleTime });
+          return existingConnection.connection as unknown;
         } else {
-          this.log('warn', `Existing connection for tenant ${tenantId} is not responding, removing it`);
-          this.connections.delete(tenantId);
+          this.log('warn', `Existing connection for tenant ${tenantId} is not responding, removing it`, { tenantId });
+          this.emitEvent('health:failed', event);
+          // Another caller may already have disposed or replaced the dead connection. Disposing goes through
+          // the connector, so tenants on a shared pool give back their share instead of leaking it.
+          if (existingConnection.isActive && this.connections.get(tenantId) === existingConnection) {
+            await this.disposeConnection(existingConnection, 'unhealthy');
+          }
         }
       }
 
-      // Create new connection
-      this.log('info', `Creating new connection for tenant: ${tenantId}`);
-      const connector = await this.createConnector(tenantConfig);
-      const connection = await connector.connect();
+      // Join an in-flight connection attempt instead of opening a second pool
+      const pendingConnection = this.pendingConnections.get(tenantId);
+      if (pendingConnection) {
+        this.log('debug', `Waiting for in-flight connection for tenant: ${tenantId}`, { tenantId });
+        return await pendingConnection;
+      }
+
+      // Fail fast while the tenant's database is known to be unhealthy
+      const circuitBreaker = this.getCircuitBreaker(tenantId);
+      if (circuitBreaker && !circuitBreaker.tryAcquire()) {
+        throw new CircuitOpenError(tenantId, circuitBreaker.getRetryAfter());
+      }
+
+      const connectionAttempt = this.createConnection(tenantId, tenantConfig, circuitBreaker)
+        .finally(() => {
+          this.pendingConnections.delete(tenantId);
+        });
+      this.pendingConnections.set(tenantId, connectionAttempt);
+
+      return await connectionAttempt;
+    } catch (error) {
+      this.log('error', `Failed to get connection for tenant ${tenantId}: ${error instanceof Error ? error.message : 'Unknown error'}`, { tenantId });
+      throw error;
+    }
+  }
+
+  /**
+   * Open a new connection for a tenant and register it
+   */
+  private async createConnection(tenantId: string, tenantConfig?: TenantConfig, circuitBreaker?: CircuitBreaker): Promise<unknown> {
+    const startedAt = Date.now();
+    let databaseType = tenantConfig?.databaseType;
+
+    try {
+      const resolvedConfig = tenantConfig ?? await this.resolveTenantConfig(tenantId);
+      databaseType = resolvedConfig.databaseType;
+      const sharedPool = this.getSharedPoolKey(resolvedConfig);
+      // A shared pool is charged once, by the tenant that opens it
+      const poolSize = sharedPool !== undefined && this.sharedPoolSlots.has(sharedPool) ? 0 : this.getPoolSize(resolvedConfig);
+      const idleTimeout = this.getIdleTimeout(resolvedConfig);
+
+      await this.reserveCapacity(tenantId, poolSize);
 
-      // Store connection info
-      const connectionInfo: ConnectionInfo = {
+      try {
+        this.log('info', `Creating new connection for tenant: ${tenantId}`, { tenantId, databaseType: resolvedConfig.databaseType });
+        const connector = this.createConnector(resolvedConfig);
+
+        let connection: unknown;
+        try {
+          connection = await connector.connect();
+        } catch (error) {
+          circuitBreaker?.recordFailure();
+          throw error;
+        }
+        circuitBreaker?.recordSuccess();
+
+        if (resolvedConfig.databaseType === DatabaseType.MONGODB) {
+          this.modelRegistry.applySchemas(connection as MongooseConnection, resolvedConfig.group);
+        }
+
+        if (sharedPool !== undefined && !this.sharedPoolSlots.has(sharedPool)) {
+          this.sharedPoolSlots.set(sharedPool, this.getPoolSize(resolvedConfig));
+        }
+
+        // Store connection info
+        const connectionInfo: ConnectionInfo = {
+          tenantId,
+          databaseType: resolvedConfig.databaseType,
+          connection,
+          createdAt: new Date(),
+          lastUsed: new Date(),
+          isActive: true,
+          poolSize: sharedPool !== undefined ? 0 : poolSize,
+          idleTimeout,
+          inUse: 0,
+          connector,
+          ...(resolvedConfig.group !== undefined ? { group: resolvedConfig.group } : {}),
+          ...(sharedPool !== undefined ? { sharedPool } : {})
+        };
+
+        this.connections.set(tenantId, connectionInfo);
+        this.log('info', `Successfully created connection for tenant: ${tenantId}`, { tenantId, databaseType: resolvedConfig.databaseType });
+        this.emitEvent('connection:created', {
+          tenantId,
+          databaseType: resolvedConfig.databaseType,
+          timestamp: new Date(),
+          duration: Date.now() - startedAt
+        });
+
+        return connection;
+      } finally {
+        this.reservations.delete(tenantId);
+        this.notifyCapacityWaiters();
+      }
+    } catch (error) {
+      this.emitEvent('connection:failed', {
+        tenantId,
+        ...(databaseType ? { databaseType } : {}),
+        timestamp: new Date(),
+        duration: Date.now() - startedAt,
+        error
+      });
+      throw error;
+    } finally {
+      circuitBreaker?.releaseTrial();
+    }
+  }
+
+  /**
+   * Get (or lazily create) the circuit breaker of a tenant, if circuit breaking is enabled
+   */
+  private getCircuitBreaker(tenantId: string): CircuitBreaker | undefined {
+    const options = this.config.circuitBreaker;
+    if (!options) return undefined;
+
+    let circuitBreaker = this.circuitBreakers.get(tenantId);
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker(options, (previousState, state) => {
+        const failures = this.circuitBreakers.get(tenantId)?.getSnapshot().failures ?? 0;
+        const level = state === 'open' ? 'warn' : 'info';
+        this.log(level, `Circuit breaker for tenant ${tenantId} changed from ${previousState} to ${state}`, { tenantId, state, failures });
+        this.emitEvent('circuit:state-changed', { tenantId, timestamp: new Date(), previousState, state, failures });
+      });
+      this.circuitBreakers.set(tenantId, circuitBreaker);
+    }
+
+    return circuitBreaker;
+  }
+
+  /**
+   * Get the circuit breaker state of a tenant
+   */
+  public getCircuitBreakerState(tenantId: string): CircuitBreakerSnapshot | undefined {
+    return this.circuitBreakers.get(tenantId)?.getSnapshot();
+  }
+
+  /**
+   * Close the circuit of a tenant (or of all tenants), allowing connection attempts again
+   */
+  public resetCircuitBreaker(tenantId?: string): void {
+    if (tenantId === undefined) {
+      this.circuitBreakers.clear();
+    } else {
+      this.circuitBreakers.delete(tenantId);
+    }
+  }
+
+  /**
+   * Get a connection for a tenant and mark it as in use until the lease is released.
+   * Leased connections are never evicted or closed by the manager's budget.
+   */
+  public async acquireConnection(tenantId: string, tenantConfig?: TenantConfig): Promise<ConnectionLease> {
+    // The fresh connection can be evicted before we get to lease it, so try a few times
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const connection: unknown = tenantConfig
+        ? await this.getConnection(tenantId, tenantConfig)
+        : await this.getConnection(tenantId);
+
+      const connectionInfo = this.connections.get(tenantId);
+      if (!connectionInfo || !connectionInfo.isActive || connectionInfo.connection !== connection) {
+        continue;
+      }
+
+      connectionInfo.inUse++;
+      let released = false;
+
+      return {
         tenantId,
-        databaseType: tenantConfig.databaseType,
         connection,
-        createdAt: new Date(),
-        lastUsed: new Date(),
-        isActive: true
+        release: () => {
+          if (released) return;
+          released = true;
+          connectionInfo.inUse--;
+          connectionInfo.lastUsed = new Date();
+          this.notifyCapacityWaiters();
+        }
       };
+    }
 
-      this.connections.set(tenantId, connectionInfo);
-      this.log('info', `Successfully created connection for tenant: ${tenantId}`);
+    throw new ConnectionBudgetExceededError(tenantId, 'connection was evicted before it could be leased');
+  }
 
-      return connection;
-    } catch (error) {
-      this.log('error', `Failed to get connection for tenant ${tenantId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
+  /**
+   * Run a callback with a leased tenant connection, releasing it afterwards
+   */
+  public async withConnection<T>(tenantId: string, callback: (connection: any) => Promise<T> | T): Promise<T> {
+    const lease = await this.acquireConnection(tenantId);
+    try {
+      return await callback(lease.connection);
+    } finally {
+      lease.release();
+    }
+  }
+
+  /**
+   * Run a callback in a transaction on a leased tenant connection: a QueryRunner transaction for PostgreSQL,
+   * a ClientSession transaction for MongoDB. Commits when the callback resolves, rolls back when it throws,
+   * and runs the callback again after serialization failures, deadlocks and transient MongoDB errors.
+   */
+  public async withTransaction<T>(
+    tenantId: string,
+    callback: (transaction: TenantTransaction) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    return this.withConnection(tenantId, (connection) => {
+      const onRetry = (attempt: RetryAttempt) => {
+        const reason = attempt.error instanceof Error ? attempt.error.message : 'Unknown error';
+        this.log('warn', `Transaction attempt ${attempt.attempt}/${attempt.maxAttempts} for tenant ${tenantId} failed (${reason}), retrying in ${attempt.delay}ms`, {
+          tenantId,
+          attempt: attempt.attempt,
+          delay: attempt.delay
+        });
+      };
+
+      return this.connections.get(tenantId)?.databaseType === DatabaseType.MONGODB
+        ? runMongoDBTransaction(tenantId, connection as MongooseConnection, callback, options, onRetry)
+        : runPostgreSQLTransaction(tenantId, connection as Parameters<typeof runPostgreSQLTransaction>[1], callback, options, onRetry);
+    });
+  }
+
+  /**
+   * Run a function with the given tenant as the current tenant for everything it calls, sync or async
+   */
+  public runWithTenant<T>(tenantId: string, fn: () => T): T {
+    if (!tenantId) {
+      throw new MultiTenantError('runWithTenant requires a tenant ID');
+    }
+
+    return this.tenantContext.run(tenantId, fn);
+  }
+
+  /**
+   * Get the tenant of the current runWithTenant scope
+   */
+  public currentTenant(): string {
+    return this.tenantContext.requireTenantId();
+  }
+
+  /**
+   * Get the connection of the tenant of the current runWithTenant scope
+   */
+  public async currentConnection(): Promise<any> {
+    return this.getConnection(this.currentTenant());
+  }
+
+  /**
+   * Get the tenant context backing runWithTenant, e.g. to check for a scope without throwing
+   */
+  public getTenantContext(): TenantContext {
+    return this.tenantContext;
+  }
+
+  /**
+   * Get the registry of entities, subscribers and schemas given to tenant connections
+   */
+  public getModelRegistry(): ModelRegistry {
+    return this.modelRegistry;
+  }
+
+  /**
+   * Get the TypeORM repository of a registered entity on a tenant connection, cached per connection
+   */
+  public async getRepository<Entity extends ObjectLiteral>(tenantId: string, target: EntityTarget<Entity>): Promise<Repository<Entity>> {
+    const connection = await this.getConnection(tenantId) as Partial<Connection>;
+    if (this.connections.get(tenantId)?.databaseType !== DatabaseType.POSTGRESQL) {
+      throw new MultiTenantError(`Tenant ${tenantId} is not a PostgreSQL tenant`);
+    }
+    if (typeof connection.getRepository !== 'function') {
+      // A repository on the shared pool would bypass the tenant's search_path or RLS setting
+      throw new MultiTenantError(`Tenant ${tenantId} shares a pool: use connection.withQueryRunner() and queryRunner.manager.getRepository()`);
+    }
+
+    const typeormConnection = connection as Connection;
+    let repositories = this.repositories.get(typeormConnection);
+    if (!repositories) {
+      repositories = new Map();
+      this.repositories.set(typeormConnection, repositories);
+    }
+
+    let repository = repositories.get(target) as Repository<Entity> | undefined;
+    if (!repository) {
+      if (!typeormConnection.hasMetadata(target)) {
+        throw new MultiTenantError(`Entity ${this.getTargetName(target)} is not registered for tenant ${tenantId}`);
+      }
+      repository = typeormConnection.getRepository(target);
+      repositories.set(target, repository);
+    }
+    return repository;
+  }
+
+  /**
+   * Get a mongoose model on a tenant connection, compiling its registered schema on first use
+   */
+  public async getModel<T = unknown>(tenantId: string, name: string): Promise<Model<T>> {
+    const mongooseConnection = await this.getConnection(tenantId) as MongooseConnection;
+    const connectionInfo = this.connections.get(tenantId);
+    if (connectionInfo?.databaseType !== DatabaseType.MONGODB) {
+      throw new MultiTenantError(`Tenant ${tenantId} is not a MongoDB tenant`);
+    }
+
+    if (mongooseConnection.models[name]) {
+      return mongooseConnection.models[name] as Model<T>;
     }
+
+    // Schemas registered after the connection was opened are compiled on demand
+    const definition = this.modelRegistry.getSchema(name, connectionInfo.group);
+    if (!definition) {
+      throw new MultiTenantError(`Model ${name} is not registered for tenant ${tenantId}`);
+    }
+    return mongooseConnection.model<T>(name, definition.schema, definition.collection);
+  }
+
+  private getTargetName(target: EntityTarget<ObjectLiteral>): string {
+    if (typeof target === 'function') return target.name;
+    if (typeof target === 'string') return target;
+    return 'name' in target ? target.name : String(target);
+  }
+
+  /**
+   * Get the number of pool slots a tenant connection will use
+   */
+  private getPoolSize(tenantConfig: TenantConfig): number {
+    return (tenantConfig.credentials.options?.maxConnections as number | undefined) ?? this.defaultOptions.maxConnections ?? 10;
+  }
+
+  /**
+   * Key of the pool a tenant shares with other tenants, the same key its connector registers the pool under,
+   * or undefined if the tenant gets a pool of its own
+   */
+  private getSharedPoolKey(tenantConfig: TenantConfig): string | undefined {
+    if (tenantConfig.databaseType === DatabaseType.MONGODB) {
+      const credentials = tenantConfig.credentials as MongoDBCredentials;
+      return credentials.sharedConnection ? MongoDBSharedConnector.getBaseKey(credentials) : undefined;
+    }
+
+    const credentials = tenantConfig.credentials as PostgreSQLCredentials;
+    switch (credentials.tenancy) {
+      case 'schema':
+        return PostgreSQLSchemaConnector.getPoolKey(credentials, tenantConfig.group);
+      case 'rls':
+        return PostgreSQLRlsConnector.getRlsPoolKey(credentials, tenantConfig.group);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Pool slots of all open connections: dedicated pools, plus each shared pool once
+   */
+  private getUsedPoolSlots(): number {
+    let slots = 0;
+    for (const connectionInfo of this.connections.values()) {
+      slots += connectionInfo.poolSize;
+    }
+    for (const sharedSlots of this.sharedPoolSlots.values()) {
+      slots += sharedSlots;
+    }
+    return slots;
+  }
+
+  /**
+   * Drop the budget charge of a shared pool once its last tenant has left it
+   */
+  private releaseSharedPoolSlots(sharedPool: string): void {
+    const refs = this.sharedPostgreSQLPools.getRefCount(sharedPool) + this.sharedMongoDBConnections.getRefCount(sharedPool);
+    if (refs === 0) {
+      this.sharedPoolSlots.delete(sharedPool);
+    }
+  }
+
+  /**
+   * Get the effective idle timeout of a tenant connection
+   */
+  private getIdleTimeout(tenantConfig: TenantConfig): number {
+    return (tenantConfig.credentials.options?.idleTimeout as number | undefined) ?? this.defaultOptions.idleTimeout ?? 30000;
+  }
+
+  /**
+   * Make room for a new connection within the connection budget, evicting idle tenants (LRU) if needed
+   */
+  private async reserveCapacity(tenantId: string, poolSize: number): Promise<void> {
+    const budget = this.config.connectionBudget;
+    if (!budget) return;
+
+    if (budget.maxPoolSlots !== undefined && poolSize > budget.maxPoolSlots) {
+      throw new ConnectionBudgetExceededError(tenantId, `pool size ${poolSize} exceeds maxPoolSlots ${budget.maxPoolSlots}`);
+    }
+
+    const deadline = Date.now() + (budget.queueTimeout ?? 30000);
+
+    while (!this.hasCapacity(poolSize)) {
+      const candidate = this.findEvictionCandidate();
+      if (candidate) {
+        this.log('info', `Evicting least recently used connection for tenant ${candidate.tenantId} to make room for tenant ${tenantId}`, { tenantId: candidate.tenantId, evictedFor: tenantId });
+        this.emitEvent('connection:evicted', {
+          tenantId: candidate.tenantId,
+          databaseType: candidate.databaseType,
+          timestamp: new Date(),
+          idleTime: Date.now() - candidate.lastUsed.getTime(),
+          evictedFor: tenantId
+        });
+        await this.disposeConnection(candidate, 'evicted');
+        continue;
+      }
+
+      // Connections that are already closing will free capacity shortly, so wait for them even without queueing
+      const remaining = deadline - Date.now();
+      if ((!budget.queueWhenExhausted && this.closingConnections === 0) || remaining <= 0) {
+        throw new ConnectionBudgetExceededError(tenantId, 'all open connections are in use');
+      }
+
+      this.log('debug', `Waiting for connection capacity for tenant: ${tenantId}`, { tenantId });
+      await this.waitForCapacity(remaining);
+    }
+
+    this.reservations.set(tenantId, poolSize);
+  }
+
+  /**
+   * Check whether a pool of the given size fits into the connection budget
+   */
+  private hasCapacity(poolSize: number): boolean {
+    const budget = this.config.connectionBudget;
+    if (!budget) return true;
+
+    const pools = this.connections.size + this.reservations.size;
+    let slots = this.getUsedPoolSlots();
+    for (const reservedSlots of this.reservations.values()) {
+      slots += reservedSlots;
+    }
+
+    if (budget.maxPools !== undefined && pools + 1 > budget.maxPools) {
+      return false;
+    }
+
+    if (budget.maxPoolSlots !== undefined && slots + poolSize > budget.maxPoolSlots) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Find the least recently used connection that is not in use
+   */
+  private findEvictionCandidate(): ConnectionInfo | undefined {
+    let candidate: ConnectionInfo | undefined;
+
+    for (const connectionInfo of this.connections.values()) {
+      if (!connectionInfo.isActive || connectionInfo.inUse > 0) {
+        continue;
+      }
+
+      if (!candidate || connectionInfo.lastUsed < candidate.lastUsed) {
+        candidate = connectionInfo;
+      }
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Wait until capacity may have been freed, or the timeout elapses
+   */
+  private waitForCapacity(timeout: number): Promise<void> {
+    return new Promise((resolve) => {
+      const onCapacity = () => {
+        clearTimeout(timer);
+        this.capacityWaiters.delete(onCapacity);
+        resolve();
+      };
+      const timer = setTimeout(onCapacity, timeout);
+      this.capacityWaiters.add(onCapacity);
+    });
+  }
+
+  /**
+   * Wake up everyone waiting for capacity so they can re-check the budget
+   */
+  private notifyCapacityWaiters(): void {
+    for (const waiter of Array.from(this.capacityWaiters)) {
+      waiter();
+    }
+  }
+
+  /**
+   * Resolve a tenant configuration through the registered TenantConfigProvider
+   */
+  public async resolveTenantConfig(tenantId: string): Promise<TenantConfig> {
+    if (!this.tenantConfigProvider) {
+      throw new MultiTenantError(`No tenant configuration given for tenant ${tenantId} and no TenantConfigProvider is registered`);
+    }
+
+    const tenantConfig = await this.tenantConfigProvider.getTenantConfig(tenantId);
+    if (!tenantConfig) {
+      throw new TenantNotFoundError(tenantId);
+    }
+
+    return tenantConfig;
+  }
+
+  /**
+   * Register the provider used to resolve tenant configurations
+   */
+  public setTenantConfigProvider(provider: TenantConfigProvider | undefined): void {
+    this.tenantConfigProvider = provider;
+    if (provider) {
+      this.config.tenantConfigProvider = provider;
+    } else {
+      delete this.config.tenantConfigProvider;
+    }
+  }
+
+  /**
+   * Get the registered TenantConfigProvider
+   */
+  public getTenantConfigProvider(): TenantConfigProvider | undefined {
+    return this.tenantConfigProvider;
   }
 
   /**
    * Create a database connector based on tenant configuration
    */
-  private async createConnector(tenantConfig: TenantConfig): Promise<BaseConnector> {
-    const options = {
+  private createConnector(tenantConfig: TenantConfig): BaseConnector {
+    const options: ConnectionOptions = {
+      logger: this.logger,
       ...this.defaultOptions,
       ...tenantConfig.credentials.options
     };
 
+    // Log every failed attempt, then hand over to any user supplied hook
+    const configuredOnRetry = options.onRetry;
+    options.onRetry = (attempt) => {
+      const reason = attempt.error instanceof Error ? attempt.error.message : 'Unknown error';
+      this.log('warn', `Connection attempt ${attempt.attempt}/${attempt.maxAttempts} for tenant ${tenantConfig.tenantId} failed (${reason}), retrying in ${attempt.delay}ms`, {
+        tenantId: tenantConfig.tenantId,
+        attempt: attempt.attempt,
+        delay: attempt.delay
+      });
+      this.emitEvent('connection:retry', {
+        ...attempt,
+        tenantId: tenantConfig.tenantId,
+        databaseType: tenantConfig.databaseType,
+        timestamp: new Date()
+      });
+      configuredOnRetry?.(attempt);
+    };
+
     switch (tenantConfig.databaseType) {
       case DatabaseType.MONGODB:
+        if ((tenantConfig.credentials as MongoDBCredentials).sharedConnection) {
+          return new MongoDBSharedConnector(tenantConfig.credentials as MongoDBCredentials, options, this.sharedMongoDBConnections);
+        }
         return new MongoDBConnector(tenantConfig.credentials as MongoDBCredentials, options);
       
-      case DatabaseType.POSTGRESQL:
-        return new PostgreSQLConnector(tenantConfig.credentials as PostgreSQLCredentials, options);
+      case DatabaseType.POSTGRESQL: {
+        const credentials = tenantConfig.credentials as PostgreSQLCredentials;
+        const typeormOptions = {
+          entities: this.modelRegistry.getEntities(tenantConfig.group),
+          subscribers: this.modelRegistry.getSubscribers(tenantConfig.group)
+        };
+
+        switch (credentials.tenancy) {
+          case 'schema':
+            return new PostgreSQLSchemaConnector(credentials, options, this.sharedPostgreSQLPools, typeormOptions, tenantConfig.group);
+          case 'rls':
+            return new PostgreSQLRlsConnector(tenantConfig.tenantId, credentials, options, this.sharedPostgreSQLPools, typeormOptions, tenantConfig.group);
+          default:
+            // TypeORM refuses a second active connection under the same name, so every tenant pool gets its own
+            return new PostgreSQLConnector(credentials, options, { name: `tenant:${tenantConfig.tenantId}`, ...typeormOptions });
+        }
+      }
       
       default:
-        throw new Error(`Unsupported database type: ${tenantConfig.databaseType}`);
+        throw new Error(`Unsupported database type: ${String(tenantConfig.databaseType)}`);
     }
   }
 
   /**
-   * Test if a connection is still alive
+   * Run a task against the connection of every tenant (or of selected tenants) with bounded concurrency,
+   * and report each tenant's result or error
    */
-  private async testConnection(connection: any, databaseType: DatabaseType): Promise<boolean> {
+  public async forEachTenant<T>(
+    task: (connection: any, context: TenantTaskContext) => Promise<T>,
+    options: ForEachTenantOptions = {}
+  ): Promise<ForEachTenantReport<T>> {
+    const startedAt = Date.now();
+    const tenantIds = options.tenantIds ?? await this.listTenantIds();
+    const continueOnError = options.continueOnError ?? false;
+
+    // Aborted by the caller's signal, or after the first failure unless continueOnError is set
+    const job = createAbortController();
+    const removeAbortListener = options.signal ? onAbort(options.signal, () => job.abort()) : () => undefined;
+
     try {
-      switch (databaseType) {
-        case DatabaseType.MONGODB:
-          // For Mongoose connection
-          if (connection && connection.db) {
-            await connection.db.admin().ping();
-            return true;
-          }
-          break;
-        
-        case DatabaseType.POSTGRESQL:
-          // For TypeORM DataSource
-          if (connection && connection.isInitialized) {
-            await connection.query('SELECT 1');
-            return true;
-          }
-          break;
+      const results = await mapWithConcurrency(tenantIds, options.concurrency ?? 4, async (tenantId): Promise<TenantTaskResult<T>> => {
+        if (job.signal.aborted) {
+          return { tenantId, status: 'skipped', duration: 0 };
+        }
+
+        const result = await this.runTenantTask(tenantId, task, job.signal, options);
+        if (result.status === 'rejected' && !continueOnError) {
+          job.abort();
+        }
+        return result;
+      });
+
+      const report: ForEachTenantReport<T> = {
+        startedAt: new Date(startedAt),
+        duration: Date.now() - startedAt,
+        total: results.length,
+        fulfilled: results.filter((result) => result.status === 'fulfilled').length,
+        rejected: results.filter((result) => result.status === 'rejected').length,
+        skipped: results.filter((result) => result.status === 'skipped').length,
+        aborted: options.signal?.aborted ?? false,
+        results
+      };
+
+      this.log('info', `Tenant tasks finished: ${report.fulfilled} fulfilled, ${report.rejected} rejected, ${report.skipped} skipped`, {
+        duration: report.duration,
+        aborted: report.aborted
+      });
+      return report;
+    } finally {
+      removeAbortListener();
+    }
+  }
+
+  /**
+   * Run the task of one tenant on a leased connection, with its own signal and optional timeout
+   */
+  private async runTenantTask<T>(
+    tenantId: string,
+    task: (connection: any, context: TenantTaskContext) => Promise<T>,
+    jobSignal: AbortSignal,
+    options: ForEachTenantOptions
+  ): Promise<TenantTaskResult<T>> {
+    const startedAt = Date.now();
+    const controller = createAbortController();
+    const removeAbortListener = onAbort(jobSignal, () => controller.abort());
+    const opened = !this.connections.has(tenantId);
+
+    const run = this.withConnection(tenantId, (connection) => task(connection, { tenantId, signal: controller.signal }));
+    let settled = false;
+    const done = run.then(() => { settled = true; }, () => { settled = true; });
+
+    try {
+      const value = options.timeoutPerTenant !== undefined
+        ? await withTimeout(run, options.timeoutPerTenant, `Task for tenant ${tenantId}`)
+        : await run;
+      return { tenantId, status: 'fulfilled', value, duration: Date.now() - startedAt };
+    } catch (error) {
+      // A timed out task keeps running until it notices its signal
+      if (!settled) {
+        controller.abort();
       }
-      return false;
+      this.log('warn', `Task for tenant ${tenantId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { tenantId });
+      return { tenantId, status: 'rejected', error, duration: Date.now() - startedAt };
+    } finally {
+      removeAbortListener();
+
+      if (options.closeOpenedConnections && opened) {
+        // Close only once the task has let go of the connection; do not wait for tasks that timed out
+        const closing = done
+          .then(() => this.closeConnection(tenantId))
+          .catch((error) => {
+            this.log('warn', `Failed to close connection for tenant ${tenantId}: ${error instanceof Error ? error.message : 'Unknown error'}`, { tenantId });
+          });
+        if (settled) {
+          await closing;
+        }
+      }
+    }
+  }
+
+  /**
+   * List the tenant IDs of the tenant config provider
+   */
+  private async listTenantIds(): Promise<string[]> {
+    if (!this.tenantConfigProvider?.listTenantIds) {
+      throw new MultiTenantError('Pass tenantIds, or configure a tenant config provider that can list its tenants');
+    }
+    return this.tenantConfigProvider.listTenantIds();
+  }
+
+  /**
+   * Check the health of all open tenant connections (or of selected tenants)
+   */
+  public async checkHealth(options: HealthCheckOptions = {}): Promise<HealthReport> {
+    const startedAt = Date.now();
+    const tenantIds = options.tenantIds ?? Array.from(this.connections.keys());
+    const timeout = options.timeout ?? this.defaultOptions.connectionTimeout ?? 5000;
+
+    const tenants = await mapWithConcurrency(
+      tenantIds,
+      options.concurrency ?? 10,
+      (tenantId) => this.checkTenantHealth(tenantId, timeout, options)
+    );
+
+    const healthy = tenants.filter((tenant) => tenant.status === 'healthy').length;
+    const unhealthy = tenants.filter((tenant) => tenant.status === 'unhealthy').length;
+
+    let status: HealthReport['status'] = 'healthy';
+    if (unhealthy > 0) {
+      status = healthy > 0 ? 'degraded' : 'unhealthy';
+    }
+
+    return {
+      status,
+      checkedAt: new Date(startedAt),
+      duration: Date.now() - startedAt,
+      healthy,
+      unhealthy,
+      notConnected: tenants.length - healthy - unhealthy,
+      tenants
+    };
+  }
+
+  /**
+   * Ping a single tenant connection, never throwing
+   */
+  private async checkTenantHealth(tenantId: string, timeout: number, options: HealthCheckOptions): Promise<TenantHealth> {
+    const startedAt = Date.now();
+    let connectionInfo = this.connections.get(tenantId);
+
+    try {
+      if (!connectionInfo || !connectionInfo.isActive) {
+        if (!options.connect) {
+          return { tenantId, status: 'not_connected', latency: 0, checkedAt: new Date(startedAt) };
+        }
+
+        await withTimeout(this.getConnection(tenantId), timeout, `Connecting to tenant ${tenantId}`);
+        connectionInfo = this.connections.get(tenantId);
+        if (!connectionInfo) {
+          throw new MultiTenantError(`Connection for tenant ${tenantId} was closed during the health check`);
+        }
+      }
+
+      const isAlive = await withTimeout(connectionInfo.connector.ping(), timeout, `Health check for tenant ${tenantId}`);
+      if (!isAlive) {
+        throw new MultiTenantError('Ping failed');
+      }
+
+      if (options.includeServerVersion !== false && connectionInfo.serverVersion === undefined) {
+        await this.loadServerVersion(connectionInfo, timeout);
+      }
+
+      const latency = Date.now() - startedAt;
+      this.emitEvent('health:passed', {
+        tenantId,
+        databaseType: connectionInfo.databaseType,
+        timestamp: new Date(),
+        duration: latency
+      });
+
+      return {
+        tenantId,
+        status: 'healthy',
+        databaseType: connectionInfo.databaseType,
+        latency,
+        ...(connectionInfo.serverVersion !== undefined ? { serverVersion: connectionInfo.serverVersion } : {}),
+        checkedAt: new Date(startedAt)
+      };
     } catch (error) {
-      return false;
+      const latency = Date.now() - startedAt;
+
+      if (connectionInfo) {
+        this.emitEvent('health:failed', {
+          tenantId,
+          databaseType: connectionInfo.databaseType,
+          timestamp: new Date(),
+          duration: latency
+        });
+      }
+
+      return {
+        tenantId,
+        status: 'unhealthy',
+        ...(connectionInfo ? { databaseType: connectionInfo.databaseType } : {}),
+        latency,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        checkedAt: new Date(startedAt)
+      };
+    }
+  }
+
+  /**
+   * Cache the server version of a connection; failures only mean the version stays unknown
+   */
+  private async loadServerVersion(connectionInfo: ConnectionInfo, timeout: number): Promise<void> {
+    try {
+      // MongoDB connectors report serverInfo.version, PostgreSQL connectors the version() string
+      const info = await withTimeout(
+        connectionInfo.connector.getConnectionInfo(),
+        timeout,
+        `Loading server info for tenant ${connectionInfo.tenantId}`
+      ) as { version?: string; serverInfo?: { version?: string } } | undefined;
+
+      const version = connectionInfo.databaseType === DatabaseType.MONGODB
+        ? info?.serverInfo?.version
+        : /PostgreSQL ([\d.]+)/.exec(info?.version ?? '')?.[1] ?? info?.version;
+
+      if (typeof version === 'string') {
+        connectionInfo.serverVersion = version;
+      }
+    } catch (error) {
+      this.log('debug', `Could not load server version for tenant ${connectionInfo.tenantId}: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        tenantId: connectionInfo.tenantId
+      });
     }
   }
 
@@ -180,28 +1004,49 @@ export class MultiTenantManager {
   public async closeConnection(tenantId: string): Promise<void> {
     const connectionInfo = this.connections.get(tenantId);
     if (connectionInfo) {
-      try {
-        if (connectionInfo.connection) {
-          // Try to disconnect based on database type
-          if (connectionInfo.databaseType === DatabaseType.MONGODB) {
-            if (connectionInfo.connection.close) {
-              await connectionInfo.connection.close();
-            }
-          } else if (connectionInfo.databaseType === DatabaseType.POSTGRESQL) {
-            if (connectionInfo.connection.destroy) {
-              await connectionInfo.connection.destroy();
-            }
-          }
-        }
-        
-        this.connections.delete(tenantId);
-        this.log('info', `Closed connection for tenant: ${tenantId}`);
-      } catch (error) {
-        this.log('error', `Error closing connection for tenant ${tenantId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        // Remove from map even if disconnect fails
+      await this.disposeConnection(connectionInfo, 'manual');
+    }
+  }
+
+  /**
+   * Close a connection and remove it from the registry
+   */
+  private async disposeConnection(connectionInfo: ConnectionInfo, reason: ConnectionCloseReason): Promise<void> {
+    const { tenantId } = connectionInfo;
+    const startedAt = Date.now();
+    let closeError: unknown;
+    connectionInfo.isActive = false;
+    this.closingConnections++;
+
+    try {
+      // The connector knows how to close its connection: its own pool, or its share of a shared pool
+      await connectionInfo.connector.disconnect();
+
+      this.log('info', `Closed connection for tenant: ${tenantId}`, { tenantId, reason });
+    } catch (error) {
+      closeError = error;
+      this.log('error', `Error closing connection for tenant ${tenantId}: ${error instanceof Error ? error.message : 'Unknown error'}`, { tenantId, reason });
+    } finally {
+      this.closingConnections--;
+      // Remove from map even if disconnect fails, unless a new connection already took its place
+      if (this.connections.get(tenantId) === connectionInfo) {
         this.connections.delete(tenantId);
       }
+      if (connectionInfo.sharedPool !== undefined) {
+        this.releaseSharedPoolSlots(connectionInfo.sharedPool);
+      }
+      this.notifyCapacityWaiters();
     }
+
+    this.emitEvent('connection:closed', {
+      tenantId,
+      databaseType: connectionInfo.databaseType,
+      timestamp: new Date(),
+      reason,
+      duration: Date.now() - startedAt,
+      lifetime: Date.now() - connectionInfo.createdAt.getTime(),
+      ...(closeError !== undefined ? { error: closeError } : {})
+    });
   }
 
   /**
@@ -221,23 +1066,98 @@ export class MultiTenantManager {
    * Remove inactive connections (cleanup)
    */
   public async cleanupInactiveConnections(maxIdleTime: number = 300000): Promise<void> { // 5 minutes default
-    const now = new Date();
-    const tenantIdsToRemove: string[] = [];
+    const reaped = await this.closeIdleConnections(() => maxIdleTime);
+
+    if (reaped.length > 0) {
+      this.log('info', `Cleaned up ${reaped.length} inactive connections`);
+    }
+  }
+
+  /**
+   * Close connections that have been idle longer than their idle timeout
+   */
+  public async reapIdleConnections(): Promise<ReapedConnection[]> {
+    if (this.isReaping) {
+      return [];
+    }
 
-    for (const [tenantId, connectionInfo] of this.connections.entries()) {
-      const idleTime = now.getTime() - connectionInfo.lastUsed.getTime();
-      if (idleTime > maxIdleTime) {
-        tenantIdsToRemove.push(tenantId);
+    this.isReaping = true;
+    try {
+      const reaped = await this.closeIdleConnections((connectionInfo) => connectionInfo.idleTimeout);
+
+      if (reaped.length > 0) {
+        this.log('info', `Idle reaper closed ${reaped.length} connections: ${reaped.map((connection) => connection.tenantId).join(', ')}`);
       }
+
+      return reaped;
+    } finally {
+      this.isReaping = false;
     }
+  }
 
-    for (const tenantId of tenantIdsToRemove) {
-      await this.closeConnection(tenantId);
+  /**
+   * Start closing idle connections in the background
+   */
+  public startIdleReaper(interval: number = this.config.idleReaperInterval ?? 30000): void {
+    this.stopIdleReaper();
+
+    this.idleReaperTimer = setInterval(() => {
+      void this.reapIdleConnections();
+    }, interval);
+    // Never keep the process alive just for the reaper
+    this.idleReaperTimer.unref();
+
+    this.log('debug', `Idle reaper started with interval ${interval}ms`);
+  }
+
+  /**
+   * Stop the background idle reaper
+   */
+  public stopIdleReaper(): void {
+    if (this.idleReaperTimer) {
+      clearInterval(this.idleReaperTimer);
+      this.idleReaperTimer = null;
+      this.log('debug', 'Idle reaper stopped');
+    }
+  }
+
+  /**
+   * Check if the background idle reaper is running
+   */
+  public isIdleReaperRunning(): boolean {
+    return this.idleReaperTimer !== null;
+  }
+
+  /**
+   * Close idle connections that are not leased, returning what was closed
+   */
+  private async closeIdleConnections(getMaxIdleTime: (connectionInfo: ConnectionInfo) => number): Promise<ReapedConnection[]> {
+    const now = Date.now();
+    const idleConnections: Array<{ connectionInfo: ConnectionInfo; idleTime: number }> = [];
+
+    for (const connectionInfo of this.connections.values()) {
+      const idleTime = now - connectionInfo.lastUsed.getTime();
+      if (connectionInfo.isActive && connectionInfo.inUse === 0 && idleTime > getMaxIdleTime(connectionInfo)) {
+        idleConnections.push({ connectionInfo, idleTime });
+      }
     }
 
-    if (tenantIdsToRemove.length > 0) {
-      this.log('info', `Cleaned up ${tenantIdsToRemove.length} inactive connections`);
+    const reaped: ReapedConnection[] = [];
+    for (const { connectionInfo, idleTime } of idleConnections) {
+      // The connection may have been leased while we were closing others
+      if (connectionInfo.inUse > 0 || !connectionInfo.isActive) {
+        continue;
+      }
+
+      await this.disposeConnection(connectionInfo, 'idle');
+      reaped.push({
+        tenantId: connectionInfo.tenantId,
+        databaseType: connectionInfo.databaseType,
+        idleTime
+      });
     }
+
+    return reaped;
   }
 
   /**
@@ -246,6 +1166,11 @@ export class MultiTenantManager {
   public getConnectionStats(): {
     totalConnections: number;
     activeConnections: number;
+    connectionsInUse: number;
+    totalPoolSlots: number;
+    openCircuits: number;
+    circuitBreakers: Record<string, CircuitBreakerSnapshot>;
+    sharedPools: Record<string, number>;
     databaseTypes: Record<DatabaseType, number>;
     oldestConnection: Date | null;
     newestConnection: Date | null;
@@ -253,6 +1178,11 @@ export class MultiTenantManager {
     const stats = {
       totalConnections: this.connections.size,
       activeConnections: this.getActiveConnectionsCount(),
+      connectionsInUse: 0,
+      totalPoolSlots: 0,
+      openCircuits: 0,
+      circuitBreakers: {} as Record<string, CircuitBreakerSnapshot>,
+      sharedPools: {} as Record<string, number>,
       databaseTypes: {
         [DatabaseType.MONGODB]: 0,
         [DatabaseType.POSTGRESQL]: 0
@@ -263,6 +1193,10 @@ export class MultiTenantManager {
 
     for (const connectionInfo of this.connections.values()) {
       stats.databaseTypes[connectionInfo.databaseType]++;
+
+      if (connectionInfo.inUse > 0) {
+        stats.connectionsInUse++;
+      }
       
       if (!stats.oldestConnection || connectionInfo.createdAt < stats.oldestConnection) {
         stats.oldestConnection = connectionInfo.createdAt;
@@ -273,33 +1207,59 @@ export class MultiTenantManager {
       }
     }
 
+    stats.totalPoolSlots = this.getUsedPoolSlots();
+
+    for (const registry of [this.sharedPostgreSQLPools, this.sharedMongoDBConnections]) {
+      for (const key of registry.keys()) {
+        stats.sharedPools[key] = registry.getRefCount(key);
+      }
+    }
+
+    for (const [tenantId, circuitBreaker] of this.circuitBreakers.entries()) {
+      const snapshot = circuitBreaker.getSnapshot();
+      stats.circuitBreakers[tenantId] = snapshot;
+
+      if (snapshot.state === 'open') {
+        stats.openCircuits++;
+      }
+    }
+
     return stats;
   }
 
   /**
    * Log messages based on configuration
    */
-  private log(level: string, message: string): void {
-    if (!this.config.enableLogging) return;
-
-    const timestamp = new Date().toISOString();
-    const logMessage = `[MultiTenantManager] [${timestamp}] [${level.toUpperCase()}] ${message}`;
-
-    switch (level) {
-      case 'error':
-        console.error(logMessage);
-        break;
-      case 'warn':
-        console.warn(logMessage);
-        break;
-      case 'info':
-        console.log(logMessage);
-        break;
-      case 'debug':
-        if (this.config.logLevel === 'debug') {
-          console.log(logMessage);
-        }
-        break;
+  private log(level: LogLevel, message: string, meta?: LogMetadata): void {
+    this.logger[level](message, meta);
+  }
+
+  /**
+   * Build the logger honouring enableLogging and logLevel
+   */
+  private createLogger(): Logger {
+    if (!this.config.enableLogging) {
+      return silentLogger;
+    }
+
+    return filterLogLevel(this.config.logger ?? new ConsoleLogger('MultiTenantManager'), this.config.logLevel ?? 'info');
+  }
+
+  /**
+   * Get the logger used by the manager and its connectors
+   */
+  public getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Emit a lifecycle event; a throwing listener must never break connection handling
+   */
+  private emitEvent<E extends keyof MultiTenantManagerEvents>(event: E, payload: MultiTenantManagerEvents[E]): void {
+    try {
+      this.emit(event, payload);
+    } catch (error) {
+      this.log('error', `Listener for ${event} threw: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -307,6 +1267,7 @@ export class MultiTenantManager {
    * Update configuration
    */
   public updateConfig(newConfig: Partial<MultiTenantConfig>): void {
+    const previous = this.getConfig();
     this.config = { 
       ...this.config, 
       ...newConfig,
@@ -316,7 +1277,18 @@ export class MultiTenantManager {
       }
     };
     this.defaultOptions = { ...this.config.defaultOptions };
+    this.tenantConfigProvider = this.config.tenantConfigProvider;
+    this.modelRegistry = this.config.modelRegistry ?? this.modelRegistry;
+    this.logger = this.createLogger();
+
+    if (newConfig.enableIdleReaper === false) {
+      this.stopIdleReaper();
+    } else if (newConfig.enableIdleReaper || (newConfig.idleReaperInterval !== undefined && this.isIdleReaperRunning())) {
+      this.startIdleReaper();
+    }
+
     this.log('info', 'Configuration updated');
+    this.emitEvent('config:updated', { timestamp: new Date(), previous, current: this.getConfig() });
   }
 
   /**
@@ -0,0 +1,12 @@
+import type { Type } from '@nestjs/common';
+
+export const MULTI_TENANT_MODULE_OPTIONS = 'MULTI_TENANT_MODULE_OPTIONS';
+
+export const TENANT_CONNECTION = 'MULTI_TENANT_TENANT_CONNECTION';
+
+/**
+ * Injection token of the request-scoped repository of an entity
+ */
+export function getTenantRepositoryToken(entity: Type<unknown> | string): string {
+  return `MULTI_TENANT_REPOSITORY_${typeof entity === 'string' ? entity : entity.name}`;
+}
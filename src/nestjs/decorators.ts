@@ -0,0 +1,12 @@
+import { Inject, Type } from '@nestjs/common';
+import { getTenantRepositoryToken, TENANT_CONNECTION } from './constants';
+
+/**
+ * Inject the connection of the current request's tenant (request-scoped)
+ */
+export const InjectTenantConnection = () => Inject(TENANT_CONNECTION);
+
+/**
+ * Inject the TypeORM repository or mongoose model of an entity registered with MultiTenantModule.forFeature (request-scoped)
+ */
+export const InjectTenantRepository = (entity: Type<unknown> | string) => Inject(getTenantRepositoryToken(entity));
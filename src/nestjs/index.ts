@@ -0,0 +1,6 @@
+export { getTenantRepositoryToken, MULTI_TENANT_MODULE_OPTIONS, TENANT_CONNECTION } from './constants';
+export { InjectTenantConnection, InjectTenantRepository } from './decorators';
+export { MultiTenantFeatureModule, MultiTenantModule } from './multi-tenant.module';
+export { MultiTenantModuleAsyncOptions, MultiTenantModuleOptions } from './multi-tenant-module-options';
+export { TenantInterceptor } from './tenant.interceptor';
+export { NestTenantRequest, resolveNestTenantRequest } from './tenant-request';
@@ -0,0 +1,15 @@
+import type { FactoryProvider, ModuleMetadata } from '@nestjs/common';
+import { TenantMiddlewareOptions } from '../middleware';
+import { MultiTenantConfig } from '../types';
+
+export interface MultiTenantModuleOptions extends MultiTenantConfig {
+  resolvers?: TenantMiddlewareOptions['resolvers'];                 // Default: [tenantFromHeader()]
+  tenantIdPattern?: TenantMiddlewareOptions['tenantIdPattern'];
+  globalInterceptor?: boolean;                                      // Register TenantInterceptor for every route. Default: false
+}
+
+export interface MultiTenantModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
+  inject?: FactoryProvider['inject'];
+  useFactory: FactoryProvider<MultiTenantModuleOptions>['useFactory'];
+  globalInterceptor?: boolean;   // Needed up front because providers are declared before the factory runs
+}
@@ -0,0 +1,95 @@
+import { DynamicModule, Global, Module, OnModuleDestroy, Provider, Scope, Type } from '@nestjs/common';
+import { APP_INTERCEPTOR, REQUEST } from '@nestjs/core';
+import { MultiTenantManager } from '../multi-tenant-manager';
+import { DatabaseType } from '../types';
+import { getTenantRepositoryToken, MULTI_TENANT_MODULE_OPTIONS, TENANT_CONNECTION } from './constants';
+import { MultiTenantModuleAsyncOptions, MultiTenantModuleOptions } from './multi-tenant-module-options';
+import { TenantInterceptor } from './tenant.interceptor';
+import { NestTenantRequest, resolveNestTenantRequest } from './tenant-request';
+
+@Module({})
+export class MultiTenantFeatureModule {}
+
+@Global()
+@Module({})
+export class MultiTenantModule implements OnModuleDestroy {
+  constructor(private readonly manager: MultiTenantManager) {}
+
+  /**
+   * Provide a MultiTenantManager configured with the given options to the whole application
+   */
+  public static forRoot(options: MultiTenantModuleOptions = {}): DynamicModule {
+    return MultiTenantModule.createModule([
+      { provide: MULTI_TENANT_MODULE_OPTIONS, useValue: options }
+    ], [], options.globalInterceptor);
+  }
+
+  /**
+   * Like forRoot, with options built by a factory that can inject other providers (e.g. ConfigService)
+   */
+  public static forRootAsync(options: MultiTenantModuleAsyncOptions): DynamicModule {
+    return MultiTenantModule.createModule([
+      { provide: MULTI_TENANT_MODULE_OPTIONS, useFactory: options.useFactory, inject: options.inject ?? [] }
+    ], options.imports ?? [], options.globalInterceptor);
+  }
+
+  /**
+   * Register request-scoped tenant repositories (TypeORM) or models (Mongoose) for @InjectTenantRepository(Entity).
+   * They come from manager.getRepository() and manager.getModel(), so the entities and schemas must be in the model registry.
+   */
+  public static forFeature(entities: Array<Type<unknown> | string>): DynamicModule {
+    const providers: Provider[] = entities.map((entity) => ({
+      provide: getTenantRepositoryToken(entity),
+      scope: Scope.REQUEST,
+      inject: [MultiTenantManager, MULTI_TENANT_MODULE_OPTIONS, REQUEST],
+      useFactory: async (manager: MultiTenantManager, options: MultiTenantModuleOptions, request: NestTenantRequest) => {
+        const { tenantId } = await resolveNestTenantRequest(manager, options, request);
+        const databaseType = manager.getConnectionInfo(tenantId)?.databaseType ?? (await manager.resolveTenantConfig(tenantId)).databaseType;
+
+        return databaseType === DatabaseType.POSTGRESQL
+          ? manager.getRepository(tenantId, entity)
+          : manager.getModel(tenantId, typeof entity === 'string' ? entity : entity.name);
+      }
+    }));
+
+    return { module: MultiTenantFeatureModule, providers, exports: providers };
+  }
+
+  private static createModule(optionsProviders: Provider[], imports: DynamicModule['imports'], globalInterceptor?: boolean): DynamicModule {
+    const providers: Provider[] = [
+      ...optionsProviders,
+      {
+        provide: MultiTenantManager,
+        inject: [MULTI_TENANT_MODULE_OPTIONS],
+        useFactory: (options: MultiTenantModuleOptions) => {
+          // The request resolution options are for the module, not the manager
+          const config: MultiTenantModuleOptions = { ...options };
+          delete config.resolvers;
+          delete config.tenantIdPattern;
+          delete config.globalInterceptor;
+          return new MultiTenantManager(config);
+        }
+      },
+      {
+        provide: TENANT_CONNECTION,
+        scope: Scope.REQUEST,
+        inject: [MultiTenantManager, MULTI_TENANT_MODULE_OPTIONS, REQUEST],
+        useFactory: async (manager: MultiTenantManager, options: MultiTenantModuleOptions, request: NestTenantRequest) =>
+          (await resolveNestTenantRequest(manager, options, request)).connection
+      },
+      TenantInterceptor
+    ];
+
+    return {
+      module: MultiTenantModule,
+      imports: imports ?? [],
+      providers: globalInterceptor ? [...providers, { provide: APP_INTERCEPTOR, useExisting: TenantInterceptor }] : providers,
+      exports: [MultiTenantManager, MULTI_TENANT_MODULE_OPTIONS, TENANT_CONNECTION, TenantInterceptor]
+    };
+  }
+
+  public async onModuleDestroy(): Promise<void> {
+    this.manager.stopIdleReaper();
+    await this.manager.closeAllConnections();
+  }
+}
@@ -0,0 +1,59 @@
+import { HttpException } from '@nestjs/common';
+import { TenantRequestError } from '../errors';
+import {
+  HttpRequestLike,
+  releaseOnResponseEnd,
+  resolveTenantRequest,
+  ResponseEndEmitter,
+  tenantErrorBody,
+  TenantResolution,
+  tenantRequestInfo
+} from '../middleware';
+import type { MultiTenantManager } from '../multi-tenant-manager';
+import { MultiTenantModuleOptions } from './multi-tenant-module-options';
+
+export interface NestTenantRequest extends HttpRequestLike {
+  tenantId?: string;
+  tenantConnection?: any;
+  res?: ResponseEndEmitter;    // Set by Express
+}
+
+const noop = (): void => undefined;
+
+/**
+ * Resolve the tenant of a request once, caching the result on the request.
+ * The connection lease is released when the response ends (default: the Express request.res); without a response
+ * to watch it is released right away. Resolution failures become HttpExceptions with the middleware's 400/404/503 status.
+ */
+export async function resolveNestTenantRequest(
+  manager: MultiTenantManager,
+  options: MultiTenantModuleOptions,
+  request: NestTenantRequest,
+  response: ResponseEndEmitter | undefined = request.res
+): Promise<TenantResolution> {
+  if (request.tenantId !== undefined && request.tenantConnection !== undefined) {
+    return { tenantId: request.tenantId, connection: request.tenantConnection, release: noop };
+  }
+
+  try {
+    const resolution = await resolveTenantRequest(manager, tenantRequestInfo(request), {
+      ...(options.resolvers ? { resolvers: options.resolvers } : {}),
+      ...(options.tenantIdPattern !== undefined ? { tenantIdPattern: options.tenantIdPattern } : {})
+    });
+
+    request.tenantId = resolution.tenantId;
+    request.tenantConnection = resolution.connection;
+
+    if (response) {
+      releaseOnResponseEnd(response, resolution.release);
+    } else {
+      resolution.release();
+    }
+    return { ...resolution, release: noop };
+  } catch (error) {
+    if (error instanceof TenantRequestError) {
+      throw new HttpException(tenantErrorBody(error), error.statusCode, { cause: error });
+    }
+    throw error;
+  }
+}
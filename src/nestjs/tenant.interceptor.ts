@@ -0,0 +1,62 @@
+import { CallHandler, ExecutionContext, HttpException, Inject, Injectable, NestInterceptor } from '@nestjs/common';
+import { from, Observable } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
+import { TenantRequestError } from '../errors';
+import { ResponseEndEmitter } from '../middleware';
+import { MultiTenantManager } from '../multi-tenant-manager';
+import { MULTI_TENANT_MODULE_OPTIONS } from './constants';
+import { MultiTenantModuleOptions } from './multi-tenant-module-options';
+import { NestTenantRequest, resolveNestTenantRequest } from './tenant-request';
+
+/**
+ * Express responses expose setHeader and emit the end events, Fastify replies expose header and the raw response
+ */
+interface HttpResponseLike extends Partial<ResponseEndEmitter> {
+  raw?: ResponseEndEmitter;
+  setHeader?(name: string, value: string): void;
+  header?(name: string, value: string): unknown;
+}
+
+/**
+ * Resolves the tenant of each HTTP request and runs the handler inside manager.runWithTenant,
+ * so services can use manager.currentConnection() without being request-scoped.
+ */
+@Injectable()
+export class TenantInterceptor implements NestInterceptor {
+  constructor(
+    private readonly manager: MultiTenantManager,
+    @Inject(MULTI_TENANT_MODULE_OPTIONS) private readonly options: MultiTenantModuleOptions
+  ) {}
+
+  public intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<NestTenantRequest>();
+
+    return from(this.resolve(request, http.getResponse<HttpResponseLike>())).pipe(
+      switchMap(({ tenantId }) => new Observable<unknown>((subscriber) =>
+        this.manager.runWithTenant(tenantId, () => next.handle().subscribe(subscriber))
+      ))
+    );
+  }
+
+  private async resolve(request: NestTenantRequest, response: HttpResponseLike) {
+    try {
+      const events = response.raw ?? (response.once ? (response as ResponseEndEmitter) : undefined);
+      return await resolveNestTenantRequest(this.manager, this.options, request, events);
+    } catch (error) {
+      const cause = error instanceof HttpException ? error.cause : undefined;
+      if (cause instanceof TenantRequestError && cause.retryAfter !== undefined) {
+        if (response.setHeader) {
+          response.setHeader('Retry-After', String(cause.retryAfter));
+        } else {
+          response.header?.('Retry-After', String(cause.retryAfter));
+        }
+      }
+      throw error;
+    }
+  }
+}
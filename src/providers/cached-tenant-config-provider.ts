@@ -0,0 +1,87 @@
+import { TenantConfig, TenantConfigProvider } from '../types';
+
+export interface CachedTenantConfigProviderOptions {
+  ttl?: number;          // How long a resolved config is cached (ms)
+  negativeTtl?: number;  // How long an unknown tenant is cached (ms), 0 disables
+}
+
+interface CacheEntry {
+  tenantConfig: TenantConfig | undefined;
+  expiresAt: number;
+}
+
+export class CachedTenantConfigProvider implements TenantConfigProvider {
+  private provider: TenantConfigProvider;
+  private ttl: number;
+  private negativeTtl: number;
+  private cache: Map<string, CacheEntry> = new Map();
+  private pendingLookups: Map<string, Promise<TenantConfig | undefined>> = new Map();
+  // Bumped by invalidate(); a lookup started before an invalidation must not write its result to the cache
+  private generation: number = 0;
+  private tenantGenerations: Map<string, number> = new Map();
+
+  constructor(provider: TenantConfigProvider, options: CachedTenantConfigProviderOptions = {}) {
+    this.provider = provider;
+    this.ttl = options.ttl ?? 60000;
+    this.negativeTtl = options.negativeTtl ?? 0;
+  }
+
+  public async getTenantConfig(tenantId: string): Promise<TenantConfig | undefined> {
+    const cached = this.cache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.tenantConfig;
+    }
+    this.cache.delete(tenantId);
+
+    // Share a single upstream lookup between concurrent callers
+    const pending = this.pendingLookups.get(tenantId);
+    if (pending) {
+      return pending;
+    }
+
+    const generation = this.generation;
+    const tenantGeneration = this.tenantGenerations.get(tenantId) ?? 0;
+    const lookup: Promise<TenantConfig | undefined> = this.provider.getTenantConfig(tenantId)
+      .then((tenantConfig) => {
+        const ttl = tenantConfig ? this.ttl : this.negativeTtl;
+        const invalidated = generation !== this.generation || tenantGeneration !== (this.tenantGenerations.get(tenantId) ?? 0);
+        if (ttl > 0 && !invalidated) {
+          this.cache.set(tenantId, { tenantConfig, expiresAt: Date.now() + ttl });
+        }
+        return tenantConfig;
+      })
+      .finally(() => {
+        if (this.pendingLookups.get(tenantId) === lookup) {
+          this.pendingLookups.delete(tenantId);
+        }
+      });
+
+    this.pendingLookups.set(tenantId, lookup);
+    return lookup;
+  }
+
+  public async listTenantIds(): Promise<string[]> {
+    if (!this.provider.listTenantIds) {
+      throw new Error('Tenant listing is not supported by the underlying provider');
+    }
+
+    return this.provider.listTenantIds();
+  }
+
+  /**
+   * Drop cached configuration for one tenant, or for all tenants. Lookups already in flight still
+   * answer their callers but are not cached, and later callers start a fresh lookup.
+   */
+  public invalidate(tenantId?: string): void {
+    if (tenantId === undefined) {
+      this.generation++;
+      this.tenantGenerations.clear();
+      this.cache.clear();
+      this.pendingLookups.clear();
+    } else {
+      this.tenantGenerations.set(tenantId, (this.tenantGenerations.get(tenantId) ?? 0) + 1);
+      this.cache.delete(tenantId);
+      this.pendingLookups.delete(tenantId);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { TenantConfig, TenantConfigProvider } from '../types';
+
+export type TenantConfigLookup = (tenantId: string) => Promise<TenantConfig | null | undefined>;
+
+export type TenantIdLister = () => Promise<string[]>;
+
+export class FunctionTenantConfigProvider implements TenantConfigProvider {
+  private lookup: TenantConfigLookup;
+
+  /**
+   * Only defined when a lister function was supplied
+   */
+  public listTenantIds?: TenantIdLister;
+
+  constructor(lookup: TenantConfigLookup, lister?: TenantIdLister) {
+    this.lookup = lookup;
+
+    if (lister) {
+      this.listTenantIds = lister;
+    }
+  }
+
+  public async getTenantConfig(tenantId: string): Promise<TenantConfig | undefined> {
+    const tenantConfig = await this.lookup(tenantId);
+    return tenantConfig ?? undefined;
+  }
+}
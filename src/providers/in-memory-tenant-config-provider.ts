@@ -0,0 +1,40 @@
+import { TenantConfig, TenantConfigProvider } from '../types';
+
+export class InMemoryTenantConfigProvider implements TenantConfigProvider {
+  private tenants: Map<string, TenantConfig> = new Map();
+
+  constructor(tenantConfigs: TenantConfig[] = []) {
+    for (const tenantConfig of tenantConfigs) {
+      this.addTenant(tenantConfig);
+    }
+  }
+
+  /**
+   * Register or replace a tenant configuration
+   */
+  public addTenant(tenantConfig: TenantConfig): void {
+    this.tenants.set(tenantConfig.tenantId, tenantConfig);
+  }
+
+  /**
+   * Remove a tenant configuration
+   */
+  public removeTenant(tenantId: string): boolean {
+    return this.tenants.delete(tenantId);
+  }
+
+  /**
+   * Check if a tenant is registered
+   */
+  public hasTenant(tenantId: string): boolean {
+    return this.tenants.has(tenantId);
+  }
+
+  public getTenantConfig(tenantId: string): Promise<TenantConfig | undefined> {
+    return Promise.resolve(this.tenants.get(tenantId));
+  }
+
+  public listTenantIds(): Promise<string[]> {
+    return Promise.resolve(Array.from(this.tenants.keys()));
+  }
+}
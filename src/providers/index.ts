@@ -0,0 +1,3 @@
+export { CachedTenantConfigProvider, CachedTenantConfigProviderOptions } from './cached-tenant-config-provider';
+export { FunctionTenantConfigProvider, TenantConfigLookup, TenantIdLister } from './function-tenant-config-provider';
+export { InMemoryTenantConfigProvider } from './in-memory-tenant-config-provider';
@@ -0,0 +1,7 @@
+export {
+    MongoDBCollectionDefinition,
+    MongoDBIndexDefinition,
+    MongoDBProvisioner,
+    MongoDBProvisionOptions
+} from './mongodb-provisioner';
+export { PostgreSQLProvisioner, PostgreSQLProvisionOptions } from './postgresql-provisioner';
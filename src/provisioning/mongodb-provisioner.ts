@@ -0,0 +1,226 @@
+import { randomBytes } from 'crypto';
+import { Connection } from 'mongoose';
+import { MongoDBConnector } from '../connectors/mongodb-connector';
+import { ProvisioningError } from '../errors';
+import { DatabaseType, Logger, MongoDBCredentials, TenantConfig } from '../types';
+import { ConsoleLogger } from '../utils/logger';
+import { getDefaultTenantName } from './naming';
+
+type MongoDatabase = ReturnType<ReturnType<Connection['getClient']>['db']>;
+
+export interface MongoDBIndexDefinition {
+  key: Record<string, 1 | -1 | 'text' | '2d' | '2dsphere' | 'hashed'>;
+  name?: string;
+  unique?: boolean;
+  sparse?: boolean;
+  expireAfterSeconds?: number;
+  partialFilterExpression?: Record<string, unknown>;
+}
+
+/**
+ * A collection every tenant database gets, with its validator and indexes
+ */
+export interface MongoDBCollectionDefinition {
+  name: string;
+  validator?: Record<string, unknown>;               // e.g. { $jsonSchema: { ... } }
+  validationLevel?: 'off' | 'strict' | 'moderate';
+  validationAction?: 'error' | 'warn';
+  indexes?: MongoDBIndexDefinition[];
+}
+
+export interface MongoDBProvisionOptions {
+  database?: string;              // Default: tenant_<tenantId>
+  username?: string;              // Default: tenant_<tenantId>
+  password?: string;              // Default: generated
+  authSource?: string;            // Database the user is created in. Default: the tenant database
+  updateExistingUser?: boolean;   // Reset the password and roles of an existing user. Default: false, an existing user fails the run
+  host?: string;                  // Host tenants connect to, when it differs from the admin host
+  port?: number;
+  options?: Record<string, unknown>; // Copied to the credentials of the returned TenantConfig
+}
+
+/**
+ * What a provisioning run changed, undone again if a later step fails
+ */
+interface ProvisioningChanges {
+  database: boolean;
+  user: boolean;
+  collections: string[];
+  indexes: Array<{ collection: string; name: string }>;
+  validators: Array<{ collection: string; previous: Record<string, unknown> }>;
+}
+
+/**
+ * Creates MongoDB tenants through an admin connection: the tenant database with the registered
+ * collections, validators and indexes, and a user with readWrite on the tenant database.
+ */
+export class MongoDBProvisioner {
+  private adminCredentials: MongoDBCredentials;
+  private logger: Logger;
+  private collections: Map<string, MongoDBCollectionDefinition> = new Map();
+
+  constructor(adminCredentials: MongoDBCredentials, logger: Logger = new ConsoleLogger('MongoDBProvisioner')) {
+    this.adminCredentials = adminCredentials;
+    this.logger = logger;
+  }
+
+  /**
+   * Register a collection created in every provisioned tenant database; registering a name again replaces it
+   */
+  public registerCollection(definition: MongoDBCollectionDefinition): this {
+    this.collections.set(definition.name, definition);
+    return this;
+  }
+
+  public getCollections(): MongoDBCollectionDefinition[] {
+    return Array.from(this.collections.values());
+  }
+
+  /**
+   * Provision a tenant and return its TenantConfig.
+   * Provisioning is idempotent: existing collections get the registered validators and indexes. An existing user
+   * fails the run unless `updateExistingUser` is set. When a step fails, everything this run changed is undone.
+   */
+  public async provisionTenant(tenantId: string, options: MongoDBProvisionOptions = {}): Promise<TenantConfig> {
+    const database = options.database ?? getDefaultTenantName(tenantId);
+    const username = options.username ?? getDefaultTenantName(tenantId);
+    const authSource = options.authSource ?? database;
+    const password = options.password ?? randomBytes(24).toString('hex');
+
+    const connector = new MongoDBConnector(this.adminCredentials, { logger: this.logger });
+    let admin: Connection;
+    try {
+      admin = await connector.connect();
+    } catch (error) {
+      throw new ProvisioningError(tenantId, 'connect', error);
+    }
+
+    const client = admin.getClient();
+    const tenantDb = client.db(database);
+    const changes: ProvisioningChanges = { database: false, user: false, collections: [], indexes: [], validators: [] };
+    let step = 'database';
+
+    try {
+      const { databases } = await client.db('admin').command({ listDatabases: 1, nameOnly: true, filter: { name: database } }) as { databases: unknown[] };
+      changes.database = databases.length === 0;
+
+      for (const definition of this.collections.values()) {
+        step = `collection ${definition.name}`;
+        await this.ensureCollection(tenantDb, definition, changes);
+      }
+
+      step = 'user';
+      changes.user = await this.ensureUser(client.db(authSource), username, password, database, options);
+    } catch (error) {
+      this.logger.error(`Provisioning tenant ${tenantId} failed at step ${step}: ${error instanceof Error ? error.message : 'Unknown error'}`, { tenantId, step });
+      await this.rollback(tenantDb, client.db(authSource), username, changes);
+      throw new ProvisioningError(tenantId, step, error);
+    } finally {
+      await connector.disconnect().catch(() => undefined);
+    }
+
+    this.logger.info(`Provisioned MongoDB tenant ${tenantId}`, { tenantId, database, username, authSource, createdDatabase: changes.database, createdUser: changes.user });
+
+    const { replicaSet, ssl } = this.adminCredentials;
+    return {
+      tenantId,
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: options.host ?? this.adminCredentials.host,
+        port: options.port ?? this.adminCredentials.port,
+        username,
+        password,
+        database,
+        authSource,
+        ...(replicaSet !== undefined ? { replicaSet } : {}),
+        ...(ssl !== undefined ? { ssl } : {}),
+        ...(options.options ? { options: options.options } : {})
+      } as MongoDBCredentials
+    };
+  }
+
+  /**
+   * Create a collection with its validator, or apply the validator to an existing one, then create its indexes
+   */
+  private async ensureCollection(db: MongoDatabase, definition: MongoDBCollectionDefinition, changes: ProvisioningChanges): Promise<void> {
+    const { name, validator, validationLevel, validationAction, indexes = [] } = definition;
+    const validation = {
+      ...(validator ? { validator } : {}),
+      ...(validationLevel ? { validationLevel } : {}),
+      ...(validationAction ? { validationAction } : {})
+    };
+
+    const [existing] = await db.listCollections({ name }).toArray() as Array<{ options?: Record<string, unknown> }>;
+    if (!existing) {
+      await db.createCollection(name, validation);
+      changes.collections.push(name);
+    } else if (Object.keys(validation).length > 0) {
+      const { validator: previousValidator = {}, validationLevel: previousLevel = 'strict', validationAction: previousAction = 'error' } = existing.options ?? {};
+      await db.command({ collMod: name, ...validation });
+      changes.validators.push({ collection: name, previous: { validator: previousValidator, validationLevel: previousLevel, validationAction: previousAction } });
+    }
+
+    if (indexes.length === 0) return;
+
+    const collection = db.collection(name);
+    const before = existing ? (await collection.indexes() as Array<{ name: string }>).map((index) => index.name) : [];
+    const names = await collection.createIndexes(indexes);
+    if (existing) {
+      for (const index of names.filter((indexName) => !before.includes(indexName))) {
+        changes.indexes.push({ collection: name, name: index });
+      }
+    }
+  }
+
+  /**
+   * Create the tenant user with readWrite on the tenant database, or, with `updateExistingUser`, reset an existing
+   * user's password and roles
+   */
+  private async ensureUser(authDb: MongoDatabase, username: string, password: string, database: string, options: MongoDBProvisionOptions): Promise<boolean> {
+    const { users } = await authDb.command({ usersInfo: username }) as { users: unknown[] };
+    const user = { pwd: password, roles: [{ role: 'readWrite', db: database }] };
+
+    if (users.length > 0) {
+      if (!options.updateExistingUser) {
+        throw new Error(`User ${username} already exists; pass updateExistingUser to reset its password and roles`);
+      }
+      await authDb.command({ updateUser: username, ...user });
+      return false;
+    }
+
+    await authDb.command({ createUser: username, ...user });
+    return true;
+  }
+
+  /**
+   * Undo the changes of a failed run in reverse order; anything that existed before is left as it was
+   */
+  private async rollback(tenantDb: MongoDatabase, authDb: MongoDatabase, username: string, changes: ProvisioningChanges): Promise<void> {
+    const undo: Array<[string, () => Promise<unknown>]> = [];
+
+    if (changes.user) {
+      undo.push([`drop user ${username}`, () => authDb.command({ dropUser: username })]);
+    }
+    for (const { collection, name } of changes.indexes) {
+      undo.push([`drop index ${collection}.${name}`, () => tenantDb.collection(collection).dropIndex(name)]);
+    }
+    for (const { collection, previous } of changes.validators) {
+      undo.push([`restore validator of ${collection}`, () => tenantDb.command({ collMod: collection, ...previous })]);
+    }
+    if (changes.database) {
+      undo.push([`drop database ${tenantDb.databaseName}`, () => tenantDb.dropDatabase()]);
+    } else {
+      for (const collection of changes.collections) {
+        undo.push([`drop collection ${collection}`, () => tenantDb.dropCollection(collection)]);
+      }
+    }
+
+    for (const [description, action] of undo) {
+      try {
+        await action();
+      } catch (error) {
+        this.logger.error(`Rollback step failed (${description}): ${error instanceof Error ? error.message : 'Unknown error'}`, { database: tenantDb.databaseName });
+      }
+    }
+  }
+}
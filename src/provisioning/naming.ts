@@ -0,0 +1,6 @@
+/**
+ * Default name of a tenant's database, schema, role or user: tenant_<tenantId>, lowercased and limited to [a-z0-9_]
+ */
+export function getDefaultTenantName(tenantId: string): string {
+  return `tenant_${tenantId.toLowerCase().replace(/[^a-z0-9_]/g, '_')}`.slice(0, 63);
+}
@@ -0,0 +1,304 @@
+import { randomBytes } from 'crypto';
+import { Client } from 'pg';
+import { ProvisioningError } from '../errors';
+import { DatabaseType, Logger, PostgreSQLCredentials, TenantConfig } from '../types';
+import { ConsoleLogger } from '../utils/logger';
+import { quoteIdentifier, quoteLiteral } from '../utils/sql';
+import { getDefaultTenantName } from './naming';
+
+export interface PostgreSQLProvisionOptions {
+  tenancy?: 'database' | 'schema';  // Own database, or own schema in the admin database. Default: 'database'
+  database?: string;                // Default: tenant_<tenantId> ('database'), the admin database ('schema')
+  schema?: string;                  // Default: public ('database'), tenant_<tenantId> ('schema')
+  role?: string;                    // Default: tenant_<tenantId>
+  password?: string;                // Default: generated
+  connectionLimit?: number;         // CONNECTION LIMIT of the role. Default: unlimited
+  updateExistingRole?: boolean;     // Reset the attributes and password of an existing role. Default: false, an existing role fails the run
+  extensions?: string[];            // Created in the tenant database if missing
+  host?: string;                    // Host tenants connect to, when it differs from the admin host
+  port?: number;
+  options?: Record<string, unknown>; // Copied to the credentials of the returned TenantConfig
+}
+
+/**
+ * Attributes of an existing role, from before a provisioning run changed them.
+ * `passwordHash` is undefined when the admin may not read it (pg_authid is readable by superusers only).
+ */
+interface RoleState {
+  canLogin: boolean;
+  superuser: boolean;
+  createDb: boolean;
+  createRole: boolean;
+  replication: boolean;
+  bypassRls: boolean;
+  connectionLimit: number;
+  passwordHash?: string | null;
+}
+
+/**
+ * Objects created by a provisioning run, dropped again if a later step fails,
+ * and the previous state of an existing role it changed, restored if a later step fails
+ */
+interface CreatedObjects {
+  role: boolean;
+  database: boolean;
+  previousRole?: RoleState;
+}
+
+/**
+ * Creates PostgreSQL tenants through an admin connection: a login role with least privilege,
+ * the tenant database or schema, grants, default privileges and extensions.
+ */
+export class PostgreSQLProvisioner {
+  private adminCredentials: PostgreSQLCredentials;
+  private logger: Logger;
+
+  constructor(adminCredentials: PostgreSQLCredentials, logger: Logger = new ConsoleLogger('PostgreSQLProvisioner')) {
+    this.adminCredentials = adminCredentials;
+    this.logger = logger;
+  }
+
+  /**
+   * Default name of the role, database or schema of a tenant
+   */
+  public static getDefaultName(tenantId: string): string {
+    return getDefaultTenantName(tenantId);
+  }
+
+  /**
+   * Provision a tenant and return its TenantConfig.
+   * Provisioning is idempotent: existing objects are kept. An existing role is only reset to the new password
+   * with `updateExistingRole`. When a step fails, the role and database created by this run are dropped again,
+   * and an existing role it changed gets its previous attributes back.
+   */
+  public async provisionTenant(tenantId: string, options: PostgreSQLProvisionOptions = {}): Promise<TenantConfig> {
+    const tenancy = options.tenancy ?? 'database';
+    const defaultName = PostgreSQLProvisioner.getDefaultName(tenantId);
+    const role = options.role ?? defaultName;
+    const database = options.database ?? (tenancy === 'database' ? defaultName : this.adminCredentials.database);
+    const schema = options.schema ?? (tenancy === 'schema' ? defaultName : 'public');
+    const password = options.password ?? randomBytes(24).toString('hex');
+
+    if (role === this.adminCredentials.username) {
+      throw new ProvisioningError(tenantId, 'role', new Error('The tenant role must not be the admin role'));
+    }
+
+    const created: CreatedObjects = { role: false, database: false };
+    let admin: Client;
+    try {
+      admin = await this.connect(this.adminCredentials.database);
+    } catch (error) {
+      throw new ProvisioningError(tenantId, 'connect', error);
+    }
+
+    let step = 'role';
+    try {
+      await this.ensureRole(admin, role, password, options, created);
+
+      if (tenancy === 'database') {
+        step = 'database';
+        created.database = await this.ensureDatabase(admin, database);
+      }
+
+      step = 'privileges';
+      const tenantClient = await this.connect(database);
+      try {
+        await tenantClient.query('BEGIN');
+        // Grants, schema and extensions commit together, so a failure leaves nothing behind in the database
+        for (const statement of this.getTenantStatements(tenancy, database, schema, role, options.extensions ?? [], created.database)) {
+          await tenantClient.query(statement);
+        }
+        await tenantClient.query('COMMIT');
+      } catch (error) {
+        await tenantClient.query('ROLLBACK').catch(() => undefined);
+        throw error;
+      } finally {
+        await tenantClient.end();
+      }
+    } catch (error) {
+      this.logger.error(`Provisioning tenant ${tenantId} failed at step ${step}: ${error instanceof Error ? error.message : 'Unknown error'}`, { tenantId, step });
+      await this.rollback(admin, created, role, database);
+      throw new ProvisioningError(tenantId, step, error);
+    } finally {
+      await admin.end();
+    }
+
+    this.logger.info(`Provisioned PostgreSQL tenant ${tenantId}`, { tenantId, tenancy, database, schema, role, createdRole: created.role, createdDatabase: created.database });
+
+    const { ssl } = this.adminCredentials;
+    return {
+      tenantId,
+      databaseType: DatabaseType.POSTGRESQL,
+      credentials: {
+        host: options.host ?? this.adminCredentials.host,
+        port: options.port ?? this.adminCredentials.port,
+        username: role,
+        password,
+        database,
+        schema,
+        ...(ssl !== undefined ? { ssl } : {}),
+        ...(options.options ? { options: options.options } : {})
+      } as PostgreSQLCredentials
+    };
+  }
+
+  private async connect(database: string): Promise<Client> {
+    const { host, port, username, password, ssl } = this.adminCredentials;
+    const client = new Client({ host, port, user: username, password, database, ...(ssl !== undefined ? { ssl } : {}) });
+    await client.connect();
+    return client;
+  }
+
+  /**
+   * Create the tenant login role, or, with `updateExistingRole`, reset the attributes and password of an existing one
+   * after recording its previous state in `created`
+   */
+  private async ensureRole(client: Client, role: string, password: string, options: PostgreSQLProvisionOptions, created: CreatedObjects): Promise<void> {
+    const attributes = [
+      'LOGIN NOSUPERUSER NOCREATEDB NOCREATEROLE NOREPLICATION NOBYPASSRLS',
+      `CONNECTION LIMIT ${options.connectionLimit ?? -1}`,
+      `PASSWORD ${quoteLiteral(password)}`
+    ].join(' ');
+
+    const previousRole = await this.getRoleState(client, role);
+    if (!previousRole) {
+      await client.query(`CREATE ROLE ${quoteIdentifier(role)} WITH ${attributes}`);
+      created.role = true;
+      return;
+    }
+
+    if (!options.updateExistingRole) {
+      throw new Error(`Role ${role} already exists; pass updateExistingRole to reset its attributes and password`);
+    }
+
+    created.previousRole = previousRole;
+    await client.query(`ALTER ROLE ${quoteIdentifier(role)} WITH ${attributes}`);
+  }
+
+  /**
+   * Current attributes of a role, or undefined if it does not exist
+   */
+  private async getRoleState(client: Client, role: string): Promise<RoleState | undefined> {
+    const { rows } = await client.query<{
+      rolcanlogin: boolean;
+      rolsuper: boolean;
+      rolcreatedb: boolean;
+      rolcreaterole: boolean;
+      rolreplication: boolean;
+      rolbypassrls: boolean;
+      rolconnlimit: number;
+    }>(
+      `SELECT rolcanlogin, rolsuper, rolcreatedb, rolcreaterole, rolreplication, rolbypassrls, rolconnlimit
+       FROM pg_roles WHERE rolname = $1`,
+      [role]
+    );
+    if (!rows.length) return undefined;
+
+    const [row] = rows;
+    const state: RoleState = {
+      canLogin: row.rolcanlogin,
+      superuser: row.rolsuper,
+      createDb: row.rolcreatedb,
+      createRole: row.rolcreaterole,
+      replication: row.rolreplication,
+      bypassRls: row.rolbypassrls,
+      connectionLimit: row.rolconnlimit
+    };
+
+    try {
+      const { rows: [authid] } = await client.query<{ rolpassword: string | null }>(
+        'SELECT rolpassword FROM pg_authid WHERE rolname = $1',
+        [role]
+      );
+      state.passwordHash = authid?.rolpassword ?? null;
+    } catch (error) {
+      this.logger.warn(`Cannot read the password of role ${role}, it will not be restored if provisioning fails: ${error instanceof Error ? error.message : 'Unknown error'}`, { role });
+    }
+
+    return state;
+  }
+
+  /**
+   * Create the tenant database if it does not exist (CREATE DATABASE cannot run in a transaction)
+   */
+  private async ensureDatabase(client: Client, database: string): Promise<boolean> {
+    const { rowCount } = await client.query('SELECT 1 FROM pg_database WHERE datname = $1', [database]);
+    if (rowCount) return false;
+
+    await client.query(`CREATE DATABASE ${quoteIdentifier(database)}`);
+    return true;
+  }
+
+  /**
+   * Statements run in the tenant database: the role may connect, use and create objects in its schema,
+   * and read and write the objects the admin creates there
+   */
+  private getTenantStatements(
+    tenancy: 'database' | 'schema',
+    database: string,
+    schema: string,
+    role: string,
+    extensions: string[],
+    createdDatabase: boolean
+  ): string[] {
+    const db = quoteIdentifier(database);
+    const sch = quoteIdentifier(schema);
+    const rol = quoteIdentifier(role);
+
+    return [
+      // A database this run created for the tenant is closed to everyone else; an existing or shared database is left as it is
+      ...(tenancy === 'database' && createdDatabase ? [`REVOKE ALL ON DATABASE ${db} FROM PUBLIC`] : []),
+      `GRANT CONNECT, TEMPORARY ON DATABASE ${db} TO ${rol}`,
+      `CREATE SCHEMA IF NOT EXISTS ${sch}`,
+      `GRANT USAGE, CREATE ON SCHEMA ${sch} TO ${rol}`,
+      `GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA ${sch} TO ${rol}`,
+      `GRANT USAGE, SELECT, UPDATE ON ALL SEQUENCES IN SCHEMA ${sch} TO ${rol}`,
+      `ALTER DEFAULT PRIVILEGES IN SCHEMA ${sch} GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO ${rol}`,
+      `ALTER DEFAULT PRIVILEGES IN SCHEMA ${sch} GRANT USAGE, SELECT, UPDATE ON SEQUENCES TO ${rol}`,
+      `ALTER DEFAULT PRIVILEGES IN SCHEMA ${sch} GRANT EXECUTE ON FUNCTIONS TO ${rol}`,
+      `ALTER ROLE ${rol} IN DATABASE ${db} SET search_path TO ${sch}`,
+      ...extensions.map((extension) => `CREATE EXTENSION IF NOT EXISTS ${quoteIdentifier(extension)}`)
+    ];
+  }
+
+  /**
+   * Drop what this run created and restore the role it changed; other objects that existed before are left alone
+   */
+  private async rollback(client: Client, created: CreatedObjects, role: string, database: string): Promise<void> {
+    const statements = [
+      ...(created.database ? [`DROP DATABASE IF EXISTS ${quoteIdentifier(database)}`] : []),
+      ...(created.role ? [`DROP ROLE IF EXISTS ${quoteIdentifier(role)}`] : []),
+      ...(created.previousRole ? [this.getRestoreRoleStatement(role, created.previousRole)] : [])
+    ];
+
+    for (const statement of statements) {
+      try {
+        await client.query(statement);
+      } catch (error) {
+        this.logger.error(`Rollback statement failed (${statement}): ${error instanceof Error ? error.message : 'Unknown error'}`, { role, database });
+      }
+    }
+  }
+
+  /**
+   * ALTER ROLE statement that gives a role its recorded attributes back (and its password, when it could be read)
+   */
+  private getRestoreRoleStatement(role: string, state: RoleState): string {
+    const flag = (enabled: boolean, name: string) => (enabled ? name : `NO${name}`);
+    const attributes = [
+      flag(state.canLogin, 'LOGIN'),
+      flag(state.superuser, 'SUPERUSER'),
+      flag(state.createDb, 'CREATEDB'),
+      flag(state.createRole, 'CREATEROLE'),
+      flag(state.replication, 'REPLICATION'),
+      flag(state.bypassRls, 'BYPASSRLS'),
+      `CONNECTION LIMIT ${state.connectionLimit}`
+    ];
+    if (state.passwordHash !== undefined) {
+      // PostgreSQL stores an already hashed password as it is
+      attributes.push(`PASSWORD ${state.passwordHash === null ? 'NULL' : quoteLiteral(state.passwordHash)}`);
+    }
+
+    return `ALTER ROLE ${quoteIdentifier(role)} WITH ${attributes.join(' ')}`;
+  }
+}
@@ -0,0 +1,20 @@
+import { createStrapiPlugin } from './strapi-plugin';
+
+export {
+    createStrapiPlugin,
+    PLUGIN_NAME,
+    StrapiContext,
+    StrapiInstance,
+    StrapiMultiTenantPluginConfig,
+    StrapiPlugin
+} from './strapi-plugin';
+export {
+    StrapiTenantConfig,
+    StrapiTenantCredentials,
+    StrapiTenantDetails,
+    StrapiTenantService,
+    StrapiTenantSummary,
+    StrapiWarmUpResult
+} from './strapi-tenant-service';
+
+export default createStrapiPlugin();
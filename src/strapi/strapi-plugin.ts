@@ -0,0 +1,234 @@
+import { MultiTenantError, TenantAlreadyExistsError, TenantNotFoundError, TenantRequestError } from '../errors';
+import {
+  createKoaTenantMiddleware,
+  KoaLikeContext,
+  releaseOnResponseEnd,
+  resolveTenantRequest,
+  ResponseEndEmitter,
+  tenantRequestInfo,
+  TenantMiddlewareOptions
+} from '../middleware';
+import { MultiTenantManager } from '../multi-tenant-manager';
+import { InMemoryTenantConfigProvider } from '../providers';
+import { MultiTenantConfig, TenantConfig } from '../types';
+import { ConnectionValidator } from '../utils/connection-validator';
+import { createWinstonLoggerAdapter, WinstonLikeLogger } from '../utils/logger';
+import { StrapiTenantService } from './strapi-tenant-service';
+
+export const PLUGIN_NAME = 'multi-tenant';
+
+export interface StrapiMultiTenantPluginConfig extends MultiTenantConfig {
+  tenants?: TenantConfig[];                                      // Static tenants, when no tenantConfigProvider is given
+  resolvers?: TenantMiddlewareOptions['resolvers'];               // Default: [tenantFromHeader()]
+  tenantIdPattern?: TenantMiddlewareOptions['tenantIdPattern'];
+  warmUp?: boolean;                                               // Connect all known tenants during bootstrap. Default: false
+}
+
+/**
+ * The parts of the Strapi instance used by the plugin
+ */
+export interface StrapiInstance {
+  config: { get<T>(path: string, defaultValue: T): T };
+  log: WinstonLikeLogger;
+  admin?: { services: { permission: { actionProvider: { registerMany(actions: object[]): Promise<unknown> } } } };
+}
+
+/**
+ * Koa context as seen by Strapi policies and controllers
+ */
+export interface StrapiContext extends KoaLikeContext {
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+  request: { body?: unknown; headers: KoaLikeContext['headers']; hostname: string; originalUrl: string };
+  res: ResponseEndEmitter;
+  throw(status: number, message: string, properties?: Record<string, unknown>): never;
+}
+
+const PLUGIN_ONLY_KEYS = ['tenants', 'resolvers', 'tenantIdPattern', 'warmUp'] as const;
+
+/**
+ * Validate the plugin configuration from config/plugins
+ */
+function validateConfig(config: StrapiMultiTenantPluginConfig): void {
+  if (config.tenants && config.tenantConfigProvider) {
+    throw new Error(`${PLUGIN_NAME}: configure either tenants or tenantConfigProvider, not both`);
+  }
+  if (config.tenants) {
+    ConnectionValidator.validateMultipleTenantConfigs(config.tenants);
+  }
+  if (config.defaultOptions) {
+    ConnectionValidator.validateConnectionOptions(config.defaultOptions);
+  }
+}
+
+/**
+ * Build the Strapi (v4) server plugin. The package's strapi-server.js exports one instance of it.
+ */
+export function createStrapiPlugin() {
+  let manager: MultiTenantManager | undefined;
+  let pluginConfig: StrapiMultiTenantPluginConfig = {};
+
+  const getManager = (): MultiTenantManager => {
+    if (!manager) {
+      throw new MultiTenantError(`The ${PLUGIN_NAME} plugin is not registered or was already destroyed`);
+    }
+    return manager;
+  };
+
+  const service = new StrapiTenantService(getManager);
+
+  const middlewareOptions = (): TenantMiddlewareOptions => ({
+    ...(pluginConfig.resolvers ? { resolvers: pluginConfig.resolvers } : {}),
+    ...(pluginConfig.tenantIdPattern !== undefined ? { tenantIdPattern: pluginConfig.tenantIdPattern } : {})
+  });
+
+  /**
+   * Run an admin handler, mapping tenant errors to HTTP statuses
+   */
+  const handle = (handler: (ctx: StrapiContext) => Promise<unknown>) => async (ctx: StrapiContext): Promise<void> => {
+    try {
+      ctx.body = await handler(ctx);
+    } catch (error) {
+      if (error instanceof TenantNotFoundError) ctx.throw(404, error.message);
+      if (error instanceof TenantAlreadyExistsError) ctx.throw(409, error.message);
+      if (error instanceof MultiTenantError) ctx.throw(400, error.message);
+      throw error;
+    }
+  };
+
+  const adminRoute = (method: string, path: string, handler: string, action: 'read' | 'manage') => ({
+    method,
+    path,
+    handler: `admin.${handler}`,
+    config: {
+      policies: [
+        'admin::isAuthenticatedAdmin',
+        { name: 'admin::hasPermissions', config: { actions: [`plugin::${PLUGIN_NAME}.${action}`] } }
+      ]
+    }
+  });
+
+  return {
+    config: {
+      default: {},
+      validator: validateConfig
+    },
+
+    register({ strapi }: { strapi: StrapiInstance }): void {
+      pluginConfig = strapi.config.get<StrapiMultiTenantPluginConfig>(`plugin.${PLUGIN_NAME}`, {});
+      const managerConfig: MultiTenantConfig & Partial<StrapiMultiTenantPluginConfig> = { ...pluginConfig };
+      for (const key of PLUGIN_ONLY_KEYS) {
+        delete managerConfig[key];
+      }
+
+      manager = new MultiTenantManager({
+        ...managerConfig,
+        logger: pluginConfig.logger ?? createWinstonLoggerAdapter(strapi.log),
+        tenantConfigProvider: pluginConfig.tenantConfigProvider ?? new InMemoryTenantConfigProvider(pluginConfig.tenants ?? [])
+      });
+    },
+
+    async bootstrap({ strapi }: { strapi: StrapiInstance }): Promise<void> {
+      await strapi.admin?.services.permission.actionProvider.registerMany([
+        { section: 'plugins', displayName: 'Read tenants', uid: 'read', pluginName: PLUGIN_NAME },
+        { section: 'plugins', displayName: 'Manage tenants', uid: 'manage', pluginName: PLUGIN_NAME }
+      ]);
+
+      if (pluginConfig.warmUp) {
+        const { connected, failed } = await service.warmUp();
+        strapi.log.info(`${PLUGIN_NAME}: connected ${connected.length} tenant(s) during bootstrap`);
+        for (const { tenantId, error } of failed) {
+          strapi.log.warn(`${PLUGIN_NAME}: could not connect tenant ${tenantId}: ${error}`);
+        }
+      }
+    },
+
+    async destroy(): Promise<void> {
+      if (!manager) return;
+
+      manager.stopIdleReaper();
+      await manager.closeAllConnections();
+      manager = undefined;
+    },
+
+    services: {
+      tenant: () => service
+    },
+
+    policies: {
+      /**
+       * Resolve the tenant of the request and set ctx.state.tenantId / ctx.state.tenantConnection.
+       * Responds with 400/404/503 for missing, unknown or unavailable tenants. The connection lease ends with the response.
+       */
+      'resolve-tenant': async (policyContext: StrapiContext, config: TenantMiddlewareOptions = {}): Promise<boolean> => {
+        try {
+          const { tenantId, connection, release } = await resolveTenantRequest(getManager(), tenantRequestInfo({
+            headers: policyContext.request.headers,
+            originalUrl: policyContext.request.originalUrl,
+            hostname: policyContext.request.hostname,
+            user: policyContext.state.user
+          }), { ...middlewareOptions(), ...config });
+
+          policyContext.state.tenantId = tenantId;
+          policyContext.state.tenantConnection = connection;
+          releaseOnResponseEnd(policyContext.res, release);
+          return true;
+        } catch (error) {
+          if (error instanceof TenantRequestError) {
+            policyContext.throw(error.statusCode, error.message, error.retryAfter !== undefined
+              ? { headers: { 'Retry-After': String(error.retryAfter) } }
+              : {});
+          }
+          throw error;
+        }
+      }
+    },
+
+    middlewares: {
+      /**
+       * Route middleware like the policy, which also runs the handler inside manager.runWithTenant
+       */
+      'resolve-tenant': (config: TenantMiddlewareOptions = {}) =>
+        createKoaTenantMiddleware(getManager(), { ...middlewareOptions(), ...config })
+    },
+
+    controllers: {
+      admin: () => ({
+        listTenants: handle(() => service.listTenants()),
+        getTenant: handle((ctx) => service.getTenant(ctx.params.tenantId)),
+        createTenant: handle((ctx) => service.addTenant(ctx.request.body as TenantConfig)),
+        deleteTenant: handle(async (ctx) => {
+          await service.removeTenant(ctx.params.tenantId);
+          return { tenantId: ctx.params.tenantId, removed: true };
+        }),
+        disconnectTenant: handle(async (ctx) => {
+          await service.manager.closeConnection(ctx.params.tenantId);
+          return { tenantId: ctx.params.tenantId, connected: false };
+        }),
+        getStats: handle(() => Promise.resolve(service.getStats())),
+        getHealth: async (ctx: StrapiContext): Promise<void> => {
+          const report = await service.checkHealth();
+          ctx.status = report.status === 'unhealthy' ? 503 : 200;
+          ctx.body = report;
+        }
+      })
+    },
+
+    routes: {
+      admin: {
+        type: 'admin',
+        routes: [
+          adminRoute('GET', '/tenants', 'listTenants', 'read'),
+          adminRoute('GET', '/tenants/:tenantId', 'getTenant', 'read'),
+          adminRoute('POST', '/tenants', 'createTenant', 'manage'),
+          adminRoute('DELETE', '/tenants/:tenantId', 'deleteTenant', 'manage'),
+          adminRoute('POST', '/tenants/:tenantId/disconnect', 'disconnectTenant', 'manage'),
+          adminRoute('GET', '/stats', 'getStats', 'read'),
+          adminRoute('GET', '/health', 'getHealth', 'read')
+        ]
+      }
+    }
+  };
+}
+
+export type StrapiPlugin = ReturnType<typeof createStrapiPlugin>;
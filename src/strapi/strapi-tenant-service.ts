@@ -0,0 +1,218 @@
+import { MultiTenantError, TenantAlreadyExistsError, TenantNotFoundError } from '../errors';
+import type { MultiTenantManager } from '../multi-tenant-manager';
+import {
+    CircuitState,
+    DatabaseType,
+    HealthCheckOptions,
+    HealthReport,
+    MongoDBCredentials,
+    PostgreSQLCredentials,
+    TenantConfig,
+    TenantConfigProvider
+} from '../types';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { ConnectionValidator } from '../utils/connection-validator';
+
+export interface StrapiTenantSummary {
+  tenantId: string;
+  connected: boolean;
+  databaseType?: DatabaseType;
+  lastUsed?: Date;
+  circuitState?: CircuitState;
+}
+
+/**
+ * Credential fields getTenant exposes; passwords, TLS material and driver options never leave the server
+ */
+const PUBLIC_CREDENTIAL_FIELDS = [
+  'host',
+  'port',
+  'database',
+  'username',
+  'schema',
+  'tenancy',
+  'tenantSetting',
+  'authSource',
+  'replicaSet',
+  'sharedConnection',
+  'poolSize'
+] as const;
+
+export type StrapiTenantCredentials = Partial<Pick<PostgreSQLCredentials & MongoDBCredentials, typeof PUBLIC_CREDENTIAL_FIELDS[number]>>;
+
+export interface StrapiTenantConfig {
+  tenantId: string;
+  databaseType: DatabaseType;
+  credentials: StrapiTenantCredentials;
+  connectionName?: string;
+  group?: string;
+}
+
+export interface StrapiTenantDetails extends StrapiTenantSummary {
+  config: StrapiTenantConfig;  // Only the public credential fields
+}
+
+export interface StrapiWarmUpResult {
+  connected: string[];
+  failed: Array<{ tenantId: string; error: string }>;
+}
+
+interface MutableTenantConfigProvider extends TenantConfigProvider {
+  addTenant(tenantConfig: TenantConfig): void;
+  removeTenant(tenantId: string): boolean;
+}
+
+/**
+ * Strapi service (`strapi.plugin('multi-tenant').service('tenant')`) for tenant connections and tenant management
+ */
+export class StrapiTenantService {
+  private getManager: () => MultiTenantManager;
+
+  constructor(getManager: () => MultiTenantManager) {
+    this.getManager = getManager;
+  }
+
+  /**
+   * The plugin's MultiTenantManager; only available between register and destroy
+   */
+  public get manager(): MultiTenantManager {
+    return this.getManager();
+  }
+
+  public getConnection(tenantId: string): Promise<any> {
+    return this.manager.getConnection(tenantId);
+  }
+
+  /**
+   * Connection of the tenant resolved by the plugin's resolve-tenant middleware
+   */
+  public currentConnection(): Promise<any> {
+    return this.manager.currentConnection();
+  }
+
+  public currentTenant(): string {
+    return this.manager.currentTenant();
+  }
+
+  public runWithTenant<T>(tenantId: string, fn: () => T): T {
+    return this.manager.runWithTenant(tenantId, fn);
+  }
+
+  /**
+   * List all known tenants with their connection state
+   */
+  public async listTenants(): Promise<StrapiTenantSummary[]> {
+    const provider = this.manager.getTenantConfigProvider();
+    const knownTenantIds = provider?.listTenantIds ? await provider.listTenantIds() : [];
+    const tenantIds = new Set([...knownTenantIds, ...this.manager.getAllConnections().keys()]);
+
+    return Array.from(tenantIds).sort().map((tenantId) => this.summarize(tenantId));
+  }
+
+  /**
+   * Get a tenant's configuration (only the public credential fields) and connection state
+   */
+  public async getTenant(tenantId: string): Promise<StrapiTenantDetails> {
+    const { databaseType, credentials, connectionName, group } = await this.manager.resolveTenantConfig(tenantId);
+    const publicCredentials: Record<string, unknown> = {};
+    for (const field of PUBLIC_CREDENTIAL_FIELDS) {
+      const value = (credentials as StrapiTenantCredentials)[field];
+      if (value !== undefined) {
+        publicCredentials[field] = value;
+      }
+    }
+
+    return {
+      ...this.summarize(tenantId),
+      databaseType,
+      config: {
+        tenantId,
+        databaseType,
+        credentials: publicCredentials as StrapiTenantCredentials,
+        ...(connectionName !== undefined ? { connectionName } : {}),
+        ...(group !== undefined ? { group } : {})
+      }
+    };
+  }
+
+  /**
+   * Register a new tenant; requires a provider that supports adding tenants (the default in-memory one does)
+   */
+  public async addTenant(tenantConfig: TenantConfig): Promise<StrapiTenantDetails> {
+    try {
+      ConnectionValidator.validateTenantConfig(tenantConfig);
+    } catch (error) {
+      throw new MultiTenantError(error instanceof Error ? error.message : 'Invalid tenant configuration');
+    }
+
+    const provider = this.getMutableProvider();
+    if (await provider.getTenantConfig(tenantConfig.tenantId)) {
+      throw new TenantAlreadyExistsError(tenantConfig.tenantId);
+    }
+
+    provider.addTenant(tenantConfig);
+    return this.getTenant(tenantConfig.tenantId);
+  }
+
+  /**
+   * Close a tenant's connection and unregister it
+   */
+  public async removeTenant(tenantId: string): Promise<void> {
+    const provider = this.getMutableProvider();
+    if (!(await provider.getTenantConfig(tenantId))) {
+      throw new TenantNotFoundError(tenantId);
+    }
+
+    await this.manager.closeConnection(tenantId);
+    provider.removeTenant(tenantId);
+    this.manager.resetCircuitBreaker(tenantId);
+  }
+
+  public getStats(): ReturnType<MultiTenantManager['getConnectionStats']> {
+    return this.manager.getConnectionStats();
+  }
+
+  public checkHealth(options?: HealthCheckOptions): Promise<HealthReport> {
+    return this.manager.checkHealth(options);
+  }
+
+  /**
+   * Connect all tenants known to the provider; failures are reported, not thrown
+   */
+  public async warmUp(concurrency: number = 5): Promise<StrapiWarmUpResult> {
+    const provider = this.manager.getTenantConfigProvider();
+    const tenantIds = provider?.listTenantIds ? await provider.listTenantIds() : [];
+    const result: StrapiWarmUpResult = { connected: [], failed: [] };
+
+    await mapWithConcurrency(tenantIds, concurrency, async (tenantId) => {
+      try {
+        await this.manager.getConnection(tenantId);
+        result.connected.push(tenantId);
+      } catch (error) {
+        result.failed.push({ tenantId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    });
+
+    return result;
+  }
+
+  private summarize(tenantId: string): StrapiTenantSummary {
+    const connectionInfo = this.manager.getConnectionInfo(tenantId);
+    const circuitState = this.manager.getCircuitBreakerState(tenantId)?.state;
+
+    return {
+      tenantId,
+      connected: this.manager.hasConnection(tenantId),
+      ...(connectionInfo ? { databaseType: connectionInfo.databaseType, lastUsed: connectionInfo.lastUsed } : {}),
+      ...(circuitState ? { circuitState } : {})
+    };
+  }
+
+  private getMutableProvider(): MutableTenantConfigProvider {
+    const provider = this.manager.getTenantConfigProvider() as Partial<MutableTenantConfigProvider> | undefined;
+    if (!provider || typeof provider.addTenant !== 'function' || typeof provider.removeTenant !== 'function') {
+      throw new MultiTenantError('The configured tenant config provider does not support adding or removing tenants');
+    }
+    return provider as MutableTenantConfigProvider;
+  }
+}
@@ -0,0 +1,11 @@
+export {
+    isRetryableTransactionError,
+    MongoDBClientSession,
+    MongoDBTransaction,
+    MongoDBTransactionOptions,
+    PostgreSQLTransaction,
+    runMongoDBTransaction,
+    runPostgreSQLTransaction,
+    TenantTransaction,
+    TransactionOptions
+} from './tenant-transaction';
@@ -0,0 +1,171 @@
+import type { Connection as MongooseConnection } from 'mongoose';
+import type { Connection, EntityManager, QueryRunner } from 'typeorm';
+import type { IsolationLevel } from 'typeorm/driver/types/IsolationLevel';
+import { PostgreSQLRlsConnection } from '../connectors/postgresql-rls-connection';
+import { PostgreSQLSchemaConnection } from '../connectors/postgresql-schema-connection';
+import { DatabaseType } from '../types';
+import { RetryPolicy, withRetry } from '../utils/retry';
+
+export type MongoDBClientSession = Awaited<ReturnType<MongooseConnection['startSession']>>;
+export type MongoDBTransactionOptions = NonNullable<Parameters<MongoDBClientSession['startTransaction']>[0]>;
+
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel;      // PostgreSQL only. Default: the server default (READ COMMITTED)
+  mongoOptions?: MongoDBTransactionOptions;   // MongoDB only: readConcern, writeConcern, readPreference, maxCommitTimeMS
+  maxRetries?: number;                  // Retries after serialization failures, deadlocks and transient MongoDB errors. Default: 3
+  retryDelay?: number;                  // Delay before the first retry, doubled on each retry (ms). Default: 50
+}
+
+export interface PostgreSQLTransaction {
+  databaseType: DatabaseType.POSTGRESQL;
+  tenantId: string;
+  attempt: number;            // 1-based; above 1 when the transaction is retried
+  queryRunner: QueryRunner;
+  manager: EntityManager;     // Bound to the transaction
+}
+
+export interface MongoDBTransaction {
+  databaseType: DatabaseType.MONGODB;
+  tenantId: string;
+  attempt: number;
+  connection: MongooseConnection;
+  session: MongoDBClientSession;   // Pass { session } to every operation that belongs to the transaction
+}
+
+export type TenantTransaction = PostgreSQLTransaction | MongoDBTransaction;
+
+// SQLSTATE codes of transactions that may succeed when run again
+const RETRYABLE_POSTGRESQL_CODES = new Set([
+  '40001', // serialization_failure
+  '40P01'  // deadlock_detected
+]);
+
+const hasErrorLabel = (error: unknown, label: string): boolean => {
+  const { hasErrorLabel: check, errorLabels } = (error ?? {}) as { hasErrorLabel?: (label: string) => boolean; errorLabels?: string[] };
+  return typeof check === 'function' ? check.call(error, label) : Array.isArray(errorLabels) && errorLabels.includes(label);
+};
+
+/**
+ * Decide whether a failed transaction is worth running again: PostgreSQL serialization failures
+ * and deadlocks, and MongoDB errors labelled TransientTransactionError
+ */
+export function isRetryableTransactionError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { code, driverError } = error as { code?: unknown; driverError?: { code?: unknown } };
+  const sqlState = code ?? driverError?.code;
+  return (typeof sqlState === 'string' && RETRYABLE_POSTGRESQL_CODES.has(sqlState)) || hasErrorLabel(error, 'TransientTransactionError');
+}
+
+function createTransactionRetryPolicy(options: TransactionOptions, onRetry?: RetryPolicy['onRetry']): RetryPolicy {
+  return {
+    retryAttempts: options.maxRetries ?? 3,
+    retryDelay: options.retryDelay ?? 50,
+    maxRetryDelay: 5000,
+    backoffFactor: 2,
+    jitter: true,
+    isRetryable: isRetryableTransactionError,
+    ...(onRetry ? { onRetry } : {})
+  };
+}
+
+/**
+ * Run a callback in a PostgreSQL transaction on a tenant connection: a TypeORM connection of its own,
+ * or a schema or RLS handle on a shared pool. Commits when the callback resolves, rolls back when it
+ * throws, and always releases the query runner.
+ */
+export async function runPostgreSQLTransaction<T>(
+  tenantId: string,
+  connection: Connection | PostgreSQLSchemaConnection | PostgreSQLRlsConnection,
+  callback: (transaction: PostgreSQLTransaction) => Promise<T>,
+  options: TransactionOptions = {},
+  onRetry?: RetryPolicy['onRetry']
+): Promise<T> {
+  return withRetry(async (attempt) => {
+    const queryRunner = await acquireTransactionRunner(connection, options.isolationLevel);
+
+    try {
+      const result = await callback({ databaseType: DatabaseType.POSTGRESQL, tenantId, attempt, queryRunner, manager: queryRunner.manager });
+      await queryRunner.commitTransaction();
+      return result;
+    } catch (error) {
+      if (queryRunner.isTransactionActive && !queryRunner.isReleased) {
+        await queryRunner.rollbackTransaction().catch(() => undefined);
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }, createTransactionRetryPolicy(options, onRetry));
+}
+
+/**
+ * Check out a query runner with an open transaction
+ */
+async function acquireTransactionRunner(
+  connection: Connection | PostgreSQLSchemaConnection | PostgreSQLRlsConnection,
+  isolationLevel?: IsolationLevel
+): Promise<QueryRunner> {
+  // RLS handles open the transaction themselves, before setting the tenant
+  if (connection instanceof PostgreSQLRlsConnection) {
+    return connection.acquireQueryRunner(isolationLevel);
+  }
+
+  const queryRunner = connection instanceof PostgreSQLSchemaConnection
+    ? await connection.acquireQueryRunner()
+    : connection.createQueryRunner();
+
+  try {
+    await queryRunner.startTransaction(isolationLevel);
+  } catch (error) {
+    await queryRunner.release();
+    throw error;
+  }
+  return queryRunner;
+}
+
+/**
+ * Run a callback in a MongoDB transaction on a ClientSession of the tenant connection. Commits when
+ * the callback resolves (retrying commits with an unknown result), aborts when it throws, and always
+ * ends the session.
+ */
+export async function runMongoDBTransaction<T>(
+  tenantId: string,
+  connection: MongooseConnection,
+  callback: (transaction: MongoDBTransaction) => Promise<T>,
+  options: TransactionOptions = {},
+  onRetry?: RetryPolicy['onRetry']
+): Promise<T> {
+  const session = await connection.startSession();
+  const maxRetries = options.maxRetries ?? 3;
+
+  try {
+    return await withRetry(async (attempt) => {
+      session.startTransaction(options.mongoOptions);
+
+      try {
+        const result = await callback({ databaseType: DatabaseType.MONGODB, tenantId, attempt, connection, session });
+
+        for (let commitAttempt = 0; ; commitAttempt++) {
+          try {
+            await session.commitTransaction();
+            break;
+          } catch (error) {
+            // The commit may or may not have been applied; committing again is safe
+            if (commitAttempt >= maxRetries || !hasErrorLabel(error, 'UnknownTransactionCommitResult')) throw error;
+          }
+        }
+        return result;
+      } catch (error) {
+        if (session.inTransaction()) {
+          await session.abortTransaction().catch(() => undefined);
+        }
+        throw error;
+      }
+    }, createTransactionRetryPolicy(options, onRetry));
+  } finally {
+    await session.endSession();
+  }
+}
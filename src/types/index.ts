@@ -1,3 +1,6 @@
+import type { BaseConnector } from '../connectors/base-connector';
+import type { ModelRegistry } from '../models';
+
 export enum DatabaseType {
   MONGODB = 'mongodb',
   POSTGRESQL = 'postgresql'
@@ -16,13 +19,23 @@ export interface MongoDBCredentials extends DatabaseCredentials {
   authSource?: string;
   replicaSet?: string;
   ssl?: boolean;
+  sharedConnection?: boolean;  // Share one base connection per cluster and user, switching databases with useDb. Default: false
   sslCA?: string;
   sslCert?: string;
   sslKey?: string;
 }
 
+/**
+ * database - every tenant gets its own pool (default)
+ * schema   - tenants on the same host/port/database/user share one pool, scoped by search_path to their schema
+ * rls      - tenants share one pool and the same tables, filtered by row-level-security policies on tenantSetting
+ */
+export type PostgreSQLTenancy = 'database' | 'schema' | 'rls';
+
 export interface PostgreSQLCredentials extends DatabaseCredentials {
   schema?: string;
+  tenancy?: PostgreSQLTenancy;  // Default: 'database'
+  tenantSetting?: string;       // Setting the RLS policies read the tenant ID from. Default: 'app.current_tenant'
   ssl?: boolean | {
     rejectUnauthorized?: boolean;
     ca?: string;
@@ -39,6 +52,7 @@ export interface TenantConfig {
   databaseType: DatabaseType;
   credentials: MongoDBCredentials | PostgreSQLCredentials;
   connectionName?: string;
+  group?: string;   // Tenant group selecting the group's models in the ModelRegistry
 }
 
 export interface ConnectionInfo {
@@ -48,6 +62,102 @@ export interface ConnectionInfo {
   createdAt: Date;
   lastUsed: Date;
   isActive: boolean;
+  poolSize: number;   // Pool slots the connection may use (maxConnections); 0 on a shared pool, which is charged once
+  idleTimeout: number; // Idle time after which the idle reaper closes the connection
+  inUse: number;      // Outstanding leases from acquireConnection()
+  connector: BaseConnector;
+  group?: string;     // TenantConfig.group
+  sharedPool?: string; // Key of the shared pool the connection runs on
+  serverVersion?: string; // Cached by checkHealth()
+}
+
+export type TenantHealthStatus = 'healthy' | 'unhealthy' | 'not_connected';
+
+export interface TenantHealth {
+  tenantId: string;
+  status: TenantHealthStatus;
+  databaseType?: DatabaseType;
+  latency: number;        // Time spent checking the tenant (ms)
+  serverVersion?: string;
+  error?: string;
+  checkedAt: Date;
+}
+
+export interface HealthReport {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  checkedAt: Date;
+  duration: number;
+  healthy: number;
+  unhealthy: number;
+  notConnected: number;
+  tenants: TenantHealth[];
+}
+
+export interface HealthCheckOptions {
+  tenantIds?: string[];   // Tenants to check. Default: all tenants with an open connection
+  connect?: boolean;      // Open connections for selected tenants that have none. Default: false
+  concurrency?: number;   // Max checks in flight. Default: 10
+  timeout?: number;       // Per-tenant timeout (ms). Default: connectionTimeout
+  includeServerVersion?: boolean; // Default: true
+}
+
+export interface ForEachTenantOptions {
+  tenantIds?: string[];              // Default: every tenant listed by the tenant config provider
+  concurrency?: number;              // Tenants processed at once. Default: 4
+  timeoutPerTenant?: number;         // Fail a tenant whose task runs longer (ms). Default: no timeout
+  continueOnError?: boolean;         // Keep going after a tenant fails. Default: false
+  signal?: AbortSignal;              // Aborting skips the tenants not started yet
+  closeOpenedConnections?: boolean;  // Close connections that were not open before the tenant's task. Default: false
+}
+
+export interface TenantTaskContext {
+  tenantId: string;
+  signal: AbortSignal;               // Aborted on timeout, when the job is aborted, or when it stops after a failure
+}
+
+/**
+ * fulfilled - the task resolved with `value`
+ * rejected  - the task (or opening the connection) failed, or timed out, with `error`
+ * skipped   - the task never started, because the job was aborted or stopped after a failure
+ */
+export type TenantTaskStatus = 'fulfilled' | 'rejected' | 'skipped';
+
+export interface TenantTaskResult<T> {
+  tenantId: string;
+  status: TenantTaskStatus;
+  value?: T;
+  error?: unknown;
+  duration: number;
+}
+
+export interface ForEachTenantReport<T> {
+  startedAt: Date;
+  duration: number;
+  total: number;
+  fulfilled: number;
+  rejected: number;
+  skipped: number;
+  aborted: boolean;                  // options.signal was aborted during the job
+  results: TenantTaskResult<T>[];    // In the order of the tenant IDs
+}
+
+export interface ReapedConnection {
+  tenantId: string;
+  databaseType: DatabaseType;
+  idleTime: number;   // How long the connection had been idle (ms)
+}
+
+export interface ConnectionLease {
+  tenantId: string;
+  connection: any;
+  release(): void;
+}
+
+export interface ConnectionBudget {
+  maxPools?: number;             // Max tenant connections open at once
+  maxPoolSlots?: number;         // Max sum of pool sizes across all tenants
+  queueWhenExhausted?: boolean;  // Wait for capacity instead of failing when nothing can be evicted
+  queueTimeout?: number;         // Max time to wait for capacity (ms)
 }
 
 export interface ConnectionOptions {
@@ -56,11 +166,145 @@ export interface ConnectionOptions {
   idleTimeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  maxRetryDelay?: number;
+  retryBackoffFactor?: number;
+  retryJitter?: boolean;
+  onRetry?: (attempt: RetryAttempt) => void;
+  logger?: Logger;
+}
+
+export interface RetryAttempt {
+  attempt: number;       // 1-based number of the attempt that failed
+  maxAttempts: number;   // Total attempts including the first one
+  delay: number;         // Delay before the next attempt (ms)
+  error: unknown;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogMetadata = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, meta?: LogMetadata): void;
+  info(message: string, meta?: LogMetadata): void;
+  warn(message: string, meta?: LogMetadata): void;
+  error(message: string, meta?: LogMetadata): void;
 }
 
 export interface MultiTenantConfig {
   defaultOptions?: ConnectionOptions;
   enableConnectionPooling?: boolean;
   enableLogging?: boolean;
-  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+  logLevel?: LogLevel;
+  logger?: Logger;
+  tenantConfigProvider?: TenantConfigProvider;
+  connectionBudget?: ConnectionBudget;
+  enableIdleReaper?: boolean;
+  idleReaperInterval?: number;
+  circuitBreaker?: CircuitBreakerOptions;
+  modelRegistry?: ModelRegistry;   // Entities, subscribers and schemas for tenant connections. Default: an empty registry
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;  // Consecutive failed connection attempts before opening. Default: 5
+  cooldown?: number;          // Time the circuit stays open before a trial attempt (ms). Default: 30000
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  failures: number;
+  openedAt: Date | null;
+  retryAfter: number;         // Time until the next attempt is allowed (ms)
+}
+
+export interface TenantConfigProvider {
+  /**
+   * Resolve the configuration for a tenant, or undefined if the tenant is unknown
+   */
+  getTenantConfig(tenantId: string): Promise<TenantConfig | undefined>;
+
+  /**
+   * List the IDs of all tenants known to the provider (optional)
+   */
+  listTenantIds?(): Promise<string[]>;
+}
+
+export interface TenantContextStore {
+  tenantId: string;
+}
+
+export type ConnectionCloseReason = 'manual' | 'idle' | 'evicted' | 'unhealthy';
+
+export interface ConnectionEvent {
+  tenantId: string;
+  databaseType: DatabaseType;
+  timestamp: Date;
+}
+
+export interface ConnectionCreatedEvent extends ConnectionEvent {
+  duration: number;   // Time spent resolving config and connecting (ms)
+}
+
+export interface ConnectionReusedEvent extends ConnectionEvent {
+  duration: number;   // Time spent checking the existing connection (ms)
+  idleTime: number;   // Time since the connection was last used (ms)
+}
+
+export interface ConnectionFailedEvent {
+  tenantId: string;
+  databaseType?: DatabaseType; // Unknown when the tenant configuration could not be resolved
+  timestamp: Date;
+  duration: number;
+  error: unknown;
+}
+
+export interface ConnectionRetryEvent extends ConnectionEvent, RetryAttempt {}
+
+export interface ConnectionClosedEvent extends ConnectionEvent {
+  reason: ConnectionCloseReason;
+  duration: number;   // Time spent closing (ms)
+  lifetime: number;   // Time since the connection was created (ms)
+  error?: unknown;    // Set when closing failed; the connection is dropped anyway
+}
+
+export interface ConnectionEvictedEvent extends ConnectionEvent {
+  idleTime: number;
+  evictedFor: string; // Tenant that needed the capacity
+}
+
+export interface HealthFailedEvent extends ConnectionEvent {
+  duration: number;
+}
+
+export interface HealthPassedEvent extends ConnectionEvent {
+  duration: number;
+}
+
+export interface CircuitStateChangedEvent {
+  tenantId: string;
+  timestamp: Date;
+  previousState: CircuitState;
+  state: CircuitState;
+  failures: number;
+}
+
+export interface ConfigUpdatedEvent {
+  timestamp: Date;
+  previous: MultiTenantConfig;
+  current: MultiTenantConfig;
+}
+
+export interface MultiTenantManagerEvents {
+  'connection:created': ConnectionCreatedEvent;
+  'connection:reused': ConnectionReusedEvent;
+  'connection:failed': ConnectionFailedEvent;
+  'connection:retry': ConnectionRetryEvent;
+  'connection:closed': ConnectionClosedEvent;
+  'connection:evicted': ConnectionEvictedEvent;
+  'health:failed': HealthFailedEvent;
+  'health:passed': HealthPassedEvent;
+  'circuit:state-changed': CircuitStateChangedEvent;
+  'config:updated': ConfigUpdatedEvent;
 }
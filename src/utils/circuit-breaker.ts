@@ -0,0 +1,105 @@
+import { CircuitBreakerOptions, CircuitBreakerSnapshot, CircuitState } from '../types';
+
+/**
+ * Circuit breaker guarding the connection attempts of a single tenant.
+ *
+ * closed    - attempts pass; consecutive failures are counted
+ * open      - attempts are rejected until the cool-down has elapsed
+ * half-open - one trial attempt passes; success closes the circuit, failure opens it again
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures: number = 0;
+  private openedAt: number | null = null;
+  private trialInFlight: boolean = false;
+  private failureThreshold: number;
+  private cooldown: number;
+  private onStateChange: ((previous: CircuitState, next: CircuitState) => void) | undefined;
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    onStateChange?: (previous: CircuitState, next: CircuitState) => void
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldown = options.cooldown ?? 30000;
+    this.onStateChange = onStateChange;
+  }
+
+  /**
+   * Check whether an attempt may be made now; moves an expired open circuit to half-open
+   */
+  public tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - (this.openedAt ?? 0) < this.cooldown) {
+        return false;
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  /**
+   * Give back a half-open trial whose attempt ended without reaching the database
+   */
+  public releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  public recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    this.openedAt = null;
+
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  public recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Time until the next attempt is allowed (ms), 0 when attempts are allowed
+   */
+  public getRetryAfter(): number {
+    if (this.state !== 'open' || this.openedAt === null) {
+      return 0;
+    }
+
+    return Math.max(0, this.openedAt + this.cooldown - Date.now());
+  }
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+
+  public getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt),
+      retryAfter: this.getRetryAfter()
+    };
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.state;
+    this.state = next;
+    this.onStateChange?.(previous, next);
+  }
+}
@@ -0,0 +1,107 @@
+import { TimeoutError } from '../errors';
+
+/**
+ * Map items through an async function with at most `concurrency` calls in flight.
+ * Results keep the order of the input items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
+/**
+ * Call a listener once when a signal aborts (immediately if it already has). Returns a function that removes the listener.
+ */
+export function onAbort(signal: AbortSignal, listener: () => void): () => void {
+  if (signal.aborted) {
+    listener();
+    return () => undefined;
+  }
+
+  // The AbortSignal typings of Node 14 do not include EventTarget
+  const target = signal as unknown as {
+    addEventListener(type: 'abort', listener: () => void, options: { once: boolean }): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+  };
+  target.addEventListener('abort', listener, { once: true });
+  return () => target.removeEventListener('abort', listener);
+}
+
+/**
+ * Create an AbortController. Node 14 has no global AbortController, so there the signal is a minimal
+ * stand-in that has `aborted`, `reason`, `onabort` and the 'abort' event listeners.
+ */
+export function createAbortController(): AbortController {
+  if (typeof AbortController !== 'undefined') {
+    return new AbortController();
+  }
+
+  const listeners = new Set<(event: { type: 'abort' }) => void>();
+  const signal = {
+    aborted: false,
+    reason: undefined as unknown,
+    onabort: null as ((event: { type: 'abort' }) => void) | null,
+    addEventListener(type: string, listener: (event: { type: 'abort' }) => void) {
+      if (type === 'abort' && !signal.aborted) {
+        listeners.add(listener);
+      }
+    },
+    removeEventListener(type: string, listener: (event: { type: 'abort' }) => void) {
+      if (type === 'abort') {
+        listeners.delete(listener);
+      }
+    }
+  };
+
+  return {
+    signal,
+    abort(reason?: unknown) {
+      if (signal.aborted) return;
+
+      signal.aborted = true;
+      signal.reason = reason ?? new Error('This operation was aborted');
+      const event = { type: 'abort' as const };
+      signal.onabort?.(event);
+      // Listeners run once, like listeners added with { once: true }
+      const pending = Array.from(listeners);
+      listeners.clear();
+      pending.forEach((listener) => listener(event));
+    }
+  };
+}
+
+/**
+ * Reject with a TimeoutError if the promise does not settle within `timeout` ms
+ */
+export function withTimeout<T>(promise: Promise<T>, timeout: number, message: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new TimeoutError(message, timeout)), timeout);
+
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
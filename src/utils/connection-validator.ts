@@ -1,7 +1,18 @@
 import { ConnectorFactory } from '../factories/connector-factory';
-import { ConnectionOptions, DatabaseType, TenantConfig } from '../types';
+import { ConnectionOptions, DatabaseType, Logger, MongoDBCredentials, PostgreSQLCredentials, TenantConfig } from '../types';
+import { ConsoleLogger } from './logger';
+import { isValidTenantSetting } from './rls-policies';
 
 export class ConnectionValidator {
+  private static logger: Logger = new ConsoleLogger('ConnectionValidator');
+
+  /**
+   * Replace the logger used for validation warnings
+   */
+  public static setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
+
   /**
    * Validate tenant configuration
    */
@@ -69,6 +80,18 @@ export class ConnectionValidator {
         }
       }
 
+      if (options.maxRetryDelay !== undefined) {
+        if (typeof options.maxRetryDelay !== 'number' || options.maxRetryDelay < 0) {
+          throw new Error('maxRetryDelay must be a non-negative number');
+        }
+      }
+
+      if (options.retryBackoffFactor !== undefined) {
+        if (typeof options.retryBackoffFactor !== 'number' || options.retryBackoffFactor < 1) {
+          throw new Error('retryBackoffFactor must be a number greater than or equal to 1');
+        }
+      }
+
       return true;
     } catch (error) {
       throw new Error(`Invalid connection options: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -78,13 +101,13 @@ export class ConnectionValidator {
   /**
    * Validate MongoDB-specific credentials
    */
-  public static validateMongoDBCredentials(credentials: any): boolean {
+  public static validateMongoDBCredentials(credentials: MongoDBCredentials): boolean {
     try {
       // Basic validation is handled by validateTenantConfig
       // Additional MongoDB-specific validation can be added here
       
       if (credentials.port !== 27017 && credentials.port !== 27018 && credentials.port !== 27019) {
-        console.warn('Warning: Non-standard MongoDB port detected');
+        this.logger.warn('Non-standard MongoDB port detected', { port: credentials.port });
       }
 
       return true;
@@ -96,13 +119,25 @@ export class ConnectionValidator {
   /**
    * Validate PostgreSQL-specific credentials
    */
-  public static validatePostgreSQLCredentials(credentials: any): boolean {
+  public static validatePostgreSQLCredentials(credentials: PostgreSQLCredentials): boolean {
     try {
       // Basic validation is handled by validateTenantConfig
       // Additional PostgreSQL-specific validation can be added here
       
       if (credentials.port !== 5432 && credentials.port !== 5433) {
-        console.warn('Warning: Non-standard PostgreSQL port detected');
+        this.logger.warn('Non-standard PostgreSQL port detected', { port: credentials.port });
+      }
+
+      if (credentials.tenancy !== undefined && !['database', 'schema', 'rls'].includes(credentials.tenancy)) {
+        throw new Error(`Unsupported tenancy mode: ${credentials.tenancy}`);
+      }
+
+      if (credentials.tenancy === 'schema' && !credentials.schema) {
+        throw new Error('Schema-per-tenant mode requires a schema');
+      }
+
+      if (credentials.tenantSetting !== undefined && !isValidTenantSetting(credentials.tenantSetting)) {
+        throw new Error(`Invalid tenant setting: ${credentials.tenantSetting}`);
       }
 
       return true;
@@ -0,0 +1,129 @@
+import { LogLevel, LogMetadata, Logger } from '../types';
+
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+};
+
+/**
+ * Check if a message of the given level passes the configured minimum level
+ */
+export function isLogLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+  return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[minLevel];
+}
+
+/**
+ * Default logger writing to the console
+ */
+export class ConsoleLogger implements Logger {
+  private name: string;
+
+  constructor(name: string = 'MultiTenantManager') {
+    this.name = name;
+  }
+
+  public debug(message: string, meta?: LogMetadata): void {
+    console.debug(this.format('debug', message, meta));
+  }
+
+  public info(message: string, meta?: LogMetadata): void {
+    console.log(this.format('info', message, meta));
+  }
+
+  public warn(message: string, meta?: LogMetadata): void {
+    console.warn(this.format('warn', message, meta));
+  }
+
+  public error(message: string, meta?: LogMetadata): void {
+    console.error(this.format('error', message, meta));
+  }
+
+  private format(level: LogLevel, message: string, meta?: LogMetadata): string {
+    const timestamp = new Date().toISOString();
+    const logMessage = `[${this.name}] [${timestamp}] [${level.toUpperCase()}] ${message}`;
+
+    return meta && Object.keys(meta).length > 0 ? `${logMessage} ${JSON.stringify(meta)}` : logMessage;
+  }
+}
+
+/**
+ * Logger that discards everything
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+/**
+ * Wrap a logger so that messages below minLevel are dropped
+ */
+export function filterLogLevel(logger: Logger, minLevel: LogLevel): Logger {
+  const forward = (level: LogLevel) => (message: string, meta?: LogMetadata) => {
+    if (isLogLevelEnabled(level, minLevel)) {
+      logger[level](message, meta);
+    }
+  };
+
+  return {
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error')
+  };
+}
+
+/**
+ * Minimal shape of a pino logger: metadata object first, message second
+ */
+export interface PinoLikeLogger {
+  debug(obj: object, message?: string): void;
+  info(obj: object, message?: string): void;
+  warn(obj: object, message?: string): void;
+  error(obj: object, message?: string): void;
+}
+
+/**
+ * Minimal shape of a winston logger: message first, metadata second
+ */
+export interface WinstonLikeLogger {
+  debug(message: string, meta?: object): unknown;
+  info(message: string, meta?: object): unknown;
+  warn(message: string, meta?: object): unknown;
+  error(message: string, meta?: object): unknown;
+}
+
+/**
+ * Adapt a pino (or bunyan) style logger
+ */
+export function createPinoLoggerAdapter(pino: PinoLikeLogger): Logger {
+  return {
+    debug: (message, meta) => pino.debug(meta ?? {}, message),
+    info: (message, meta) => pino.info(meta ?? {}, message),
+    warn: (message, meta) => pino.warn(meta ?? {}, message),
+    error: (message, meta) => pino.error(meta ?? {}, message)
+  };
+}
+
+/**
+ * Adapt a winston style logger
+ */
+export function createWinstonLoggerAdapter(winston: WinstonLikeLogger): Logger {
+  const forward = (level: LogLevel) => (message: string, meta?: LogMetadata) => {
+    if (meta) {
+      winston[level](message, meta);
+    } else {
+      winston[level](message);
+    }
+  };
+
+  return {
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error')
+  };
+}
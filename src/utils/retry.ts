@@ -0,0 +1,119 @@
+import { ConnectionOptions, RetryAttempt } from '../types';
+
+export interface RetryPolicy {
+  retryAttempts: number;
+  retryDelay: number;
+  maxRetryDelay: number;
+  backoffFactor: number;
+  jitter: boolean;
+  isRetryable: (error: unknown) => boolean;
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+// PostgreSQL SQLSTATE codes that will not go away by retrying
+const FATAL_POSTGRESQL_CODES = new Set([
+  '28000', // invalid_authorization_specification
+  '28P01', // invalid_password
+  '3D000', // invalid_catalog_name (database does not exist)
+  '42501'  // insufficient_privilege
+]);
+
+// MongoDB server error codes that will not go away by retrying
+const FATAL_MONGODB_CODES = new Set([
+  13, // Unauthorized
+  18  // AuthenticationFailed
+]);
+
+const FATAL_ERROR_NAMES = new Set(['MongoParseError', 'MongoAPIError']);
+
+const FATAL_MESSAGE_PATTERN = /authentication failed|password authentication|bad auth|not authorized|does not exist/i;
+
+/**
+ * Decide whether a connection error is worth retrying.
+ * Authentication, authorization and configuration errors are fatal, everything else is assumed transient.
+ */
+export function isRetryableConnectionError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return true;
+  }
+
+  const { code, codeName, name, message } = error as Record<string, unknown>;
+
+  if (typeof code === 'string' && FATAL_POSTGRESQL_CODES.has(code)) {
+    return false;
+  }
+
+  if (typeof code === 'number' && FATAL_MONGODB_CODES.has(code)) {
+    return false;
+  }
+
+  if (codeName === 'AuthenticationFailed' || codeName === 'Unauthorized') {
+    return false;
+  }
+
+  if (typeof name === 'string' && FATAL_ERROR_NAMES.has(name)) {
+    return false;
+  }
+
+  if (typeof message === 'string' && FATAL_MESSAGE_PATTERN.test(message)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Build a retry policy from connection options
+ */
+export function createRetryPolicy(options: ConnectionOptions = {}): RetryPolicy {
+  const policy: RetryPolicy = {
+    retryAttempts: options.retryAttempts ?? 0,
+    retryDelay: options.retryDelay ?? 1000,
+    maxRetryDelay: options.maxRetryDelay ?? 30000,
+    backoffFactor: options.retryBackoffFactor ?? 2,
+    jitter: options.retryJitter ?? true,
+    isRetryable: isRetryableConnectionError
+  };
+
+  if (options.onRetry) {
+    policy.onRetry = options.onRetry;
+  }
+
+  return policy;
+}
+
+/**
+ * Compute the delay before the next attempt using exponential backoff capped at maxRetryDelay.
+ * With jitter enabled the delay is drawn uniformly from [0, delay] ("full jitter").
+ */
+export function computeRetryDelay(failedAttempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = policy.retryDelay * Math.pow(policy.backoffFactor, failedAttempt - 1);
+  const capped = Math.min(exponential, policy.maxRetryDelay);
+
+  return policy.jitter ? Math.round(capped * random()) : capped;
+}
+
+/**
+ * Run an operation, retrying transient failures according to the policy
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, policy: RetryPolicy): Promise<T> {
+  const maxAttempts = policy.retryAttempts + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || !policy.isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = computeRetryDelay(attempt, policy);
+      policy.onRetry?.({ attempt, maxAttempts, delay, error });
+      await sleep(delay);
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
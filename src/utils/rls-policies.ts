@@ -0,0 +1,116 @@
+import { quoteIdentifier, quoteLiteral } from './sql';
+
+/**
+ * Session setting the RLS tenancy mode sets to the tenant ID on every checkout
+ */
+export const DEFAULT_TENANT_SETTING = 'app.current_tenant';
+
+const TENANT_SETTING_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\.[A-Za-z_][A-Za-z0-9_]*$/;
+const COLUMN_TYPE_PATTERN = /^[A-Za-z][A-Za-z0-9_ ]*$/;
+
+/**
+ * A table whose rows are filtered by tenant
+ */
+export interface RlsTableDefinition {
+  table: string;
+  schema?: string;
+  tenantColumn?: string;   // Default: 'tenant_id'
+  columnType?: string;     // Type the setting is cast to for the comparison, e.g. 'uuid'. Default: text
+  policyName?: string;     // Default: 'tenant_isolation'
+}
+
+export interface RlsPolicyOptions {
+  tenantSetting?: string;  // Default: 'app.current_tenant'
+  role?: string;           // Role the policy applies to. Default: PUBLIC
+  force?: boolean;         // Also filter the table owner (FORCE ROW LEVEL SECURITY). Default: true
+}
+
+/**
+ * Check that a name can be used as a custom PostgreSQL setting (it needs a prefix, e.g. app.current_tenant)
+ */
+export function isValidTenantSetting(setting: string): boolean {
+  return TENANT_SETTING_PATTERN.test(setting);
+}
+
+/**
+ * Generate the statements that enable RLS on a table and (re)create its tenant isolation policy.
+ * The statements are idempotent, so they can run on every deployment.
+ */
+export function generateRlsPolicy(definition: RlsTableDefinition, options: RlsPolicyOptions = {}): string[] {
+  const tenantSetting = options.tenantSetting ?? DEFAULT_TENANT_SETTING;
+  if (!isValidTenantSetting(tenantSetting)) {
+    throw new Error(`Invalid tenant setting: ${tenantSetting}`);
+  }
+  if (definition.columnType !== undefined && !COLUMN_TYPE_PATTERN.test(definition.columnType)) {
+    throw new Error(`Invalid column type: ${definition.columnType}`);
+  }
+
+  const table = definition.schema
+    ? `${quoteIdentifier(definition.schema)}.${quoteIdentifier(definition.table)}`
+    : quoteIdentifier(definition.table);
+  const policy = quoteIdentifier(definition.policyName ?? 'tenant_isolation');
+  const role = options.role ? quoteIdentifier(options.role) : 'PUBLIC';
+
+  // Outside a tenant checkout the setting is unset or empty, which matches no rows
+  const setting = `NULLIF(current_setting(${quoteLiteral(tenantSetting)}, true), '')`;
+  const currentTenant = definition.columnType ? `${setting}::${definition.columnType}` : setting;
+  const condition = `${quoteIdentifier(definition.tenantColumn ?? 'tenant_id')} = ${currentTenant}`;
+
+  const statements = [`ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY`];
+  if (options.force ?? true) {
+    statements.push(`ALTER TABLE ${table} FORCE ROW LEVEL SECURITY`);
+  }
+  statements.push(
+    `DROP POLICY IF EXISTS ${policy} ON ${table}`,
+    `CREATE POLICY ${policy} ON ${table} TO ${role} USING (${condition}) WITH CHECK (${condition})`
+  );
+
+  return statements;
+}
+
+/**
+ * Tables that share rows between tenants, for generating and applying their RLS policies
+ */
+export class RlsPolicyRegistry {
+  private tables: Map<string, RlsTableDefinition> = new Map();
+
+  /**
+   * Register a table by name or definition; registering the same table again replaces it
+   */
+  public register(table: string | RlsTableDefinition): this {
+    const definition = typeof table === 'string' ? { table } : table;
+    this.tables.set(this.getKey(definition), definition);
+    return this;
+  }
+
+  /**
+   * Remove a table from the registry
+   */
+  public unregister(table: string, schema?: string): boolean {
+    return this.tables.delete(this.getKey(schema ? { table, schema } : { table }));
+  }
+
+  public getTables(): RlsTableDefinition[] {
+    return Array.from(this.tables.values());
+  }
+
+  /**
+   * Generate the RLS statements for every registered table
+   */
+  public generatePolicies(options: RlsPolicyOptions = {}): string[] {
+    return this.getTables().reduce<string[]>((statements, definition) => statements.concat(generateRlsPolicy(definition, options)), []);
+  }
+
+  /**
+   * Apply the RLS statements for every registered table, in order, through a TypeORM connection or query runner
+   */
+  public async applyPolicies(executor: { query(sql: string): Promise<unknown> }, options: RlsPolicyOptions = {}): Promise<void> {
+    for (const statement of this.generatePolicies(options)) {
+      await executor.query(statement);
+    }
+  }
+
+  private getKey(definition: RlsTableDefinition): string {
+    return definition.schema ? `${definition.schema}.${definition.table}` : definition.table;
+  }
+}
@@ -0,0 +1,72 @@
+interface SharedConnectionEntry<T> {
+  connection: Promise<T>;
+  refs: number;
+}
+
+/**
+ * Reference-counted registry of connections shared by several tenants.
+ * The first acquire for a key opens the connection, the last release closes it.
+ */
+export class SharedConnectionRegistry<T> {
+  private entries: Map<string, SharedConnectionEntry<T>> = new Map();
+  private close: (connection: T, key: string) => Promise<void>;
+
+  constructor(close: (connection: T, key: string) => Promise<void>) {
+    this.close = close;
+  }
+
+  /**
+   * Get the shared connection for a key, opening it with `open` if this is its first user
+   */
+  public async acquire(key: string, open: () => Promise<T>): Promise<T> {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      const newEntry: SharedConnectionEntry<T> = { connection: open(), refs: 0 };
+      // A failed open must not be handed to later callers
+      newEntry.connection.catch(() => {
+        if (this.entries.get(key) === newEntry) {
+          this.entries.delete(key);
+        }
+      });
+      this.entries.set(key, newEntry);
+      entry = newEntry;
+    }
+
+    entry.refs++;
+    try {
+      return await entry.connection;
+    } catch (error) {
+      entry.refs--;
+      throw error;
+    }
+  }
+
+  /**
+   * Drop one user of a shared connection, closing it after its last user is gone
+   */
+  public async release(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    entry.refs--;
+    if (entry.refs > 0) return;
+
+    this.entries.delete(key);
+    await this.close(await entry.connection, key);
+  }
+
+  /**
+   * Number of tenants using the shared connection for a key
+   */
+  public getRefCount(key: string): number {
+    return this.entries.get(key)?.refs ?? 0;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
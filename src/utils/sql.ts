@@ -0,0 +1,16 @@
+/**
+ * Quote a PostgreSQL identifier (schema, table, role), escaping embedded double quotes
+ */
+export function quoteIdentifier(identifier: string): string {
+  if (!identifier) {
+    throw new Error('Identifier must be a non-empty string');
+  }
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a PostgreSQL string literal, escaping embedded single quotes
+ */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,2 @@
+// Strapi plugin entry point: resolve this package from config/plugins to enable the multi-tenant plugin
+module.exports = require('./dist/strapi').default;
@@ -0,0 +1,85 @@
+/// <reference types="jest" />
+
+import { TimeoutError } from '../src/errors';
+import { createAbortController, mapWithConcurrency, onAbort, withTimeout } from '../src/utils/concurrency';
+
+describe('Concurrency', () => {
+  describe('mapWithConcurrency', () => {
+    it('should preserve the order of the input items', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 3, async (delay) => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return delay * 2;
+      });
+
+      expect(results).toEqual([60, 20, 40]);
+    });
+
+    it('should never exceed the concurrency limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+      });
+
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should handle an empty list', async () => {
+      await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+    });
+  });
+
+  describe('withTimeout', () => {
+    it('should resolve with the value of a fast promise', async () => {
+      await expect(withTimeout(Promise.resolve('ok'), 50, 'Fast call')).resolves.toBe('ok');
+    });
+
+    it('should reject with a TimeoutError when the promise hangs', async () => {
+      const pending = withTimeout(new Promise(() => undefined), 10, 'Slow call');
+
+      await expect(pending).rejects.toBeInstanceOf(TimeoutError);
+      await expect(pending).rejects.toThrow('Slow call timed out after 10ms');
+    });
+  });
+
+  describe('createAbortController', () => {
+    const globals = globalThis as { AbortController?: typeof AbortController | undefined };
+    const nativeAbortController = globals.AbortController;
+
+    afterEach(() => {
+      globals.AbortController = nativeAbortController;
+    });
+
+    it('should use the global AbortController when there is one', () => {
+      const GlobalAbortController = jest.fn();
+      globals.AbortController = GlobalAbortController as unknown as typeof AbortController;
+
+      expect(createAbortController()).toBeInstanceOf(GlobalAbortController);
+    });
+
+    it('should fall back to a signal that works with onAbort without a global AbortController', () => {
+      // Node 14 has no global AbortController
+      delete globals.AbortController;
+      const controller = createAbortController();
+      const first = jest.fn();
+      const removed = jest.fn();
+
+      onAbort(controller.signal, first);
+      onAbort(controller.signal, removed)();
+      controller.abort();
+      controller.abort();
+
+      expect(controller.signal.aborted).toBe(true);
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(removed).not.toHaveBeenCalled();
+
+      const late = jest.fn();
+      onAbort(controller.signal, late);
+      expect(late).toHaveBeenCalledTimes(1);
+    });
+  });
+});
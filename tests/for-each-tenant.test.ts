@@ -0,0 +1,116 @@
+/// <reference types="jest" />
+
+import { TimeoutError } from '../src/errors';
+import { PostgreSQLConnector } from '../src/connectors/postgresql-connector';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { InMemoryTenantConfigProvider } from '../src/providers';
+import { DatabaseType, PostgreSQLCredentials, TenantConfig } from '../src/types';
+import { createAbortController } from '../src/utils/concurrency';
+
+jest.mock('../src/connectors/postgresql-connector');
+
+const tenant = (tenantId: string): TenantConfig => ({
+  tenantId,
+  databaseType: DatabaseType.POSTGRESQL,
+  credentials: { host: 'localhost', port: 5432, username: tenantId, password: 'secret', database: `${tenantId}_db` } as PostgreSQLCredentials
+});
+
+describe('forEachTenant', () => {
+  let manager: MultiTenantManager;
+  let disconnects: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    disconnects = [];
+
+    (PostgreSQLConnector as unknown as jest.Mock).mockImplementation((credentials: PostgreSQLCredentials) => ({
+      connect: jest.fn().mockResolvedValue({ isConnected: true, database: credentials.database, query: jest.fn().mockResolvedValue([]) }),
+      ping: jest.fn().mockResolvedValue(true),
+      disconnect: jest.fn(async () => { disconnects.push(credentials.database); })
+    }));
+
+    manager = new MultiTenantManager({
+      enableLogging: false,
+      tenantConfigProvider: new InMemoryTenantConfigProvider(['acme', 'globex', 'initech', 'umbrella'].map(tenant))
+    });
+  });
+
+  it('should run the task for every listed tenant with bounded concurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const report = await manager.forEachTenant(async (connection, { tenantId }) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return `${tenantId}:${connection.database}`;
+    }, { concurrency: 2 });
+
+    expect(maxRunning).toBe(2);
+    expect(report).toMatchObject({ total: 4, fulfilled: 4, rejected: 0, skipped: 0, aborted: false });
+    expect(report.results.map((result) => result.value)).toEqual(['acme:acme_db', 'globex:globex_db', 'initech:initech_db', 'umbrella:umbrella_db']);
+    expect(manager.getConnectionInfo('acme')?.inUse).toBe(0);
+  });
+
+  it('should skip the remaining tenants after a failure unless continueOnError is set', async () => {
+    const task = async (_connection: any, { tenantId }: { tenantId: string }) => {
+      if (tenantId === 'globex') throw new Error('report query failed');
+      return tenantId;
+    };
+
+    const stopped = await manager.forEachTenant(task, { concurrency: 1 });
+    expect(stopped.results.map((result) => result.status)).toEqual(['fulfilled', 'rejected', 'skipped', 'skipped']);
+    expect((stopped.results[1].error as Error).message).toBe('report query failed');
+
+    const completed = await manager.forEachTenant(task, { concurrency: 1, continueOnError: true });
+    expect(completed).toMatchObject({ fulfilled: 3, rejected: 1, skipped: 0 });
+  });
+
+  it('should fail tenants whose task exceeds timeoutPerTenant and abort their signal', async () => {
+    const signals: AbortSignal[] = [];
+
+    const report = await manager.forEachTenant((_connection, { tenantId, signal }) => {
+      signals.push(signal);
+      return tenantId === 'initech' ? new Promise<string>(() => undefined) : Promise.resolve(tenantId);
+    }, { tenantIds: ['acme', 'initech'], timeoutPerTenant: 20 });
+
+    expect(report.results[0]).toMatchObject({ status: 'fulfilled', value: 'acme' });
+    expect(report.results[1].status).toBe('rejected');
+    expect(report.results[1].error).toBeInstanceOf(TimeoutError);
+    expect(signals[1].aborted).toBe(true);
+  });
+
+  it('should stop starting tenants when the signal aborts', async () => {
+    const controller = createAbortController();
+
+    const report = await manager.forEachTenant(async (_connection, { tenantId, signal }) => {
+      controller.abort();
+      expect(signal.aborted).toBe(true);
+      return tenantId;
+    }, { concurrency: 1, signal: controller.signal });
+
+    expect(report).toMatchObject({ fulfilled: 1, skipped: 3, aborted: true });
+
+    const task = jest.fn();
+    const preAborted = await manager.forEachTenant(task, { signal: controller.signal });
+    expect(preAborted.skipped).toBe(4);
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should close only the connections it opened when closeOpenedConnections is set', async () => {
+    await manager.getConnection('acme');
+
+    await manager.forEachTenant(async () => 'ok', { tenantIds: ['acme', 'globex', 'initech'], closeOpenedConnections: true });
+
+    expect(disconnects.sort()).toEqual(['globex_db', 'initech_db']);
+    expect(manager.hasConnection('acme')).toBe(true);
+    expect(manager.hasConnection('globex')).toBe(false);
+  });
+
+  it('should require tenant IDs when the provider cannot list tenants', async () => {
+    manager.setTenantConfigProvider({ getTenantConfig: async () => undefined });
+
+    await expect(manager.forEachTenant(async () => undefined)).rejects.toThrow('Pass tenantIds');
+  });
+});
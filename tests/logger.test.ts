@@ -0,0 +1,73 @@
+/// <reference types="jest" />
+
+import { Logger } from '../src/types';
+import {
+    ConsoleLogger,
+    createPinoLoggerAdapter,
+    createWinstonLoggerAdapter,
+    filterLogLevel
+} from '../src/utils/logger';
+
+describe('Logger', () => {
+  const createMockLogger = (): jest.Mocked<Logger> => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  });
+
+  describe('filterLogLevel', () => {
+    it('should drop messages below the minimum level', () => {
+      const logger = createMockLogger();
+      const filtered = filterLogLevel(logger, 'warn');
+
+      filtered.debug('debug message');
+      filtered.info('info message');
+      filtered.warn('warn message', { tenantId: 'tenant1' });
+      filtered.error('error message');
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.info).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith('warn message', { tenantId: 'tenant1' });
+      expect(logger.error).toHaveBeenCalledWith('error message', undefined);
+    });
+  });
+
+  describe('ConsoleLogger', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should prefix messages and append metadata', () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      new ConsoleLogger('Test').warn('Something happened', { tenantId: 'tenant1' });
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[Test\] \[.+\] \[WARN\] Something happened \{"tenantId":"tenant1"\}$/)
+      );
+    });
+  });
+
+  describe('adapters', () => {
+    it('should pass metadata first to pino-style loggers', () => {
+      const pino = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+      createPinoLoggerAdapter(pino).info('Connected', { tenantId: 'tenant1' });
+      createPinoLoggerAdapter(pino).error('Failed');
+
+      expect(pino.info).toHaveBeenCalledWith({ tenantId: 'tenant1' }, 'Connected');
+      expect(pino.error).toHaveBeenCalledWith({}, 'Failed');
+    });
+
+    it('should pass the message first to winston-style loggers', () => {
+      const winston = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+      createWinstonLoggerAdapter(winston).warn('Retrying', { attempt: 1 });
+      createWinstonLoggerAdapter(winston).debug('Checking');
+
+      expect(winston.warn).toHaveBeenCalledWith('Retrying', { attempt: 1 });
+      expect(winston.debug).toHaveBeenCalledWith('Checking');
+    });
+  });
+});
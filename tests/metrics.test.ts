@@ -0,0 +1,127 @@
+/// <reference types="jest" />
+
+import { MetricsRegistry, MultiTenantMetrics } from '../src/metrics';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { DatabaseType } from '../src/types';
+
+describe('Metrics', () => {
+  describe('MetricsRegistry', () => {
+    it('should render counters with escaped labels', () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.counter('requests_total', 'Requests');
+
+      counter.inc({ tenant: 'a"b' });
+      counter.inc({ tenant: 'a"b' }, 2);
+
+      expect(registry.render()).toBe([
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{tenant="a\\"b"} 3',
+        ''
+      ].join('\n'));
+    });
+
+    it('should render cumulative histogram buckets', () => {
+      const registry = new MetricsRegistry();
+      const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+
+      histogram.observe({}, 0.05);
+      histogram.observe({}, 0.5);
+      histogram.observe({}, 2);
+
+      const output = registry.render();
+      expect(output).toContain('latency_seconds_bucket{le="0.1"} 1');
+      expect(output).toContain('latency_seconds_bucket{le="1"} 2');
+      expect(output).toContain('latency_seconds_bucket{le="+Inf"} 3');
+      expect(output).toContain('latency_seconds_sum 2.55');
+      expect(output).toContain('latency_seconds_count 3');
+    });
+
+    it('should reject duplicate metric names', () => {
+      const registry = new MetricsRegistry();
+      registry.counter('requests_total', 'Requests');
+
+      expect(() => registry.counter('requests_total', 'Requests')).toThrow('Metric already registered');
+    });
+  });
+
+  describe('MultiTenantMetrics', () => {
+    let manager: MultiTenantManager;
+
+    const created = (tenantId: string) => manager.emit('connection:created', {
+      tenantId,
+      databaseType: DatabaseType.POSTGRESQL,
+      timestamp: new Date(),
+      duration: 120
+    });
+
+    beforeEach(() => {
+      manager = new MultiTenantManager({ enableLogging: false });
+    });
+
+    it('should track manager events per tenant and database type', () => {
+      const metrics = new MultiTenantMetrics(manager);
+
+      created('tenant1');
+      manager.emit('connection:failed', { tenantId: 'tenant2', timestamp: new Date(), duration: 5, error: new Error('down') });
+      manager.emit('connection:closed', {
+        tenantId: 'tenant1',
+        databaseType: DatabaseType.POSTGRESQL,
+        timestamp: new Date(),
+        reason: 'idle',
+        duration: 1,
+        lifetime: 1000
+      });
+
+      const output = metrics.render();
+      expect(output).toContain('multitenant_connections_created_total{database_type="postgresql",tenant="tenant1"} 1');
+      expect(output).toContain('multitenant_connection_failures_total{database_type="unknown",tenant="tenant2"} 1');
+      expect(output).toContain('multitenant_connections_closed_total{database_type="postgresql",tenant="tenant1",reason="idle"} 1');
+      expect(output).toContain('multitenant_connect_duration_seconds_count{database_type="postgresql"} 1');
+      expect(output).toContain('multitenant_open_pools{database_type="postgresql"} 0');
+    });
+
+    it('should record the latency of passed and failed health checks', () => {
+      const metrics = new MultiTenantMetrics(manager);
+
+      manager.emit('health:passed', { tenantId: 'tenant1', databaseType: DatabaseType.POSTGRESQL, timestamp: new Date(), duration: 3 });
+      manager.emit('health:failed', { tenantId: 'tenant2', databaseType: DatabaseType.POSTGRESQL, timestamp: new Date(), duration: 5000 });
+
+      const output = metrics.render();
+      expect(output).toContain('multitenant_health_check_duration_seconds_count{database_type="postgresql"} 2');
+      expect(output).toContain('multitenant_health_check_failures_total{database_type="postgresql",tenant="tenant2"} 1');
+    });
+
+    it('should fold tenants beyond the cardinality limit', () => {
+      const metrics = new MultiTenantMetrics(manager, { maxTenantLabelValues: 2 });
+
+      created('tenant1');
+      created('tenant2');
+      created('tenant3');
+      created('tenant4');
+
+      const output = metrics.render();
+      expect(output).toContain('tenant="tenant2"} 1');
+      expect(output).toContain('tenant="__other__"} 2');
+    });
+
+    it('should support dropping or mapping the tenant label', () => {
+      const withoutTenant = new MultiTenantMetrics(manager, { prefix: 'a_', tenantLabel: false });
+      const mapped = new MultiTenantMetrics(manager, { prefix: 'b_', tenantLabelMapper: () => 'enterprise' });
+
+      created('tenant1');
+
+      expect(withoutTenant.render()).toContain('a_connections_created_total{database_type="postgresql"} 1');
+      expect(mapped.render()).toContain('b_connections_created_total{database_type="postgresql",tenant="enterprise"} 1');
+    });
+
+    it('should stop counting once detached', () => {
+      const metrics = new MultiTenantMetrics(manager);
+
+      metrics.detach();
+      created('tenant1');
+
+      expect(metrics.render()).not.toContain('multitenant_connections_created_total{');
+    });
+  });
+});
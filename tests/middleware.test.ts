@@ -0,0 +1,268 @@
+/// <reference types="jest" />
+
+import { EventEmitter } from 'events';
+import { createServer, get, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { CircuitOpenError, ConnectionBudgetExceededError, TenantNotFoundError } from '../src/errors';
+import {
+    createFastifyTenantHook,
+    createKoaTenantMiddleware,
+    createTenantMiddleware,
+    TenantIncomingMessage,
+    TenantRequestInfo,
+    tenantFromHeader,
+    tenantFromJwtClaim,
+    tenantFromPath,
+    tenantFromQuery,
+    tenantFromSubdomain
+} from '../src/middleware';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { InMemoryTenantConfigProvider } from '../src/providers';
+import { DatabaseType, MongoDBCredentials } from '../src/types';
+
+jest.mock('../src/connectors/mongodb-connector');
+
+describe('Tenant Middleware', () => {
+  const connection = { name: 'acme_connection' };
+  let manager: MultiTenantManager;
+  let release: jest.Mock;
+
+  const requestInfo = (overrides: Partial<TenantRequestInfo> = {}): TenantRequestInfo => ({
+    headers: {},
+    host: 'localhost',
+    path: '/',
+    query: new URLSearchParams(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    manager = new MultiTenantManager({ enableLogging: false });
+    release = jest.fn();
+    jest.spyOn(manager, 'acquireConnection').mockImplementation(async (tenantId: string) => {
+      if (tenantId === 'acme') return { tenantId, connection, release };
+      if (tenantId === 'down') throw new CircuitOpenError('down', 2500);
+      throw new TenantNotFoundError(tenantId);
+    });
+  });
+
+  describe('Resolvers', () => {
+    it('should read the tenant from a header', () => {
+      expect(tenantFromHeader()(requestInfo({ headers: { 'x-tenant-id': ' acme ' } }))).toBe('acme');
+      expect(tenantFromHeader('X-Org')(requestInfo({ headers: { 'x-org': 'acme' } }))).toBe('acme');
+      expect(tenantFromHeader()(requestInfo())).toBeUndefined();
+    });
+
+    it('should read the tenant from the subdomain', () => {
+      const resolver = tenantFromSubdomain({ baseDomain: 'example.com' });
+
+      expect(resolver(requestInfo({ host: 'acme.example.com' }))).toBe('acme');
+      expect(resolver(requestInfo({ host: 'www.example.com' }))).toBeUndefined();
+      expect(resolver(requestInfo({ host: 'a.b.example.com' }))).toBeUndefined();
+      expect(resolver(requestInfo({ host: 'example.com' }))).toBeUndefined();
+      expect(tenantFromSubdomain()(requestInfo({ host: 'acme.example.org' }))).toBe('acme');
+    });
+
+    it('should read the tenant from the path', () => {
+      expect(tenantFromPath()(requestInfo({ path: '/acme/users' }))).toBe('acme');
+      expect(tenantFromPath('/tenants')(requestInfo({ path: '/tenants/acme/users' }))).toBe('acme');
+      expect(tenantFromPath('/tenants')(requestInfo({ path: '/tenantsx/acme' }))).toBeUndefined();
+    });
+
+    it('should read the tenant from the query string', () => {
+      expect(tenantFromQuery()(requestInfo({ query: new URLSearchParams('tenant=acme') }))).toBe('acme');
+      expect(tenantFromQuery('org')(requestInfo({ query: new URLSearchParams('tenant=acme') }))).toBeUndefined();
+    });
+
+    it('should read the tenant from decoded or verified JWT claims', async () => {
+      await expect(tenantFromJwtClaim()(requestInfo({ user: { tenantId: 'acme' } }))).resolves.toBe('acme');
+      await expect(tenantFromJwtClaim({ claim: 'org.id' })(requestInfo({ user: { org: { id: 42 } } }))).resolves.toBe('42');
+
+      const verify = jest.fn().mockResolvedValue({ tenantId: 'acme' });
+      const resolver = tenantFromJwtClaim({ verify });
+
+      await expect(resolver(requestInfo({ headers: { authorization: 'Bearer token123' } }))).resolves.toBe('acme');
+      expect(verify).toHaveBeenCalledWith('token123');
+      await expect(resolver(requestInfo({ user: { tenantId: 'acme' } }))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('Node http / Express', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    const request = (path: string, headers: IncomingHttpHeaders = {}) => new Promise<{ status: number; headers: IncomingHttpHeaders; body: any }>((resolve, reject) => {
+      get(`${baseUrl}${path}`, { headers: headers as Record<string, string> }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => { body += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: JSON.parse(body) }));
+      }).on('error', reject);
+    });
+
+    beforeEach(async () => {
+      const middleware = createTenantMiddleware(manager, { resolvers: [tenantFromHeader(), tenantFromQuery()] });
+
+      server = createServer((req: TenantIncomingMessage, res) => {
+        middleware(req, res, () => {
+          res.end(JSON.stringify({
+            tenantId: req.tenantId,
+            connection: req.tenantConnection,
+            currentTenant: manager.currentTenant()
+          }));
+        });
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should attach the tenant connection and run in the tenant context', async () => {
+      const response = await request('/users?tenant=acme');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tenantId: 'acme', connection, currentTenant: 'acme' });
+      expect(release).toHaveBeenCalled();
+    });
+
+    it('should respond with 400 when the tenant is missing or invalid', async () => {
+      expect(await request('/users')).toMatchObject({ status: 400, body: { error: 'Bad Request' } });
+      expect(await request('/users', { 'x-tenant-id': '../etc' })).toMatchObject({ status: 400, body: { message: 'Invalid tenant ID' } });
+    });
+
+    it('should respond with 404 for unknown tenants', async () => {
+      const response = await request('/users', { 'x-tenant-id': 'unknown' });
+
+      expect(response).toMatchObject({ status: 404, body: { statusCode: 404, error: 'Not Found', message: 'Tenant not found: unknown' } });
+    });
+
+    it('should respond with 503 and Retry-After when the database is unavailable', async () => {
+      const response = await request('/users', { 'x-tenant-id': 'down' });
+
+      expect(response.status).toBe(503);
+      expect(response.headers['retry-after']).toBe('3');
+    });
+  });
+
+  describe('Koa', () => {
+    const createContext = (headers: IncomingHttpHeaders) => ({
+      headers,
+      hostname: 'localhost',
+      originalUrl: '/users',
+      state: {} as Record<string, any>,
+      status: 404,
+      body: undefined as unknown,
+      set: jest.fn()
+    });
+
+    it('should set the tenant on ctx.state and run downstream in the tenant context', async () => {
+      const ctx = createContext({ 'x-tenant-id': 'acme' });
+      let currentTenant: string | undefined;
+
+      await createKoaTenantMiddleware(manager)(ctx, async () => {
+        currentTenant = manager.currentTenant();
+      });
+
+      expect(ctx.state).toEqual({ tenantId: 'acme', tenantConnection: connection });
+      expect(currentTenant).toBe('acme');
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the connection when downstream throws', async () => {
+      const ctx = createContext({ 'x-tenant-id': 'acme' });
+
+      await expect(createKoaTenantMiddleware(manager)(ctx, async () => {
+        throw new Error('handler failed');
+      })).rejects.toThrow('handler failed');
+
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should respond with an error status without calling downstream', async () => {
+      const ctx = createContext({ 'x-tenant-id': 'down' });
+      const next = jest.fn();
+
+      await createKoaTenantMiddleware(manager)(ctx, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(ctx.status).toBe(503);
+      expect(ctx.set).toHaveBeenCalledWith('Retry-After', '3');
+    });
+  });
+
+  describe('Fastify', () => {
+    const createReply = () => {
+      const reply = { raw: new EventEmitter(), code: jest.fn(), header: jest.fn(), send: jest.fn() };
+      reply.code.mockReturnValue(reply);
+      reply.header.mockReturnValue(reply);
+      reply.send.mockReturnValue(reply);
+      return reply;
+    };
+
+    it('should set the tenant on the request', async () => {
+      const request: any = { headers: {}, hostname: 'acme.example.com:3000', url: '/users' };
+      const reply = createReply();
+
+      await createFastifyTenantHook(manager, { resolvers: [tenantFromSubdomain({ baseDomain: 'example.com' })] })(request, reply);
+
+      expect(request.tenantId).toBe('acme');
+      expect(request.tenantConnection).toBe(connection);
+      expect(reply.send).not.toHaveBeenCalled();
+      expect(release).not.toHaveBeenCalled();
+
+      reply.raw.emit('finish');
+      expect(release).toHaveBeenCalled();
+    });
+
+    it('should reply with 404 for unknown tenants', async () => {
+      const reply = createReply();
+
+      await createFastifyTenantHook(manager)({ headers: { 'x-tenant-id': 'unknown' }, hostname: 'localhost', url: '/' }, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(reply.send).toHaveBeenCalledWith({ statusCode: 404, error: 'Not Found', message: 'Tenant not found: unknown' });
+    });
+  });
+
+  describe('Connection leases', () => {
+    const createBudgetManager = () => new MultiTenantManager({
+      enableLogging: false,
+      tenantConfigProvider: new InMemoryTenantConfigProvider(['tenant_a', 'tenant_b'].map((tenantId) => ({
+        tenantId,
+        databaseType: DatabaseType.MONGODB,
+        credentials: { host: 'localhost', port: 27017, database: `${tenantId}_db` } as MongoDBCredentials
+      }))),
+      connectionBudget: { maxPools: 1 }
+    });
+
+    beforeEach(() => {
+      const { MongoDBConnector } = require('../src/connectors/mongodb-connector');
+      MongoDBConnector.mockImplementation(() => ({
+        connect: jest.fn().mockResolvedValue({ close: jest.fn() }),
+        disconnect: jest.fn().mockResolvedValue(undefined)
+      }));
+    });
+
+    it('should not let eviction take the connection of a request in flight', async () => {
+      const budgetManager = createBudgetManager();
+      const ctx = { headers: { 'x-tenant-id': 'tenant_a' }, hostname: 'localhost', originalUrl: '/', state: {}, status: 404, body: undefined, set: jest.fn() };
+      let finishRequest!: () => void;
+
+      const handled = createKoaTenantMiddleware(budgetManager)(ctx, () => new Promise<void>((resolve) => { finishRequest = resolve; }));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      await expect(budgetManager.getConnection('tenant_b')).rejects.toBeInstanceOf(ConnectionBudgetExceededError);
+      expect(budgetManager.hasConnection('tenant_a')).toBe(true);
+      expect(budgetManager.getConnectionInfo('tenant_a')?.inUse).toBe(1);
+
+      finishRequest();
+      await handled;
+
+      expect(budgetManager.getConnectionInfo('tenant_a')?.inUse).toBe(0);
+      await expect(budgetManager.getConnection('tenant_b')).resolves.toBeDefined();
+      expect(budgetManager.hasConnection('tenant_a')).toBe(false);
+    });
+  });
+});
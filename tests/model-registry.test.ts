@@ -0,0 +1,178 @@
+/// <reference types="jest" />
+
+import mongoose, { Schema } from 'mongoose';
+import { MongoDBConnector } from '../src/connectors/mongodb-connector';
+import { PostgreSQLConnector } from '../src/connectors/postgresql-connector';
+import { PostgreSQLSharedPoolConnector } from '../src/connectors/postgresql-shared-pool-connector';
+import { ModelRegistry } from '../src/models';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { InMemoryTenantConfigProvider } from '../src/providers';
+import { DatabaseType, MongoDBCredentials, PostgreSQLCredentials, TenantConfig } from '../src/types';
+
+jest.mock('../src/connectors/mongodb-connector');
+jest.mock('../src/connectors/postgresql-connector');
+
+class User {}
+class Invoice {}
+class AuditSubscriber {}
+
+const userSchema = new Schema({ name: String });
+const invoiceSchema = new Schema({ total: Number });
+
+const pgTenant = (tenantId: string, group?: string, credentials: Partial<PostgreSQLCredentials> = {}): TenantConfig => ({
+  tenantId,
+  databaseType: DatabaseType.POSTGRESQL,
+  credentials: { host: 'localhost', port: 5432, username: 'app', password: 'secret', database: `${tenantId}_db`, ...credentials } as PostgreSQLCredentials,
+  ...(group ? { group } : {})
+});
+
+const mongoTenant = (tenantId: string, group?: string): TenantConfig => ({
+  tenantId,
+  databaseType: DatabaseType.MONGODB,
+  credentials: { host: 'localhost', port: 27017, username: 'app', password: 'secret', database: `${tenantId}_db` } as MongoDBCredentials,
+  ...(group ? { group } : {})
+});
+
+describe('ModelRegistry', () => {
+  it('should add group models to the global ones', () => {
+    const registry = new ModelRegistry()
+      .registerEntities([User])
+      .registerEntities([Invoice, User], { group: 'billing' })
+      .registerSubscribers([AuditSubscriber]);
+
+    expect(registry.getEntities()).toEqual([User]);
+    expect(registry.getEntities('billing')).toEqual([User, Invoice]);
+    expect(registry.getEntities('unknown')).toEqual([User]);
+    expect(registry.getSubscribers('billing')).toEqual([AuditSubscriber]);
+  });
+
+  it('should let a group schema replace the global schema of the same name', () => {
+    const billingUserSchema = new Schema({ name: String, plan: String });
+    const registry = new ModelRegistry()
+      .registerSchema({ name: 'User', schema: userSchema })
+      .registerSchema({ name: 'User', schema: billingUserSchema, collection: 'billing_users' }, { group: 'billing' });
+
+    expect(registry.getSchema('User')?.schema).toBe(userSchema);
+    expect(registry.getSchema('User', 'billing')).toEqual({ name: 'User', schema: billingUserSchema, collection: 'billing_users' });
+    expect(registry.getSchemas('billing')).toHaveLength(1);
+  });
+
+  it('should compile schemas a connection does not have yet', () => {
+    const connection = mongoose.createConnection();
+    const existing = connection.model('User', userSchema);
+
+    new ModelRegistry()
+      .registerSchema({ name: 'User', schema: userSchema })
+      .registerSchema({ name: 'Invoice', schema: invoiceSchema, collection: 'invoices_v2' })
+      .applySchemas(connection);
+
+    expect(connection.models.User).toBe(existing);
+    expect(connection.models.Invoice.collection.collectionName).toBe('invoices_v2');
+  });
+});
+
+describe('MultiTenantManager models', () => {
+  let registry: ModelRegistry;
+  let manager: MultiTenantManager;
+  let pgConnection: any;
+  let mongoConnection: mongoose.Connection;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    registry = new ModelRegistry()
+      .registerEntities([User])
+      .registerEntities([Invoice], { group: 'billing' })
+      .registerSubscribers([AuditSubscriber])
+      .registerSchema({ name: 'User', schema: userSchema });
+
+    pgConnection = {
+      isConnected: true,
+      query: jest.fn().mockResolvedValue([]),
+      hasMetadata: jest.fn((target: unknown) => target === User || target === Invoice),
+      getRepository: jest.fn((target: Function) => ({ target: target.name }))
+    };
+    mongoConnection = mongoose.createConnection();
+
+    (PostgreSQLConnector as unknown as jest.Mock).mockImplementation(() => ({
+      connect: jest.fn().mockResolvedValue(pgConnection),
+      ping: jest.fn().mockResolvedValue(true),
+      disconnect: jest.fn().mockResolvedValue(undefined)
+    }));
+    (MongoDBConnector as unknown as jest.Mock).mockImplementation(() => ({
+      connect: jest.fn().mockResolvedValue(mongoConnection),
+      ping: jest.fn().mockResolvedValue(true),
+      disconnect: jest.fn().mockResolvedValue(undefined)
+    }));
+
+    manager = new MultiTenantManager({
+      enableLogging: false,
+      modelRegistry: registry,
+      tenantConfigProvider: new InMemoryTenantConfigProvider([
+        pgTenant('acme'),
+        pgTenant('globex', 'billing'),
+        pgTenant('initech', undefined, { tenancy: 'schema', schema: 'initech' }),
+        mongoTenant('docs')
+      ])
+    });
+  });
+
+  it('should open PostgreSQL connections with the entities and subscribers of the tenant group', async () => {
+    await manager.getConnection('acme');
+    await manager.getConnection('globex');
+
+    const typeormOptions = (PostgreSQLConnector as unknown as jest.Mock).mock.calls.map((call) => call[2]);
+    expect(typeormOptions).toEqual([
+      { name: 'tenant:acme', entities: [User], subscribers: [AuditSubscriber] },
+      { name: 'tenant:globex', entities: [User, Invoice], subscribers: [AuditSubscriber] }
+    ]);
+  });
+
+  it('should give shared pools the entities and a pool per tenant group', async () => {
+    await manager.getConnection('initech');
+
+    expect(PostgreSQLConnector).toHaveBeenCalledWith(
+      expect.not.objectContaining({ schema: 'initech' }),
+      expect.anything(),
+      { name: 'pool:postgresql://app@localhost:5432/initech_db', entities: [User], subscribers: [AuditSubscriber] }
+    );
+    await expect(manager.getRepository('initech', User)).rejects.toThrow('Tenant initech shares a pool');
+
+    const credentials = pgTenant('initech').credentials as PostgreSQLCredentials;
+    expect(PostgreSQLSharedPoolConnector.getPoolKey(credentials, 'billing')).toBe(`${PostgreSQLSharedPoolConnector.getPoolKey(credentials)}#billing`);
+  });
+
+  it('should cache repositories per tenant connection', async () => {
+    const first = await manager.getRepository('acme', User);
+    const second = await manager.getRepository('acme', User);
+
+    expect(first).toEqual({ target: 'User' });
+    expect(second).toBe(first);
+    expect(pgConnection.getRepository).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject entities that are not registered and non-PostgreSQL tenants', async () => {
+    pgConnection.hasMetadata.mockReturnValue(false);
+
+    await expect(manager.getRepository('acme', Invoice)).rejects.toThrow('Entity Invoice is not registered for tenant acme');
+    await expect(manager.getRepository('docs', User)).rejects.toThrow('Tenant docs is not a PostgreSQL tenant');
+  });
+
+  it('should compile registered schemas on new MongoDB connections', async () => {
+    await manager.getConnection('docs');
+
+    expect(Object.keys(mongoConnection.models)).toEqual(['User']);
+    expect(await manager.getModel('docs', 'User')).toBe(mongoConnection.models.User);
+  });
+
+  it('should compile schemas registered after the connection was opened on first use', async () => {
+    await manager.getConnection('docs');
+    registry.registerSchema({ name: 'Invoice', schema: invoiceSchema });
+
+    const model = await manager.getModel('docs', 'Invoice');
+
+    expect(model.modelName).toBe('Invoice');
+    expect(await manager.getModel('docs', 'Invoice')).toBe(model);
+    await expect(manager.getModel('docs', 'Order')).rejects.toThrow('Model Order is not registered for tenant docs');
+    await expect(manager.getModel('acme', 'User')).rejects.toThrow('Tenant acme is not a MongoDB tenant');
+  });
+});
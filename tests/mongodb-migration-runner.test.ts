@@ -0,0 +1,178 @@
+/// <reference types="jest" />
+
+import { MigrationLockError } from '../src/errors';
+import { MongoDBMigration, MongoDBMigrationRunner } from '../src/migrations';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { InMemoryTenantConfigProvider } from '../src/providers';
+import { DatabaseType, MongoDBCredentials, PostgreSQLCredentials, TenantConfig } from '../src/types';
+
+type Doc = Record<string, any>;
+
+const matches = (doc: Doc, filter: Doc): boolean => Object.entries(filter).every(([key, value]) =>
+  value && typeof value === 'object' && '$lt' in value ? doc[key] < value.$lt : doc[key] === value
+);
+
+// Just enough of a mongoose connection for the changelog and lock collections
+class FakeConnection {
+  public collections = new Map<string, Doc[]>();
+  public log: string[] = [];
+
+  constructor(public name: string) {}
+
+  docs(name: string): Doc[] {
+    if (!this.collections.has(name)) this.collections.set(name, []);
+    return this.collections.get(name)!;
+  }
+
+  collection(name: string) {
+    const docs = this.docs(name);
+    return {
+      createIndex: jest.fn(async () => 'name_1'),
+      insertOne: jest.fn(async (doc: Doc) => {
+        if (doc._id !== undefined && docs.some((existing) => existing._id === doc._id)) {
+          throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+        }
+        docs.push({ _id: doc._id ?? docs.length + 1, ...doc });
+        return { insertedId: doc._id };
+      }),
+      updateOne: jest.fn(async (filter: Doc, update: { $set: Doc }) => {
+        const doc = docs.find((candidate) => matches(candidate, filter));
+        if (doc) Object.assign(doc, update.$set);
+        return { modifiedCount: doc ? 1 : 0 };
+      }),
+      findOne: jest.fn(async (filter: Doc) => docs.find((candidate) => matches(candidate, filter)) ?? null),
+      deleteOne: jest.fn(async (filter: Doc) => {
+        const index = docs.findIndex((candidate) => matches(candidate, filter));
+        if (index >= 0) docs.splice(index, 1);
+        return { deletedCount: index >= 0 ? 1 : 0 };
+      }),
+      find: jest.fn(() => {
+        let result = [...docs];
+        const cursor = {
+          sort: () => { result = result.reverse(); return cursor; },
+          limit: (count: number) => { result = result.slice(0, count); return cursor; },
+          toArray: async () => result
+        };
+        return cursor;
+      })
+    };
+  }
+}
+
+const mongoTenant = (tenantId: string): TenantConfig => ({
+  tenantId,
+  databaseType: DatabaseType.MONGODB,
+  credentials: { host: 'localhost', port: 27017, username: tenantId, password: 'secret', database: `${tenantId}_db` } as MongoDBCredentials
+});
+
+const pgTenant: TenantConfig = {
+  tenantId: 'billing',
+  databaseType: DatabaseType.POSTGRESQL,
+  credentials: { host: 'localhost', port: 5432, username: 'billing', password: 'secret', database: 'billing_db' } as PostgreSQLCredentials
+};
+
+describe('MongoDBMigrationRunner', () => {
+  let manager: MultiTenantManager;
+  let connections: Record<string, FakeConnection>;
+  let migrations: MongoDBMigration[];
+
+  const migration = (name: string, withDown = true): MongoDBMigration => ({
+    name,
+    up: jest.fn(async (connection: any) => { connection.log.push(`up:${name}`); }),
+    ...(withDown ? { down: jest.fn(async (connection: any) => { connection.log.push(`down:${name}`); }) } : {})
+  });
+
+  beforeEach(() => {
+    connections = { acme: new FakeConnection('acme'), globex: new FakeConnection('globex') };
+    migrations = [migration('001-users'), migration('002-orders')];
+
+    manager = new MultiTenantManager({
+      enableLogging: false,
+      tenantConfigProvider: new InMemoryTenantConfigProvider([mongoTenant('acme'), mongoTenant('globex'), pgTenant])
+    });
+    jest.spyOn(manager, 'withConnection').mockImplementation(async (tenantId, callback) => callback(connections[tenantId]));
+  });
+
+  it('should apply pending migrations in order and record them in the changelog', async () => {
+    connections.globex.docs('migrations_changelog').push({ _id: 1, name: '001-users', appliedAt: new Date(), duration: 1 });
+
+    const report = await new MongoDBMigrationRunner(manager, { migrations }).run();
+
+    expect(report).toMatchObject({ dryRun: false, total: 2, applied: 2, failed: 0 });
+    expect(report.tenants.find((result) => result.tenantId === 'acme')).toMatchObject({ status: 'applied', applied: ['001-users', '002-orders'] });
+    expect(report.tenants.find((result) => result.tenantId === 'globex')).toMatchObject({ status: 'applied', pending: ['002-orders'], applied: ['002-orders'] });
+    expect(connections.acme.log).toEqual(['up:001-users', 'up:002-orders']);
+    expect(connections.globex.log).toEqual(['up:002-orders']);
+    expect(connections.acme.docs('migrations_changelog').map((entry) => entry.name)).toEqual(['001-users', '002-orders']);
+    expect(connections.acme.docs('migrations_lock')).toEqual([]);
+  });
+
+  it('should list pending migrations on a dry run without running them or taking the lock', async () => {
+    const report = await new MongoDBMigrationRunner(manager, { migrations }).dryRun({ tenantIds: ['acme'] });
+
+    expect(report).toMatchObject({ dryRun: true, total: 1, pending: 1 });
+    expect(report.tenants[0]).toMatchObject({ status: 'pending', pending: ['001-users', '002-orders'], applied: [] });
+    expect(connections.acme.log).toEqual([]);
+    expect(connections.acme.collections.has('migrations_lock')).toBe(false);
+  });
+
+  it('should fail a tenant whose migrations are locked by another runner', async () => {
+    connections.acme.docs('migrations_lock').push({ _id: 'migrations', owner: 'other-host', expiresAt: new Date(Date.now() + 60000) });
+
+    const report = await new MongoDBMigrationRunner(manager, { migrations }).run({ tenantIds: ['acme'] });
+
+    expect(report.tenants[0].status).toBe('failed');
+    expect(report.tenants[0].error).toBeInstanceOf(MigrationLockError);
+    expect((report.tenants[0].error as MigrationLockError).owner).toBe('other-host');
+    expect(connections.acme.log).toEqual([]);
+    expect(connections.acme.docs('migrations_lock')).toHaveLength(1);
+  });
+
+  it('should take over an expired lock', async () => {
+    connections.acme.docs('migrations_lock').push({ _id: 'migrations', owner: 'crashed-host', expiresAt: new Date(Date.now() - 1000) });
+
+    const report = await new MongoDBMigrationRunner(manager, { migrations }).run({ tenantIds: ['acme'] });
+
+    expect(report.tenants[0]).toMatchObject({ status: 'applied', applied: ['001-users', '002-orders'] });
+    expect(connections.acme.docs('migrations_lock')).toEqual([]);
+  });
+
+  it('should keep earlier migrations recorded and release the lock when a migration fails', async () => {
+    (migrations[1].up as jest.Mock).mockRejectedValueOnce(new Error('boom'));
+
+    const report = await new MongoDBMigrationRunner(manager, { migrations }).run({ tenantIds: ['acme', 'globex'], concurrency: 1 });
+
+    expect(report.tenants[0]).toMatchObject({ tenantId: 'acme', status: 'failed', applied: ['001-users'] });
+    expect(report.tenants[1]).toMatchObject({ tenantId: 'globex', status: 'pending', skipped: true });
+    expect(connections.acme.docs('migrations_changelog').map((entry) => entry.name)).toEqual(['001-users']);
+    expect(connections.acme.docs('migrations_lock')).toEqual([]);
+  });
+
+  it('should revert the newest migrations with their down scripts', async () => {
+    const runner = new MongoDBMigrationRunner(manager, { migrations });
+    await runner.run({ tenantIds: ['acme'] });
+
+    const report = await runner.rollback({ tenantIds: ['acme'], steps: 1 });
+
+    expect(report.tenants[0]).toMatchObject({ status: 'pending', reverted: ['002-orders'] });
+    expect(connections.acme.log).toEqual(['up:001-users', 'up:002-orders', 'down:002-orders']);
+    expect(connections.acme.docs('migrations_changelog').map((entry) => entry.name)).toEqual(['001-users']);
+  });
+
+  it('should fail a rollback when a migration has no down script', async () => {
+    migrations = [migration('001-users', false)];
+    const runner = new MongoDBMigrationRunner(manager, { migrations });
+    await runner.run({ tenantIds: ['acme'] });
+
+    const report = await runner.rollback({ tenantIds: ['acme'] });
+
+    expect(report.tenants[0].status).toBe('failed');
+    expect((report.tenants[0].error as Error).message).toContain('has no down script');
+    expect(connections.acme.docs('migrations_changelog')).toHaveLength(1);
+  });
+
+  it('should reject duplicate migration names and non-MongoDB tenants', async () => {
+    expect(() => new MongoDBMigrationRunner(manager, { migrations: [migration('001'), migration('001')] })).toThrow('Duplicate migration name: 001');
+    await expect(new MongoDBMigrationRunner(manager, { migrations }).run({ tenantIds: ['billing'] })).rejects.toThrow('Tenant billing is not a MongoDB tenant');
+  });
+});
@@ -0,0 +1,235 @@
+/// <reference types="jest" />
+
+import { MongoDBConnector } from '../src/connectors/mongodb-connector';
+import { ProvisioningError } from '../src/errors';
+import { MongoDBProvisioner } from '../src/provisioning';
+import { DatabaseType, MongoDBCredentials } from '../src/types';
+import { silentLogger } from '../src/utils/logger';
+
+jest.mock('../src/connectors/mongodb-connector');
+
+interface FakeCollection {
+  options: Record<string, any>;
+  indexes: string[];
+}
+
+interface FakeServer {
+  databases: Map<string, Map<string, FakeCollection>>;
+  users: Map<string, Map<string, { pwd: string; roles: unknown[] }>>;
+  failOn?: string;
+}
+
+const adminCredentials: MongoDBCredentials = {
+  host: 'mongo.internal',
+  port: 27017,
+  username: 'root',
+  password: 'admin-secret',
+  database: 'admin',
+  replicaSet: 'rs0'
+};
+
+const createClient = (server: FakeServer) => {
+  const fail = (operation: string) => {
+    if (server.failOn === operation) {
+      throw new Error(`${operation} failed`);
+    }
+  };
+
+  const db = (name: string) => {
+    const collections = () => server.databases.get(name) ?? new Map<string, FakeCollection>();
+    const ensureDatabase = () => {
+      if (!server.databases.has(name)) server.databases.set(name, new Map());
+      return server.databases.get(name)!;
+    };
+    const users = () => {
+      if (!server.users.has(name)) server.users.set(name, new Map());
+      return server.users.get(name)!;
+    };
+
+    return {
+      databaseName: name,
+      command: jest.fn(async (command: Record<string, any>) => {
+        const [operation] = Object.keys(command);
+        fail(operation);
+        switch (operation) {
+          case 'listDatabases':
+            return { databases: server.databases.has(command.filter.name) ? [{ name: command.filter.name }] : [] };
+          case 'usersInfo':
+            return { users: users().has(command.usersInfo) ? [{ user: command.usersInfo }] : [] };
+          case 'createUser':
+            users().set(command.createUser, { pwd: command.pwd, roles: command.roles });
+            return { ok: 1 };
+          case 'updateUser':
+            users().set(command.updateUser, { pwd: command.pwd, roles: command.roles });
+            return { ok: 1 };
+          case 'dropUser':
+            users().delete(command.dropUser);
+            return { ok: 1 };
+          case 'collMod': {
+            const { collMod, ...options } = command;
+            collections().get(collMod)!.options = options;
+            return { ok: 1 };
+          }
+        }
+        throw new Error(`Unexpected command ${operation}`);
+      }),
+      listCollections: ({ name: collection }: { name: string }) => ({
+        toArray: async () => {
+          const existing = collections().get(collection);
+          return existing ? [{ name: collection, options: existing.options }] : [];
+        }
+      }),
+      createCollection: jest.fn(async (collection: string, options: Record<string, any>) => {
+        fail('createCollection');
+        ensureDatabase().set(collection, { options, indexes: ['_id_'] });
+      }),
+      collection: (collection: string) => ({
+        indexes: async () => collections().get(collection)!.indexes.map((index) => ({ name: index })),
+        createIndexes: jest.fn(async (specs: Array<{ key: Record<string, unknown>; name?: string }>) => {
+          fail('createIndexes');
+          const names = specs.map((spec) => spec.name ?? Object.entries(spec.key).map(([field, direction]) => `${field}_${direction}`).join('_'));
+          const existing = collections().get(collection)!;
+          existing.indexes = Array.from(new Set([...existing.indexes, ...names]));
+          return names;
+        }),
+        dropIndex: jest.fn(async (index: string) => {
+          const existing = collections().get(collection)!;
+          existing.indexes = existing.indexes.filter((name) => name !== index);
+        })
+      }),
+      dropCollection: jest.fn(async (collection: string) => collections().delete(collection)),
+      dropDatabase: jest.fn(async () => server.databases.delete(name))
+    };
+  };
+
+  return { db };
+};
+
+describe('MongoDBProvisioner', () => {
+  let server: FakeServer;
+  let provisioner: MongoDBProvisioner;
+  let disconnect: jest.Mock;
+
+  const usersValidator = { $jsonSchema: { bsonType: 'object', required: ['email'] } };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    server = { databases: new Map(), users: new Map() };
+    disconnect = jest.fn().mockResolvedValue(undefined);
+    (MongoDBConnector as unknown as jest.Mock).mockImplementation(() => ({
+      connect: jest.fn().mockResolvedValue({ getClient: () => createClient(server) }),
+      disconnect
+    }));
+
+    provisioner = new MongoDBProvisioner(adminCredentials, silentLogger)
+      .registerCollection({
+        name: 'users',
+        validator: usersValidator,
+        validationAction: 'error',
+        indexes: [{ key: { email: 1 }, unique: true }]
+      })
+      .registerCollection({ name: 'events', indexes: [{ key: { createdAt: 1 }, name: 'ttl', expireAfterSeconds: 86400 }] });
+  });
+
+  it('should create the database, collections and a readWrite user, and return the config', async () => {
+    const config = await provisioner.provisionTenant('acme', { options: { maxConnections: 5 } });
+
+    expect(config).toEqual({
+      tenantId: 'acme',
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: 'mongo.internal',
+        port: 27017,
+        username: 'tenant_acme',
+        password: expect.stringMatching(/^[0-9a-f]{48}$/),
+        database: 'tenant_acme',
+        authSource: 'tenant_acme',
+        replicaSet: 'rs0',
+        options: { maxConnections: 5 }
+      }
+    });
+
+    const collections = server.databases.get('tenant_acme')!;
+    expect(collections.get('users')).toEqual({ options: { validator: usersValidator, validationAction: 'error' }, indexes: ['_id_', 'email_1'] });
+    expect(collections.get('events')!.indexes).toEqual(['_id_', 'ttl']);
+    expect(server.users.get('tenant_acme')!.get('tenant_acme')).toEqual({
+      pwd: config.credentials.password,
+      roles: [{ role: 'readWrite', db: 'tenant_acme' }]
+    });
+    expect(MongoDBConnector).toHaveBeenCalledWith(adminCredentials, expect.anything());
+    expect(disconnect).toHaveBeenCalled();
+  });
+
+  it('should create the user in the given authSource', async () => {
+    const config = await provisioner.provisionTenant('acme', { authSource: 'admin', username: 'acme_app', password: 'secret' });
+
+    expect(config.credentials).toMatchObject({ username: 'acme_app', password: 'secret', authSource: 'admin' });
+    expect(server.users.get('admin')!.get('acme_app')!.roles).toEqual([{ role: 'readWrite', db: 'tenant_acme' }]);
+    expect(server.users.has('tenant_acme')).toBe(false);
+  });
+
+  it('should be idempotent and rotate the password of an existing user when asked to', async () => {
+    const first = await provisioner.provisionTenant('acme');
+    const second = await provisioner.provisionTenant('acme', { updateExistingUser: true });
+
+    expect(second.credentials.password).not.toBe(first.credentials.password);
+    expect(server.users.get('tenant_acme')!.get('tenant_acme')!.pwd).toBe(second.credentials.password);
+    expect(server.databases.get('tenant_acme')!.get('users')!.indexes).toEqual(['_id_', 'email_1']);
+  });
+
+  it('should fail on an existing user without changing it', async () => {
+    server.users.set('tenant_acme', new Map([['tenant_acme', { pwd: 'current', roles: [{ role: 'read', db: 'tenant_acme' }] }]]));
+
+    const error = await provisioner.provisionTenant('acme').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ProvisioningError);
+    expect(error).toMatchObject({ tenantId: 'acme', step: 'user' });
+    expect(error.cause.message).toContain('pass updateExistingUser');
+    expect(server.users.get('tenant_acme')!.get('tenant_acme')).toEqual({ pwd: 'current', roles: [{ role: 'read', db: 'tenant_acme' }] });
+    expect(server.databases.has('tenant_acme')).toBe(false);
+  });
+
+  it('should drop the database it created when a step fails', async () => {
+    server.failOn = 'createUser';
+
+    const error = await provisioner.provisionTenant('acme').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ProvisioningError);
+    expect(error).toMatchObject({ tenantId: 'acme', step: 'user' });
+    expect(server.databases.has('tenant_acme')).toBe(false);
+    expect(disconnect).toHaveBeenCalled();
+  });
+
+  it('should restore an existing database to its previous state when a step fails', async () => {
+    server.databases.set('tenant_acme', new Map([
+      ['users', { options: { validator: { legacy: true }, validationLevel: 'moderate', validationAction: 'warn' }, indexes: ['_id_'] }]
+    ]));
+    server.failOn = 'createUser';
+
+    await expect(provisioner.provisionTenant('acme')).rejects.toThrow('failed at step user');
+
+    const collections = server.databases.get('tenant_acme')!;
+    expect(Array.from(collections.keys())).toEqual(['users']);
+    expect(collections.get('users')).toEqual({
+      options: { validator: { legacy: true }, validationLevel: 'moderate', validationAction: 'warn' },
+      indexes: ['_id_']
+    });
+  });
+
+  it('should drop the new database when creating indexes fails', async () => {
+    server.failOn = 'createIndexes';
+
+    await expect(provisioner.provisionTenant('acme')).rejects.toMatchObject({ step: 'collection users' });
+
+    expect(server.databases.has('tenant_acme')).toBe(false);
+    expect(server.users.get('tenant_acme')?.size ?? 0).toBe(0);
+  });
+
+  it('should wrap admin connection failures', async () => {
+    (MongoDBConnector as unknown as jest.Mock).mockImplementation(() => ({
+      connect: jest.fn().mockRejectedValue(new Error('authentication failed'))
+    }));
+
+    await expect(provisioner.provisionTenant('acme')).rejects.toMatchObject({ step: 'connect' });
+  });
+});
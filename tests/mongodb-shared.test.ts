@@ -0,0 +1,156 @@
+/// <reference types="jest" />
+
+import { MongoDBSharedConnector } from '../src/connectors/mongodb-shared-connector';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { DatabaseType, MongoDBCredentials, TenantConfig } from '../src/types';
+import { silentLogger } from '../src/utils/logger';
+import { SharedConnectionRegistry } from '../src/utils/shared-connection-registry';
+
+jest.mock('../src/connectors/mongodb-connector');
+
+const createBaseConnection = () => {
+  const relatedDbs: Record<string, any> = {};
+  const ping = jest.fn().mockResolvedValue({ ok: 1 });
+  return {
+    relatedDbs,
+    ping,
+    close: jest.fn().mockResolvedValue(undefined),
+    useDb: jest.fn((name: string, options?: { useCache?: boolean }) => {
+      if (options?.useCache && relatedDbs[name]) {
+        return relatedDbs[name];
+      }
+      const connection = {
+        name,
+        db: {
+          admin: () => ({ ping, serverInfo: async () => ({ version: '6.0.5' }) }),
+          stats: async () => ({ db: name, collections: 3 })
+        },
+        // Closing a useDb connection closes the base in mongoose
+        close: jest.fn().mockRejectedValue(new Error('useDb connections must not be closed'))
+      };
+      relatedDbs[name] = connection;
+      return connection;
+    })
+  };
+};
+
+describe('Shared MongoDB connections', () => {
+  let manager: MultiTenantManager;
+  let base: ReturnType<typeof createBaseConnection>;
+  let MongoDBConnector: jest.Mock;
+  let connect: jest.Mock;
+
+  const sharedTenant = (tenantId: string, credentials: Partial<MongoDBCredentials> = {}): TenantConfig => ({
+    tenantId,
+    databaseType: DatabaseType.MONGODB,
+    credentials: {
+      host: 'mongo.internal',
+      port: 27017,
+      username: 'app_user',
+      password: 'secret',
+      database: `${tenantId}_db`,
+      sharedConnection: true,
+      ...credentials
+    } as MongoDBCredentials
+  });
+
+  beforeEach(() => {
+    MongoDBConnector = require('../src/connectors/mongodb-connector').MongoDBConnector;
+    base = createBaseConnection();
+    connect = jest.fn().mockResolvedValue(base);
+    MongoDBConnector.mockImplementation(() => ({ connect }));
+
+    manager = new MultiTenantManager({ enableLogging: false, connectionBudget: { maxPoolSlots: 30 } });
+  });
+
+  it('should open one base connection and give each tenant its own database', async () => {
+    const tenant1 = await manager.getConnection('tenant1', sharedTenant('tenant1'));
+    const tenant2 = await manager.getConnection('tenant2', sharedTenant('tenant2'));
+
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(MongoDBConnector).toHaveBeenCalledWith(
+      expect.objectContaining({ database: 'admin', authSource: 'admin', username: 'app_user' }),
+      expect.anything()
+    );
+    expect(base.useDb).toHaveBeenCalledWith('tenant1_db', { useCache: true });
+    expect(tenant1.name).toBe('tenant1_db');
+    expect(tenant2.name).toBe('tenant2_db');
+    expect(manager.getConnectionStats()).toMatchObject({
+      totalConnections: 2,
+      totalPoolSlots: 10,
+      sharedPools: { 'mongodb://app_user@mongo.internal:27017?authSource=admin': 2 }
+    });
+  });
+
+  it('should open separate base connections for different users or clusters', async () => {
+    await manager.getConnection('tenant1', sharedTenant('tenant1'));
+    await manager.getConnection('tenant2', sharedTenant('tenant2', { username: 'other_user' }));
+    await manager.getConnection('tenant3', sharedTenant('tenant3', { replicaSet: 'rs1', authSource: 'users' }));
+
+    expect(connect).toHaveBeenCalledTimes(3);
+    expect(Object.keys(manager.getConnectionStats().sharedPools)).toEqual([
+      'mongodb://app_user@mongo.internal:27017?authSource=admin',
+      'mongodb://other_user@mongo.internal:27017?authSource=admin',
+      'mongodb://app_user@mongo.internal:27017?authSource=users&replicaSet=rs1'
+    ]);
+  });
+
+  it('should close the base connection only when its last tenant is closed', async () => {
+    const tenant1 = await manager.getConnection('tenant1', sharedTenant('tenant1'));
+    await manager.getConnection('tenant2', sharedTenant('tenant2'));
+    const closed = jest.fn();
+    manager.on('connection:closed', closed);
+
+    await manager.closeConnection('tenant1');
+    expect(tenant1.close).not.toHaveBeenCalled();
+    expect(base.close).not.toHaveBeenCalled();
+    expect(closed.mock.calls[0][0]).not.toHaveProperty('error');
+
+    await manager.closeConnection('tenant2');
+    expect(base.close).toHaveBeenCalledTimes(1);
+    expect(manager.getConnectionStats()).toMatchObject({ sharedPools: {}, totalPoolSlots: 0 });
+  });
+
+  it('should charge a base connection once against maxPoolSlots, and free it with its last tenant', async () => {
+    const budgetManager = new MultiTenantManager({ enableLogging: false, connectionBudget: { maxPoolSlots: 10 } });
+
+    await budgetManager.getConnection('tenant1', sharedTenant('tenant1'));
+    await budgetManager.getConnection('tenant2', sharedTenant('tenant2'));
+    expect(budgetManager.getConnectionStats().totalPoolSlots).toBe(10);
+
+    // The other base only fits once both tenants of the first one are evicted
+    await budgetManager.getConnection('tenant3', sharedTenant('tenant3', { username: 'other_user' }));
+
+    expect(budgetManager.hasConnection('tenant1')).toBe(false);
+    expect(budgetManager.hasConnection('tenant2')).toBe(false);
+    expect(base.close).toHaveBeenCalledTimes(1);
+    expect(budgetManager.getConnectionStats()).toMatchObject({
+      totalPoolSlots: 10,
+      sharedPools: { 'mongodb://other_user@mongo.internal:27017?authSource=admin': 1 }
+    });
+  });
+
+  it('should reuse a healthy tenant connection', async () => {
+    const first = await manager.getConnection('tenant1', sharedTenant('tenant1'));
+    const second = await manager.getConnection('tenant1', sharedTenant('tenant1'));
+
+    expect(second).toBe(first);
+    expect(base.ping).toHaveBeenCalled();
+  });
+
+  it('should report the shared connection in the connection info', async () => {
+    const credentials = sharedTenant('tenant1').credentials as MongoDBCredentials;
+    const connector = new MongoDBSharedConnector(credentials, { logger: silentLogger }, new SharedConnectionRegistry(jest.fn()));
+    await connector.connect();
+
+    await expect(connector.getConnectionInfo()).resolves.toMatchObject({
+      serverInfo: { version: '6.0.5' },
+      dbStats: { db: 'tenant1_db' },
+      database: 'tenant1_db',
+      sharedConnection: 'mongodb://app_user@mongo.internal:27017?authSource=admin',
+      tenantsOnConnection: 1
+    });
+    await connector.disconnect();
+    await expect(connector.ping()).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+/// <reference types="jest" />
+
+import mongoose, { MongooseQueryMiddleware, Schema } from 'mongoose';
+import { TenantContext } from '../src/context';
+import { CrossTenantError, MultiTenantError, NoTenantContextError } from '../src/errors';
+import { tenantPlugin, TenantPluginOptions } from '../src/mongoose';
+
+/**
+ * Thrown by the capturing hook registered after the plugin, so operations stop before reaching the driver
+ */
+class Captured extends Error {}
+
+const QUERY_OPERATIONS: MongooseQueryMiddleware[] = [
+  'countDocuments', 'deleteMany', 'find', 'findOne', 'findOneAndUpdate', 'replaceOne', 'updateMany', 'updateOne'
+];
+
+describe('tenantPlugin', () => {
+  const connection = mongoose.createConnection();
+  const context = new TenantContext();
+  let captured: any;
+  let modelCount = 0;
+
+  const createModel = (options: Partial<TenantPluginOptions> = {}) => {
+    const schema = new Schema({ name: String, location: { type: [Number], index: '2dsphere' } });
+    schema.plugin(tenantPlugin, { context, ...options });
+    schema.pre(QUERY_OPERATIONS, function () {
+      captured = { filter: this.getFilter(), update: this.getUpdate() };
+      throw new Captured();
+    });
+    schema.pre('aggregate', function () {
+      captured = this.pipeline();
+      throw new Captured();
+    });
+    schema.pre('insertMany', function (next: (error?: Error) => void, docs: unknown) {
+      captured = docs;
+      next(new Captured());
+    });
+    return connection.model(`Order${++modelCount}`, schema);
+  };
+
+  const asTenant = <T>(tenantId: string, fn: () => Promise<T>): Promise<T> => context.run(tenantId, fn);
+
+  afterAll(() => connection.close());
+
+  beforeEach(() => {
+    captured = undefined;
+  });
+
+  it('should add an immutable, indexed tenant path to the schema', () => {
+    const Order = createModel();
+    const path = Order.schema.path('tenantId') as any;
+
+    expect(path.instance).toBe('String');
+    expect(path.options).toMatchObject({ required: true, immutable: true, index: true });
+  });
+
+  describe('queries', () => {
+    it('should scope filters to the current tenant', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.find({ name: 'widget' }).exec())).rejects.toThrow(Captured);
+      expect(captured.filter).toEqual({ name: 'widget', tenantId: 'acme' });
+
+      await expect(asTenant('acme', () => Order.deleteMany({}).exec())).rejects.toThrow(Captured);
+      expect(captured.filter).toEqual({ tenantId: 'acme' });
+    });
+
+    it('should accept filters on the current tenant', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.countDocuments({ tenantId: { $eq: 'acme' } }).exec())).rejects.toThrow(Captured);
+      expect(captured.filter).toEqual({ tenantId: 'acme' });
+    });
+
+    it('should reject filters on another tenant', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.find({ tenantId: 'globex' }).exec())).rejects.toThrow(CrossTenantError);
+      await expect(asTenant('acme', () => Order.findOne({ tenantId: { $in: ['acme', 'globex'] } }).exec())).rejects.toThrow(CrossTenantError);
+      expect(captured).toBeUndefined();
+    });
+
+    it('should reject updates that change the tenant', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.updateOne({}, { $set: { tenantId: 'globex' } }).exec())).rejects.toThrow(CrossTenantError);
+      await expect(asTenant('acme', () => Order.updateMany({}, { $unset: { tenantId: 1 } }).exec())).rejects.toThrow(CrossTenantError);
+      await expect(asTenant('acme', () => Order.updateMany({}, { $rename: { name: 'tenantId' } }).exec())).rejects.toThrow(CrossTenantError);
+      await expect(asTenant('acme', () => Order.findOneAndUpdate({}, { tenantId: 'globex' }).exec())).rejects.toThrow(CrossTenantError);
+      await expect(asTenant('acme', () => Order.updateOne({}, [{ $unset: 'tenantId' }]).exec())).rejects.toThrow(CrossTenantError);
+    });
+
+    it('should scope updates and upserts to the current tenant', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.updateOne({ name: 'widget' }, { $set: { name: 'gadget' } }, { upsert: true }).exec())).rejects.toThrow(Captured);
+      expect(captured.filter).toEqual({ name: 'widget', tenantId: 'acme' });
+      expect(captured.update).toMatchObject({ $set: { name: 'gadget' } });
+    });
+
+    it('should set the tenant on replacements', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.replaceOne({ name: 'widget' }, { name: 'gadget' }).exec())).rejects.toThrow(Captured);
+      expect(captured.update).toMatchObject({ name: 'gadget', tenantId: 'acme' });
+
+      await expect(asTenant('acme', () => Order.replaceOne({}, { name: 'gadget', tenantId: 'globex' }).exec())).rejects.toThrow(CrossTenantError);
+    });
+
+    it('should refuse estimatedDocumentCount in a tenant scope', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.estimatedDocumentCount().exec())).rejects.toThrow(MultiTenantError);
+    });
+  });
+
+  describe('aggregations', () => {
+    it('should prepend a $match on the current tenant', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.aggregate([{ $group: { _id: '$name', total: { $sum: 1 } } }]).exec())).rejects.toThrow(Captured);
+      expect(captured).toEqual([{ $match: { tenantId: 'acme' } }, { $group: { _id: '$name', total: { $sum: 1 } } }]);
+    });
+
+    it('should merge the tenant into a leading $geoNear', async () => {
+      const Order = createModel();
+      const geoNear = { near: { type: 'Point', coordinates: [0, 0] }, distanceField: 'distance', query: { name: 'widget' } };
+
+      await expect(asTenant('acme', () => Order.aggregate([{ $geoNear: geoNear } as any]).exec())).rejects.toThrow(Captured);
+      expect(captured).toEqual([{ $geoNear: { ...geoNear, query: { name: 'widget', tenantId: 'acme' } } }]);
+    });
+
+    it('should reject a $match on another tenant', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.aggregate([{ $match: { tenantId: 'globex' } }]).exec())).rejects.toThrow(CrossTenantError);
+    });
+  });
+
+  describe('documents', () => {
+    it('should set the tenant on new documents', async () => {
+      const Order = createModel();
+      const order = new Order({ name: 'widget' });
+
+      await asTenant('acme', () => order.validate());
+
+      expect(order.get('tenantId')).toBe('acme');
+    });
+
+    it('should reject documents of another tenant', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => new Order({ name: 'widget', tenantId: 'globex' }).validate())).rejects.toThrow(CrossTenantError);
+    });
+
+    it('should set the tenant on inserted documents', async () => {
+      const Order = createModel();
+
+      await expect(asTenant('acme', () => Order.insertMany([{ name: 'widget' }, { name: 'gadget', tenantId: 'acme' }]))).rejects.toThrow(Captured);
+      expect(captured).toEqual([{ name: 'widget', tenantId: 'acme' }, { name: 'gadget', tenantId: 'acme' }]);
+
+      await expect(asTenant('acme', () => Order.insertMany([{ name: 'widget', tenantId: 'globex' }]))).rejects.toThrow(CrossTenantError);
+    });
+  });
+
+  describe('outside a tenant scope', () => {
+    it('should reject operations by default', async () => {
+      const Order = createModel();
+
+      await expect(Order.find({}).exec()).rejects.toThrow(NoTenantContextError);
+      await expect(Order.aggregate([]).exec()).rejects.toThrow(NoTenantContextError);
+      await expect(new Order({ name: 'widget' }).validate()).rejects.toThrow(NoTenantContextError);
+    });
+
+    it('should leave operations unscoped when a tenant is not required', async () => {
+      const Order = createModel({ requireTenant: false, field: 'orgId' });
+
+      await expect(Order.find({ name: 'widget' }).exec()).rejects.toThrow(Captured);
+      expect(captured.filter).toEqual({ name: 'widget' });
+
+      await expect(asTenant('acme', () => Order.find({}).exec())).rejects.toThrow(Captured);
+      expect(captured.filter).toEqual({ orgId: 'acme' });
+    });
+  });
+});
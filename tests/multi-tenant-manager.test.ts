@@ -1,7 +1,10 @@
 /// <reference types="jest" />
 
+import { CircuitOpenError, ConnectionBudgetExceededError, NoTenantContextError, TenantNotFoundError } from '../src/errors';
 import { MultiTenantManager } from '../src/multi-tenant-manager';
-import { DatabaseType, MongoDBCredentials, PostgreSQLCredentials, TenantConfig } from '../src/types';
+import { InMemoryTenantConfigProvider } from '../src/providers';
+import { DatabaseType, MongoDBCredentials, MultiTenantConfig, PostgreSQLCredentials, TenantConfig } from '../src/types';
+import { ConnectionValidator } from '../src/utils/connection-validator';
 
 // Mock the connector classes to avoid actual database connections
 jest.mock('../src/connectors/mongodb-connector');
@@ -21,10 +24,11 @@ describe('MultiTenantManager', () => {
     close: jest.fn().mockResolvedValue(undefined)
   };
 
+  // Shaped like a TypeORM 0.2 Connection
   const mockPostgresConnection = {
-    isInitialized: true,
+    isConnected: true,
     query: jest.fn().mockResolvedValue([{ result: 'ok' }]),
-    destroy: jest.fn().mockResolvedValue(undefined)
+    close: jest.fn().mockResolvedValue(undefined)
   };
 
   beforeEach(() => {
@@ -135,8 +139,8 @@ describe('MultiTenantManager', () => {
       // Create initial connection
       await manager.getConnection('mongo_tenant', mongoConfig);
       
-      // Mock the connection test to return true (active)
-      jest.spyOn(manager as any, 'testConnection').mockResolvedValue(true);
+      // The connector reports the connection as alive
+      mockMongoConnector.ping.mockResolvedValueOnce(true);
       
       // Get connection again
       const connection = await manager.getConnection('mongo_tenant', mongoConfig);
@@ -145,18 +149,59 @@ describe('MultiTenantManager', () => {
       expect(mockMongoConnector.connect).toHaveBeenCalledTimes(1); // Should not create new connection
     });
 
+    it('should reuse a live PostgreSQL connection and close it through its connector', async () => {
+      const healthFailed = jest.fn();
+      manager.on('health:failed', healthFailed);
+
+      await manager.getConnection('postgres_tenant', postgresConfig);
+      await manager.getConnection('postgres_tenant', postgresConfig);
+      await manager.closeConnection('postgres_tenant');
+
+      expect(mockPostgresConnector.connect).toHaveBeenCalledTimes(1);
+      expect(mockPostgresConnector.ping).toHaveBeenCalledTimes(1);
+      expect(mockPostgresConnector.disconnect).toHaveBeenCalledTimes(1);
+      expect(healthFailed).not.toHaveBeenCalled();
+    });
+
     it('should create new connection if existing connection is inactive', async () => {
       // Create initial connection
       await manager.getConnection('mongo_tenant', mongoConfig);
       
-      // Mock the connection test to return false (inactive)
-      jest.spyOn(manager as any, 'testConnection').mockResolvedValue(false);
+      // The connector reports the connection as dead
+      mockMongoConnector.ping.mockResolvedValueOnce(false);
       
       // Get connection again
       const connection = await manager.getConnection('mongo_tenant', mongoConfig);
       
       expect(connection).toBe(mockMongoConnection);
       expect(mockMongoConnector.connect).toHaveBeenCalledTimes(2); // Should create new connection
+      // The dead connection is closed through its connector so shared pool references are released
+      expect(mockMongoConnector.disconnect).toHaveBeenCalledTimes(1);
+      expect(manager.getActiveConnectionsCount()).toBe(1);
+    });
+
+    it('should share one connection attempt between concurrent callers', async () => {
+      const connections = await Promise.all(
+        Array.from({ length: 10 }, () => manager.getConnection('mongo_tenant', mongoConfig))
+      );
+
+      expect(connections.every((connection) => connection === mockMongoConnection)).toBe(true);
+      expect(mockMongoConnector.connect).toHaveBeenCalledTimes(1);
+      expect(manager.getActiveConnectionsCount()).toBe(1);
+    });
+
+    it('should propagate a failed attempt to all waiters and allow retries', async () => {
+      mockMongoConnector.connect.mockRejectedValueOnce(new Error('Failed to connect to MongoDB: down'));
+
+      const first = manager.getConnection('mongo_tenant', mongoConfig);
+      const second = manager.getConnection('mongo_tenant', mongoConfig);
+
+      await expect(first).rejects.toThrow('down');
+      await expect(second).rejects.toThrow('down');
+      expect(mockMongoConnector.connect).toHaveBeenCalledTimes(1);
+
+      await expect(manager.getConnection('mongo_tenant', mongoConfig)).resolves.toBe(mockMongoConnection);
+      expect(mockMongoConnector.connect).toHaveBeenCalledTimes(2);
     });
 
     it('should throw error for unsupported database type', async () => {
@@ -266,6 +311,85 @@ describe('MultiTenantManager', () => {
     });
   });
 
+  describe('Logging', () => {
+    const mongoConfig: TenantConfig = {
+      tenantId: 'log_tenant',
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: 'localhost',
+        port: 27017,
+        username: 'user',
+        password: 'pass',
+        database: 'testdb'
+      } as MongoDBCredentials
+    };
+
+    const createMockLogger = () => ({
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    });
+
+    it('should route messages to the configured logger with metadata', async () => {
+      const logger = createMockLogger();
+      const loggingManager = new MultiTenantManager({ logger, logLevel: 'info' });
+
+      await loggingManager.getConnection('log_tenant', mongoConfig);
+
+      expect(logger.info).toHaveBeenCalledWith(
+        'Successfully created connection for tenant: log_tenant',
+        expect.objectContaining({ tenantId: 'log_tenant', databaseType: DatabaseType.MONGODB })
+      );
+      expect(logger.debug).not.toHaveBeenCalled();
+    });
+
+    it('should filter messages below the configured level', async () => {
+      const logger = createMockLogger();
+      const loggingManager = new MultiTenantManager({ logger, logLevel: 'error' });
+
+      await loggingManager.getConnection('log_tenant', mongoConfig);
+      await loggingManager.closeConnection('log_tenant');
+
+      expect(logger.info).not.toHaveBeenCalled();
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should not log at all when logging is disabled', async () => {
+      const logger = createMockLogger();
+      const loggingManager = new MultiTenantManager({ logger, enableLogging: false });
+
+      await loggingManager.getConnection('log_tenant', mongoConfig);
+
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('should hand its logger to the connectors', async () => {
+      const { MongoDBConnector } = require('../src/connectors/mongodb-connector');
+      const logger = createMockLogger();
+      const loggingManager = new MultiTenantManager({ logger });
+
+      await loggingManager.getConnection('log_tenant', mongoConfig);
+
+      const options = MongoDBConnector.mock.calls[MongoDBConnector.mock.calls.length - 1][1];
+      expect(options.logger).toBe(loggingManager.getLogger());
+    });
+
+    it('should hand its logger to the connection validator', () => {
+      const logger = createMockLogger();
+      const credentials = { ...mongoConfig.credentials, port: 27999 } as MongoDBCredentials;
+
+      new MultiTenantManager({ logger });
+      ConnectionValidator.validateMongoDBCredentials(credentials);
+      expect(logger.warn).toHaveBeenCalledWith('Non-standard MongoDB port detected', { port: 27999 });
+
+      logger.warn.mockClear();
+      new MultiTenantManager({ logger, enableLogging: false });
+      ConnectionValidator.validateMongoDBCredentials(credentials);
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Configuration Management', () => {
     it('should update configuration', () => {
       const initialConfig = manager.getConfig();
@@ -327,4 +451,588 @@ describe('MultiTenantManager', () => {
       expect(manager.hasConnection('test_tenant')).toBe(true);
     });
   });
+
+  describe('Tenant Config Provider', () => {
+    const mongoConfig: TenantConfig = {
+      tenantId: 'provided_tenant',
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: 'localhost',
+        port: 27017,
+        username: 'user',
+        password: 'pass',
+        database: 'testdb'
+      } as MongoDBCredentials
+    };
+
+    it('should resolve tenant configuration through the provider', async () => {
+      manager.setTenantConfigProvider(new InMemoryTenantConfigProvider([mongoConfig]));
+
+      const connection = await manager.getConnection('provided_tenant');
+
+      expect(connection).toBe(mockMongoConnection);
+      expect(manager.hasConnection('provided_tenant')).toBe(true);
+    });
+
+    it('should accept the provider through configuration', async () => {
+      const providerManager = new MultiTenantManager({
+        enableLogging: false,
+        tenantConfigProvider: new InMemoryTenantConfigProvider([mongoConfig])
+      });
+
+      await expect(providerManager.getConnection('provided_tenant')).resolves.toBe(mockMongoConnection);
+    });
+
+    it('should not consult the provider when reusing a connection', async () => {
+      const provider = new InMemoryTenantConfigProvider([mongoConfig]);
+      const lookupSpy = jest.spyOn(provider, 'getTenantConfig');
+      manager.setTenantConfigProvider(provider);
+
+      await manager.getConnection('provided_tenant');
+      await manager.getConnection('provided_tenant');
+
+      expect(lookupSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw TenantNotFoundError for unknown tenants', async () => {
+      manager.setTenantConfigProvider(new InMemoryTenantConfigProvider());
+
+      await expect(manager.getConnection('unknown_tenant')).rejects.toBeInstanceOf(TenantNotFoundError);
+      expect(mockMongoConnector.connect).not.toHaveBeenCalled();
+    });
+
+    it('should throw when no config is given and no provider is registered', async () => {
+      await expect(manager.getConnection('provided_tenant'))
+        .rejects.toThrow('no TenantConfigProvider is registered');
+    });
+  });
+
+  describe('Connection Budget', () => {
+    const tenantConfigs: TenantConfig[] = ['tenant_a', 'tenant_b', 'tenant_c'].map((tenantId) => ({
+      tenantId,
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: 'localhost',
+        port: 27017,
+        username: 'user',
+        password: 'pass',
+        database: `${tenantId}_db`
+      } as MongoDBCredentials
+    }));
+
+    const createBudgetManager = (connectionBudget: MultiTenantConfig['connectionBudget']) => new MultiTenantManager({
+      enableLogging: false,
+      tenantConfigProvider: new InMemoryTenantConfigProvider(tenantConfigs),
+      defaultOptions: { maxConnections: 5 },
+      ...(connectionBudget ? { connectionBudget } : {})
+    });
+
+    it('should evict the least recently used idle tenant when maxPools is reached', async () => {
+      const budgetManager = createBudgetManager({ maxPools: 2 });
+
+      await budgetManager.getConnection('tenant_a');
+      await budgetManager.getConnection('tenant_b');
+      budgetManager.getConnectionInfo('tenant_a')!.lastUsed = new Date(Date.now() - 60000);
+
+      await budgetManager.getConnection('tenant_c');
+
+      expect(budgetManager.hasConnection('tenant_a')).toBe(false);
+      expect(budgetManager.hasConnection('tenant_b')).toBe(true);
+      expect(budgetManager.hasConnection('tenant_c')).toBe(true);
+      expect(mockMongoConnector.disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should account for pool slots', async () => {
+      const budgetManager = createBudgetManager({ maxPoolSlots: 10 });
+
+      await budgetManager.getConnection('tenant_a');
+      await budgetManager.getConnection('tenant_b');
+      await budgetManager.getConnection('tenant_c');
+
+      expect(budgetManager.getActiveConnectionsCount()).toBe(2);
+      expect(budgetManager.getConnectionStats().totalPoolSlots).toBe(10);
+    });
+
+    it('should never evict leased connections', async () => {
+      const budgetManager = createBudgetManager({ maxPools: 1 });
+
+      const lease = await budgetManager.acquireConnection('tenant_a');
+
+      await expect(budgetManager.getConnection('tenant_b')).rejects.toBeInstanceOf(ConnectionBudgetExceededError);
+      expect(budgetManager.hasConnection('tenant_a')).toBe(true);
+      expect(budgetManager.getConnectionStats().connectionsInUse).toBe(1);
+
+      lease.release();
+    });
+
+    it('should queue until a leased connection is released', async () => {
+      const budgetManager = createBudgetManager({ maxPools: 1, queueWhenExhausted: true, queueTimeout: 1000 });
+
+      const lease = await budgetManager.acquireConnection('tenant_a');
+      const pending = budgetManager.getConnection('tenant_b');
+      lease.release();
+
+      await expect(pending).resolves.toBe(mockMongoConnection);
+      expect(budgetManager.hasConnection('tenant_a')).toBe(false);
+      expect(budgetManager.hasConnection('tenant_b')).toBe(true);
+    });
+
+    it('should fail when the queue timeout elapses', async () => {
+      const budgetManager = createBudgetManager({ maxPools: 1, queueWhenExhausted: true, queueTimeout: 10 });
+
+      await budgetManager.withConnection('tenant_a', async () => {
+        await expect(budgetManager.getConnection('tenant_b')).rejects.toBeInstanceOf(ConnectionBudgetExceededError);
+      });
+
+      expect(budgetManager.getConnectionInfo('tenant_a')?.inUse).toBe(0);
+    });
+  });
+
+  describe('Idle Reaper', () => {
+    const mongoConfig: TenantConfig = {
+      tenantId: 'idle_tenant',
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: 'localhost',
+        port: 27017,
+        username: 'user',
+        password: 'pass',
+        database: 'testdb',
+        options: { idleTimeout: 1000 }
+      } as MongoDBCredentials
+    };
+
+    afterEach(() => {
+      manager.stopIdleReaper();
+      jest.useRealTimers();
+    });
+
+    it('should close connections idle beyond their idle timeout', async () => {
+      await manager.getConnection('idle_tenant', mongoConfig);
+      manager.getConnectionInfo('idle_tenant')!.lastUsed = new Date(Date.now() - 2000);
+
+      const reaped = await manager.reapIdleConnections();
+
+      expect(reaped).toHaveLength(1);
+      expect(reaped[0]).toMatchObject({ tenantId: 'idle_tenant', databaseType: DatabaseType.MONGODB });
+      expect(reaped[0].idleTime).toBeGreaterThanOrEqual(2000);
+      expect(manager.hasConnection('idle_tenant')).toBe(false);
+    });
+
+    it('should keep connections within their idle timeout', async () => {
+      await manager.getConnection('idle_tenant', mongoConfig);
+
+      await expect(manager.reapIdleConnections()).resolves.toEqual([]);
+      expect(manager.hasConnection('idle_tenant')).toBe(true);
+    });
+
+    it('should never close leased connections', async () => {
+      const lease = await manager.acquireConnection('idle_tenant', mongoConfig);
+      manager.getConnectionInfo('idle_tenant')!.lastUsed = new Date(Date.now() - 2000);
+
+      await expect(manager.reapIdleConnections()).resolves.toEqual([]);
+      expect(manager.hasConnection('idle_tenant')).toBe(true);
+
+      lease.release();
+    });
+
+    it('should sweep in the background once started', async () => {
+      jest.useFakeTimers();
+      await manager.getConnection('idle_tenant', mongoConfig);
+      manager.getConnectionInfo('idle_tenant')!.lastUsed = new Date(Date.now() - 2000);
+      const reapSpy = jest.spyOn(manager, 'reapIdleConnections');
+
+      manager.startIdleReaper(500);
+      expect(manager.isIdleReaperRunning()).toBe(true);
+
+      jest.advanceTimersByTime(500);
+      expect(reapSpy).toHaveBeenCalledTimes(1);
+
+      manager.stopIdleReaper();
+      jest.advanceTimersByTime(500);
+      expect(reapSpy).toHaveBeenCalledTimes(1);
+      expect(manager.isIdleReaperRunning()).toBe(false);
+    });
+
+    it('should start the reaper from configuration', () => {
+      const reaperManager = new MultiTenantManager({ enableLogging: false, enableIdleReaper: true });
+
+      expect(reaperManager.isIdleReaperRunning()).toBe(true);
+
+      reaperManager.updateConfig({ enableIdleReaper: false });
+      expect(reaperManager.isIdleReaperRunning()).toBe(false);
+    });
+  });
+
+  describe('Lifecycle Events', () => {
+    const mongoConfig: TenantConfig = {
+      tenantId: 'event_tenant',
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: 'localhost',
+        port: 27017,
+        username: 'user',
+        password: 'pass',
+        database: 'testdb'
+      } as MongoDBCredentials
+    };
+
+    it('should emit connection:created and connection:reused', async () => {
+      const created = jest.fn();
+      const reused = jest.fn();
+      manager.on('connection:created', created);
+      manager.on('connection:reused', reused);
+
+      await manager.getConnection('event_tenant', mongoConfig);
+      await manager.getConnection('event_tenant', mongoConfig);
+
+      expect(created).toHaveBeenCalledTimes(1);
+      expect(created.mock.calls[0][0]).toMatchObject({ tenantId: 'event_tenant', databaseType: DatabaseType.MONGODB });
+      expect(created.mock.calls[0][0].duration).toEqual(expect.any(Number));
+      expect(reused).toHaveBeenCalledTimes(1);
+      expect(reused.mock.calls[0][0].idleTime).toEqual(expect.any(Number));
+    });
+
+    it('should emit connection:failed once per attempt', async () => {
+      const failed = jest.fn();
+      manager.on('connection:failed', failed);
+      const error = new Error('Failed to connect to MongoDB: down');
+      mockMongoConnector.connect.mockRejectedValueOnce(error);
+
+      await Promise.all([
+        expect(manager.getConnection('event_tenant', mongoConfig)).rejects.toBe(error),
+        expect(manager.getConnection('event_tenant', mongoConfig)).rejects.toBe(error)
+      ]);
+
+      expect(failed).toHaveBeenCalledTimes(1);
+      expect(failed.mock.calls[0][0]).toMatchObject({ tenantId: 'event_tenant', databaseType: DatabaseType.MONGODB, error });
+    });
+
+    it('should emit connection:failed without a database type for unknown tenants', async () => {
+      const failed = jest.fn();
+      manager.on('connection:failed', failed);
+      manager.setTenantConfigProvider(new InMemoryTenantConfigProvider());
+
+      await expect(manager.getConnection('unknown_tenant')).rejects.toBeInstanceOf(TenantNotFoundError);
+
+      expect(failed.mock.calls[0][0].databaseType).toBeUndefined();
+    });
+
+    it('should emit health:failed when an existing connection stops responding', async () => {
+      const healthFailed = jest.fn();
+      manager.on('health:failed', healthFailed);
+
+      await manager.getConnection('event_tenant', mongoConfig);
+      mockMongoConnector.ping.mockResolvedValueOnce(false);
+      await manager.getConnection('event_tenant', mongoConfig);
+
+      expect(healthFailed).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 'event_tenant' }));
+    });
+
+    it('should emit connection:closed with the unhealthy reason for a dead connection', async () => {
+      const closed = jest.fn();
+      manager.on('connection:closed', closed);
+
+      await manager.getConnection('event_tenant', mongoConfig);
+      mockMongoConnector.ping.mockResolvedValueOnce(false);
+      await manager.getConnection('event_tenant', mongoConfig);
+
+      expect(closed).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 'event_tenant', reason: 'unhealthy' }));
+    });
+
+    it('should emit connection:closed with the close reason', async () => {
+      const closed = jest.fn();
+      manager.on('connection:closed', closed);
+
+      await manager.getConnection('event_tenant', mongoConfig);
+      await manager.closeConnection('event_tenant');
+
+      expect(closed).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 'event_tenant', reason: 'manual' }));
+    });
+
+    it('should emit connection:evicted when the budget forces an eviction', async () => {
+      const evicted = jest.fn();
+      const closed = jest.fn();
+      const budgetManager = new MultiTenantManager({ enableLogging: false, connectionBudget: { maxPools: 1 } });
+      budgetManager.on('connection:evicted', evicted);
+      budgetManager.on('connection:closed', closed);
+
+      await budgetManager.getConnection('event_tenant', mongoConfig);
+      await budgetManager.getConnection('other_tenant', { ...mongoConfig, tenantId: 'other_tenant' });
+
+      expect(evicted).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 'event_tenant', evictedFor: 'other_tenant' }));
+      expect(closed).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 'event_tenant', reason: 'evicted' }));
+    });
+
+    it('should emit config:updated with previous and current configuration', () => {
+      const configUpdated = jest.fn();
+      manager.on('config:updated', configUpdated);
+
+      manager.updateConfig({ logLevel: 'debug' });
+
+      const payload = configUpdated.mock.calls[0][0];
+      expect(payload.previous.logLevel).toBe('info');
+      expect(payload.current.logLevel).toBe('debug');
+    });
+
+    it('should not let a throwing listener break connection handling', async () => {
+      manager.on('connection:created', () => {
+        throw new Error('listener failure');
+      });
+
+      await expect(manager.getConnection('event_tenant', mongoConfig)).resolves.toBe(mockMongoConnection);
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    const mongoConfig: TenantConfig = {
+      tenantId: 'flaky_tenant',
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: 'localhost',
+        port: 27017,
+        username: 'user',
+        password: 'pass',
+        database: 'testdb'
+      } as MongoDBCredentials
+    };
+
+    let breakerManager: MultiTenantManager;
+
+    const failAttempts = async (count: number) => {
+      for (let i = 0; i < count; i++) {
+        await expect(breakerManager.getConnection('flaky_tenant', mongoConfig)).rejects.toThrow('down');
+      }
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      breakerManager = new MultiTenantManager({
+        enableLogging: false,
+        circuitBreaker: { failureThreshold: 2, cooldown: 1000 }
+      });
+      mockMongoConnector.connect.mockRejectedValue(new Error('Failed to connect to MongoDB: down'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should open after consecutive failures and fail fast', async () => {
+      await failAttempts(2);
+
+      await expect(breakerManager.getConnection('flaky_tenant', mongoConfig)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(mockMongoConnector.connect).toHaveBeenCalledTimes(2);
+
+      const stats = breakerManager.getConnectionStats();
+      expect(stats.openCircuits).toBe(1);
+      expect(stats.circuitBreakers['flaky_tenant']).toMatchObject({ state: 'open', failures: 2, retryAfter: 1000 });
+    });
+
+    it('should close again after a successful trial attempt', async () => {
+      await failAttempts(2);
+      jest.advanceTimersByTime(1000);
+      mockMongoConnector.connect.mockResolvedValue(mockMongoConnection);
+
+      await expect(breakerManager.getConnection('flaky_tenant', mongoConfig)).resolves.toBe(mockMongoConnection);
+      expect(breakerManager.getCircuitBreakerState('flaky_tenant')?.state).toBe('closed');
+    });
+
+    it('should reopen when the trial attempt fails', async () => {
+      const stateChanged = jest.fn();
+      breakerManager.on('circuit:state-changed', stateChanged);
+
+      await failAttempts(2);
+      jest.advanceTimersByTime(1000);
+      await failAttempts(1);
+
+      expect(breakerManager.getCircuitBreakerState('flaky_tenant')?.state).toBe('open');
+      expect(stateChanged.mock.calls.map(([event]) => event.state)).toEqual(['open', 'half-open', 'open']);
+    });
+
+    it('should not count failures that never reached the database', async () => {
+      breakerManager.setTenantConfigProvider(new InMemoryTenantConfigProvider());
+
+      for (let i = 0; i < 3; i++) {
+        await expect(breakerManager.getConnection('unknown_tenant')).rejects.toBeInstanceOf(TenantNotFoundError);
+      }
+
+      expect(breakerManager.getCircuitBreakerState('unknown_tenant')?.state).toBe('closed');
+    });
+
+    it('should allow attempts again after a manual reset', async () => {
+      await failAttempts(2);
+      breakerManager.resetCircuitBreaker('flaky_tenant');
+      mockMongoConnector.connect.mockResolvedValue(mockMongoConnection);
+
+      await expect(breakerManager.getConnection('flaky_tenant', mongoConfig)).resolves.toBe(mockMongoConnection);
+    });
+  });
+
+  describe('Health Check', () => {
+    const mongoConfig: TenantConfig = {
+      tenantId: 'mongo_tenant',
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: 'localhost',
+        port: 27017,
+        username: 'user',
+        password: 'pass',
+        database: 'testdb'
+      } as MongoDBCredentials
+    };
+
+    const postgresConfig: TenantConfig = {
+      tenantId: 'postgres_tenant',
+      databaseType: DatabaseType.POSTGRESQL,
+      credentials: {
+        host: 'localhost',
+        port: 5432,
+        username: 'user',
+        password: 'pass',
+        database: 'testdb'
+      } as PostgreSQLCredentials
+    };
+
+    beforeEach(async () => {
+      await manager.getConnection('mongo_tenant', mongoConfig);
+      await manager.getConnection('postgres_tenant', postgresConfig);
+    });
+
+    it('should report healthy tenants with their server version', async () => {
+      mockMongoConnector.getConnectionInfo.mockResolvedValue({ serverInfo: { version: '6.0.4' } });
+      mockPostgresConnector.getConnectionInfo.mockResolvedValue({ version: 'PostgreSQL 15.2 on x86_64-pc-linux-gnu' });
+
+      const report = await manager.checkHealth();
+
+      expect(report).toMatchObject({ status: 'healthy', healthy: 2, unhealthy: 0, notConnected: 0 });
+      expect(report.tenants).toEqual([
+        expect.objectContaining({ tenantId: 'mongo_tenant', status: 'healthy', databaseType: DatabaseType.MONGODB, serverVersion: '6.0.4' }),
+        expect.objectContaining({ tenantId: 'postgres_tenant', status: 'healthy', databaseType: DatabaseType.POSTGRESQL, serverVersion: '15.2' })
+      ]);
+    });
+
+    it('should report a degraded fleet when some pings fail', async () => {
+      const healthFailed = jest.fn();
+      manager.on('health:failed', healthFailed);
+      mockPostgresConnector.ping.mockResolvedValue(false);
+
+      const report = await manager.checkHealth();
+
+      expect(report).toMatchObject({ status: 'degraded', healthy: 1, unhealthy: 1 });
+      expect(report.tenants[1]).toMatchObject({ tenantId: 'postgres_tenant', status: 'unhealthy', error: 'Ping failed' });
+      expect(healthFailed).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 'postgres_tenant' }));
+    });
+
+    it('should emit health:passed with the latency of successful checks', async () => {
+      const healthPassed = jest.fn();
+      manager.on('health:passed', healthPassed);
+      mockPostgresConnector.ping.mockResolvedValue(false);
+
+      const report = await manager.checkHealth();
+
+      expect(healthPassed).toHaveBeenCalledTimes(1);
+      expect(healthPassed).toHaveBeenCalledWith(expect.objectContaining({
+        tenantId: 'mongo_tenant',
+        databaseType: DatabaseType.MONGODB,
+        duration: report.tenants[0].latency
+      }));
+    });
+
+    it('should time out hanging pings', async () => {
+      mockMongoConnector.ping.mockReturnValue(new Promise(() => undefined));
+
+      const report = await manager.checkHealth({ tenantIds: ['mongo_tenant'], timeout: 20 });
+
+      expect(report.status).toBe('unhealthy');
+      expect(report.tenants[0]).toMatchObject({ status: 'unhealthy', error: 'Health check for tenant mongo_tenant timed out after 20ms' });
+    });
+
+    it('should report selected tenants without a connection as not connected', async () => {
+      const report = await manager.checkHealth({ tenantIds: ['postgres_tenant', 'unknown_tenant'] });
+
+      expect(report).toMatchObject({ status: 'healthy', healthy: 1, notConnected: 1 });
+      expect(report.tenants[1]).toMatchObject({ tenantId: 'unknown_tenant', status: 'not_connected' });
+    });
+
+    it('should keep the number of concurrent pings bounded', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const slowPing = async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return true;
+      };
+      mockMongoConnector.ping.mockImplementation(slowPing);
+      mockPostgresConnector.ping.mockImplementation(slowPing);
+
+      await manager.checkHealth({ concurrency: 1 });
+
+      expect(maxInFlight).toBe(1);
+    });
+  });
+
+  describe('Tenant Context', () => {
+    const tenantConfig: TenantConfig = {
+      tenantId: 'context_tenant',
+      databaseType: DatabaseType.MONGODB,
+      credentials: {
+        host: 'localhost',
+        port: 27017,
+        username: 'user',
+        password: 'pass',
+        database: 'testdb'
+      } as MongoDBCredentials
+    };
+
+    const findUsers = async () => {
+      const connection = await manager.currentConnection();
+      return { tenantId: manager.currentTenant(), connection };
+    };
+
+    beforeEach(() => {
+      manager.setTenantConfigProvider(new InMemoryTenantConfigProvider([tenantConfig]));
+    });
+
+    it('should expose the current tenant and connection across async calls', async () => {
+      const result = await manager.runWithTenant('context_tenant', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return findUsers();
+      });
+
+      expect(result).toEqual({ tenantId: 'context_tenant', connection: mockMongoConnection });
+    });
+
+    it('should let nested scopes override the outer tenant', async () => {
+      const tenants = await manager.runWithTenant('outer_tenant', async () => {
+        const inner = await manager.runWithTenant('inner_tenant', async () => manager.currentTenant());
+        return [manager.currentTenant(), inner];
+      });
+
+      expect(tenants).toEqual(['outer_tenant', 'inner_tenant']);
+    });
+
+    it('should keep concurrent scopes isolated', async () => {
+      const results = await Promise.all(['tenant_a', 'tenant_b'].map((tenantId, index) =>
+        manager.runWithTenant(tenantId, async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5 - index * 5));
+          return manager.currentTenant();
+        })
+      ));
+
+      expect(results).toEqual(['tenant_a', 'tenant_b']);
+    });
+
+    it('should throw outside a tenant scope', async () => {
+      expect(() => manager.currentTenant()).toThrow(NoTenantContextError);
+      await expect(manager.currentConnection()).rejects.toBeInstanceOf(NoTenantContextError);
+      expect(manager.getTenantContext().getTenantId()).toBeUndefined();
+    });
+
+    it('should reject an empty tenant ID', () => {
+      expect(() => manager.runWithTenant('', () => undefined)).toThrow('runWithTenant requires a tenant ID');
+    });
+  });
 });
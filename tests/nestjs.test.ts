@@ -0,0 +1,179 @@
+/// <reference types="jest" />
+
+import 'reflect-metadata';
+import { EventEmitter } from 'events';
+import { CallHandler, ExecutionContext, HttpException, INestApplicationContext, Injectable, Module } from '@nestjs/common';
+import { ContextIdFactory, NestFactory } from '@nestjs/core';
+import { lastValueFrom, of } from 'rxjs';
+import { CircuitOpenError, TenantNotFoundError } from '../src/errors';
+import { tenantFromQuery } from '../src/middleware';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import {
+    getTenantRepositoryToken,
+    InjectTenantConnection,
+    InjectTenantRepository,
+    MultiTenantModule,
+    MultiTenantModuleOptions,
+    TENANT_CONNECTION,
+    TenantInterceptor
+} from '../src/nestjs';
+import { DatabaseType, TenantConfig } from '../src/types';
+
+class User {}
+
+@Injectable()
+class UserService {
+  constructor(
+    @InjectTenantConnection() public readonly connection: any,
+    @InjectTenantRepository(User) public readonly users: any
+  ) {}
+}
+
+@Module({
+  imports: [MultiTenantModule.forFeature([User])],
+  providers: [UserService]
+})
+class UsersModule {}
+
+describe('NestJS integration', () => {
+  const connection = { getRepository: jest.fn((entity: Function) => ({ entity: entity.name })) };
+  let app: INestApplicationContext | undefined;
+  let databaseType: DatabaseType;
+  let release: jest.Mock;
+
+  const createApp = async (rootModule: any) => {
+    app = await NestFactory.createApplicationContext(rootModule, { logger: false });
+    const manager = app.get(MultiTenantManager);
+    release = jest.fn();
+    jest.spyOn(manager, 'acquireConnection').mockImplementation(async (tenantId: string) => {
+      if (tenantId === 'acme') return { tenantId, connection, release };
+      if (tenantId === 'down') throw new CircuitOpenError('down', 1500);
+      throw new TenantNotFoundError(tenantId);
+    });
+    jest.spyOn(manager, 'resolveTenantConfig').mockImplementation(async (tenantId: string) => ({ tenantId, databaseType } as TenantConfig));
+    jest.spyOn(manager, 'getRepository').mockImplementation(async (_tenantId: string, entity: any) => connection.getRepository(entity) as any);
+    jest.spyOn(manager, 'getModel').mockImplementation(async (tenantId: string, name: string) => ({ model: name, tenantId }) as any);
+    return { app, manager };
+  };
+
+  const createRootModule = (options: MultiTenantModuleOptions) => {
+    @Module({ imports: [MultiTenantModule.forRoot(options), UsersModule] })
+    class AppModule {}
+    return AppModule;
+  };
+
+  const resolveForRequest = async <T>(token: any, request: any): Promise<T> => {
+    const contextId = ContextIdFactory.create();
+    app!.registerRequestByContextId(request, contextId);
+    return app!.resolve<T>(token, contextId, { strict: false });
+  };
+
+  beforeEach(() => {
+    databaseType = DatabaseType.POSTGRESQL;
+  });
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+  });
+
+  it('should provide a configured manager and close its connections on shutdown', async () => {
+    const { manager } = await createApp(createRootModule({ enableLogging: false, defaultOptions: { maxConnections: 3 } }));
+    const closeAll = jest.spyOn(manager, 'closeAllConnections');
+
+    expect(manager.getConfig().defaultOptions?.maxConnections).toBe(3);
+    expect(manager.getConfig()).not.toHaveProperty('resolvers');
+
+    await app!.close();
+    app = undefined;
+    expect(closeAll).toHaveBeenCalled();
+  });
+
+  it('should build the options with forRootAsync', async () => {
+    const useFactory = jest.fn(async () => ({ enableLogging: false, logLevel: 'warn' as const }));
+
+    @Module({ imports: [MultiTenantModule.forRootAsync({ useFactory })] })
+    class AppModule {}
+
+    const { manager } = await createApp(AppModule);
+
+    expect(useFactory).toHaveBeenCalled();
+    expect(manager.getConfig().logLevel).toBe('warn');
+  });
+
+  it('should inject the tenant connection and repositories per request', async () => {
+    await createApp(createRootModule({ enableLogging: false, resolvers: [tenantFromQuery()] }));
+    const request = { headers: {}, url: '/users?tenant=acme', res: new EventEmitter() };
+
+    const service = await resolveForRequest<UserService>(UserService, request);
+
+    expect(service.connection).toBe(connection);
+    expect(service.users).toEqual({ entity: 'User' });
+    expect(request).toMatchObject({ tenantId: 'acme', tenantConnection: connection });
+    expect(getTenantRepositoryToken(User)).toBe(getTenantRepositoryToken('User'));
+    expect(release).not.toHaveBeenCalled();
+
+    request.res.emit('finish');
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('should inject mongoose models of the registry for MongoDB tenants', async () => {
+    databaseType = DatabaseType.MONGODB;
+    const { manager } = await createApp(createRootModule({ enableLogging: false }));
+
+    const service = await resolveForRequest<UserService>(UserService, { headers: { 'x-tenant-id': 'acme' }, url: '/' });
+
+    expect(service.users).toEqual({ model: 'User', tenantId: 'acme' });
+    expect(manager.getRepository).not.toHaveBeenCalled();
+  });
+
+  it('should fail request-scoped injection with the HTTP status of the failure', async () => {
+    await createApp(createRootModule({ enableLogging: false }));
+
+    await expect(resolveForRequest(TENANT_CONNECTION, { headers: { 'x-tenant-id': 'unknown' }, url: '/' }))
+      .rejects.toMatchObject({ status: 404 });
+  });
+
+  describe('TenantInterceptor', () => {
+    const createContext = (request: any, response: any = { setHeader: jest.fn() }) => ({
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => request, getResponse: () => response })
+    }) as unknown as ExecutionContext;
+
+    it('should run the handler inside the tenant context', async () => {
+      const { manager } = await createApp(createRootModule({ enableLogging: false }));
+      const interceptor = app!.get(TenantInterceptor);
+      const handler: CallHandler = { handle: () => of(manager.currentTenant()) };
+
+      const result = await lastValueFrom(interceptor.intercept(createContext({ headers: { 'x-tenant-id': 'acme' }, url: '/' }), handler));
+
+      expect(result).toBe('acme');
+    });
+
+    it('should release the connection when the response of a Fastify reply ends', async () => {
+      await createApp(createRootModule({ enableLogging: false }));
+      const interceptor = app!.get(TenantInterceptor);
+      const reply = { header: jest.fn(), raw: new EventEmitter() };
+
+      await lastValueFrom(interceptor.intercept(createContext({ headers: { 'x-tenant-id': 'acme' }, url: '/' }, reply), { handle: () => of(true) }));
+      expect(release).not.toHaveBeenCalled();
+
+      reply.raw.emit('close');
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject unavailable tenants with 503 and Retry-After', async () => {
+      await createApp(createRootModule({ enableLogging: false }));
+      const interceptor = app!.get(TenantInterceptor);
+      const response = { setHeader: jest.fn() };
+      const handle = jest.fn();
+
+      const result = lastValueFrom(interceptor.intercept(createContext({ headers: { 'x-tenant-id': 'down' }, url: '/' }, response), { handle }));
+
+      await expect(result).rejects.toBeInstanceOf(HttpException);
+      await expect(result).rejects.toMatchObject({ status: 503 });
+      expect(response.setHeader).toHaveBeenCalledWith('Retry-After', '2');
+      expect(handle).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/// <reference types="jest" />
+
+import { Column, Connection, Entity, getConnectionManager, PrimaryGeneratedColumn } from 'typeorm';
+import { ModelRegistry } from '../src/models';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { DatabaseType, PostgreSQLCredentials, TenantConfig } from '../src/types';
+
+@Entity('users')
+class User {
+  @PrimaryGeneratedColumn()
+  public id!: number;
+
+  @Column()
+  public name!: string;
+}
+
+describe('PostgreSQL connection names', () => {
+  let manager: MultiTenantManager;
+
+  const postgresTenant = (tenantId: string, extra: Partial<PostgreSQLCredentials> = {}): TenantConfig => ({
+    tenantId,
+    databaseType: DatabaseType.POSTGRESQL,
+    credentials: {
+      host: 'localhost',
+      port: 5432,
+      username: 'app_user',
+      password: 'secret',
+      database: tenantId,
+      ...extra
+    } as PostgreSQLCredentials
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Only the network is faked: createConnection and TypeORM's connection manager, with its check
+    // against two active connections of the same name, run for real
+    jest.spyOn(Connection.prototype, 'connect').mockImplementation(async function (this: Connection) {
+      // Entity metadata is built as in a real connect, so generated SQL can be checked
+      (this as unknown as { buildMetadatas(): void }).buildMetadatas();
+      Object.assign(this, { isConnected: true });
+      return this;
+    });
+    jest.spyOn(Connection.prototype, 'close').mockImplementation(async function (this: Connection) {
+      Object.assign(this, { isConnected: false });
+    });
+
+    manager = new MultiTenantManager({ enableLogging: false, modelRegistry: new ModelRegistry().registerEntities([User]) });
+  });
+
+  afterEach(async () => {
+    await manager.closeAllConnections();
+    jest.restoreAllMocks();
+  });
+
+  it('should open a connection for each of two PostgreSQL tenants', async () => {
+    const tenantA = await manager.getConnection('tenant_a', postgresTenant('tenant_a'));
+    const tenantB = await manager.getConnection('tenant_b', postgresTenant('tenant_b'));
+
+    expect(tenantA).not.toBe(tenantB);
+    expect(tenantA.name).toBe('tenant:tenant_a');
+    expect(tenantB.name).toBe('tenant:tenant_b');
+    expect(getConnectionManager().get('tenant:tenant_b')).toBe(tenantB);
+  });
+
+  it('should reopen a tenant connection under the same name after it was closed', async () => {
+    const first = await manager.getConnection('tenant_a', postgresTenant('tenant_a'));
+    await manager.closeConnection('tenant_a');
+
+    const second = await manager.getConnection('tenant_a', postgresTenant('tenant_a'));
+
+    expect(second).not.toBe(first);
+    expect(second.name).toBe('tenant:tenant_a');
+  });
+
+  it('should name each shared pool after its pool key', async () => {
+    const tenantA = await manager.getConnection('tenant_a', postgresTenant('tenant_a', { database: 'app', schema: 'tenant_a', tenancy: 'schema' }));
+    const tenantB = await manager.getConnection('tenant_b', postgresTenant('tenant_b', { database: 'other', schema: 'tenant_b', tenancy: 'schema' }));
+
+    expect(tenantA.dataSource.name).toBe('pool:postgresql://app_user@localhost:5432/app');
+    expect(tenantB.dataSource.name).toBe('pool:postgresql://app_user@localhost:5432/other');
+  });
+
+  it('should not qualify table paths on a schema-per-tenant pool', async () => {
+    const tenantA = await manager.getConnection('tenant_a', postgresTenant('tenant_a', { database: 'app', schema: 'tenant_a', tenancy: 'schema' }));
+
+    // The checkout's search_path selects the tenant schema only for unqualified table names
+    const sql = tenantA.dataSource.createQueryBuilder(User, 'u').getSql();
+    expect(sql).toContain('FROM "users" "u"');
+    expect(sql).not.toContain('"public"');
+  });
+
+  it('should keep qualifying table paths on a dedicated pool', async () => {
+    const tenantA = await manager.getConnection('tenant_a', postgresTenant('tenant_a', { schema: 'billing' }));
+
+    expect(tenantA.createQueryBuilder(User, 'u').getSql()).toContain('FROM "billing"."users" "u"');
+  });
+});
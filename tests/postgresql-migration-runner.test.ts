@@ -0,0 +1,200 @@
+/// <reference types="jest" />
+
+import { MigrationExecutor, MigrationInterface } from 'typeorm';
+import { PostgreSQLConnector } from '../src/connectors/postgresql-connector';
+import { PostgreSQLMigrationRunner } from '../src/migrations';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { InMemoryTenantConfigProvider } from '../src/providers';
+import { DatabaseType, MongoDBCredentials, PostgreSQLCredentials, TenantConfig } from '../src/types';
+
+jest.mock('../src/connectors/postgresql-connector');
+jest.mock('typeorm', () => ({ ...jest.requireActual('typeorm'), MigrationExecutor: jest.fn() }));
+
+class CreateUsers1700000000000 implements MigrationInterface {
+  public async up(): Promise<void> {}
+  public async down(): Promise<void> {}
+}
+class AddEmailIndex1700000000001 implements MigrationInterface {
+  public async up(): Promise<void> {}
+  public async down(): Promise<void> {}
+}
+
+const pgTenant = (tenantId: string, credentials: Partial<PostgreSQLCredentials> = {}): TenantConfig => ({
+  tenantId,
+  databaseType: DatabaseType.POSTGRESQL,
+  credentials: {
+    host: 'localhost',
+    port: 5432,
+    username: `${tenantId}_user`,
+    password: 'secret',
+    database: `${tenantId}_db`,
+    ...credentials
+  } as PostgreSQLCredentials
+});
+
+const mongoTenant: TenantConfig = {
+  tenantId: 'docs',
+  databaseType: DatabaseType.MONGODB,
+  credentials: { host: 'localhost', port: 27017, username: 'docs', password: 'secret', database: 'docs_db' } as MongoDBCredentials
+};
+
+describe('PostgreSQLMigrationRunner', () => {
+  let manager: MultiTenantManager;
+  let runner: PostgreSQLMigrationRunner;
+  let pendingByDatabase: Record<string, string[]>;
+  let failingDatabases: Set<string>;
+  let disconnect: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pendingByDatabase = {};
+    failingDatabases = new Set();
+    disconnect = jest.fn().mockResolvedValue(undefined);
+
+    (PostgreSQLConnector as unknown as jest.Mock).mockImplementation((credentials: PostgreSQLCredentials) => ({
+      connect: jest.fn(async () => ({
+        database: credentials.database,
+        runMigrations: jest.fn(async () => {
+          if (failingDatabases.has(credentials.database)) {
+            // Every migration but the last one commits before the failure
+            pendingByDatabase[credentials.database] = (pendingByDatabase[credentials.database] ?? []).slice(-1);
+            throw new Error(`migration failed on ${credentials.database}`);
+          }
+          const applied = pendingByDatabase[credentials.database] ?? [];
+          pendingByDatabase[credentials.database] = [];
+          return applied.map((name) => ({ name }));
+        })
+      })),
+      disconnect
+    }));
+    (MigrationExecutor as unknown as jest.Mock).mockImplementation((connection: { database: string }) => ({
+      getPendingMigrations: async () => (pendingByDatabase[connection.database] ?? []).map((name) => ({ name }))
+    }));
+
+    manager = new MultiTenantManager({
+      enableLogging: false,
+      defaultOptions: { connectionTimeout: 3000 },
+      tenantConfigProvider: new InMemoryTenantConfigProvider([
+        pgTenant('acme'),
+        pgTenant('globex', { schema: 'globex schema', tenancy: 'schema' }),
+        pgTenant('initech'),
+        mongoTenant
+      ])
+    });
+    runner = new PostgreSQLMigrationRunner(manager, { migrations: [CreateUsers1700000000000, AddEmailIndex1700000000001], migrationsTableName: 'schema_migrations' });
+  });
+
+  it('should migrate every PostgreSQL tenant on its own connection', async () => {
+    pendingByDatabase = { acme_db: ['CreateUsers1700000000000', 'AddEmailIndex1700000000001'], globex_db: ['AddEmailIndex1700000000001'] };
+
+    const report = await runner.run();
+
+    expect(report).toMatchObject({ dryRun: false, total: 3, applied: 3, pending: 0, failed: 0, skipped: 0 });
+    expect(report.tenants.map((tenant) => [tenant.tenantId, tenant.status, tenant.applied])).toEqual([
+      ['acme', 'applied', ['CreateUsers1700000000000', 'AddEmailIndex1700000000001']],
+      ['globex', 'applied', ['AddEmailIndex1700000000001']],
+      ['initech', 'applied', []]
+    ]);
+    expect(disconnect).toHaveBeenCalledTimes(3);
+  });
+
+  it('should open single-connection pools with the migrations and the tenant schema', async () => {
+    await runner.run({ tenantIds: ['globex'] });
+
+    const [credentials, options, typeormOptions] = (PostgreSQLConnector as unknown as jest.Mock).mock.calls[0];
+    expect(credentials).not.toHaveProperty('tenancy');
+    expect(options).toMatchObject({ maxConnections: 1, connectionTimeout: 3000 });
+    expect(typeormOptions).toEqual({
+      name: 'migrations:globex',
+      migrations: [CreateUsers1700000000000, AddEmailIndex1700000000001],
+      migrationsTableName: 'schema_migrations',
+      extra: { options: '-c search_path="globex\\ schema"' }
+    });
+  });
+
+  it('should list pending migrations without running them in a dry run', async () => {
+    pendingByDatabase = { acme_db: ['CreateUsers1700000000000'] };
+
+    const report = await runner.dryRun();
+
+    expect(report).toMatchObject({ dryRun: true, applied: 2, pending: 1, failed: 0 });
+    expect(report.tenants[0]).toMatchObject({ tenantId: 'acme', status: 'pending', pending: ['CreateUsers1700000000000'], applied: [] });
+    expect(pendingByDatabase.acme_db).toEqual(['CreateUsers1700000000000']);
+  });
+
+  it('should stop after the first failure by default', async () => {
+    pendingByDatabase = { acme_db: ['CreateUsers1700000000000'], globex_db: ['CreateUsers1700000000000'], initech_db: ['CreateUsers1700000000000'] };
+    failingDatabases.add('acme_db');
+
+    const report = await runner.run({ concurrency: 1 });
+
+    expect(report).toMatchObject({ applied: 0, pending: 2, failed: 1, skipped: 2 });
+    expect(report.tenants[0]).toMatchObject({ tenantId: 'acme', status: 'failed', pending: ['CreateUsers1700000000000'] });
+    expect((report.tenants[0].error as Error).message).toBe('migration failed on acme_db');
+    expect(report.tenants[1]).toMatchObject({ tenantId: 'globex', status: 'pending', skipped: true });
+    expect(PostgreSQLConnector).toHaveBeenCalledTimes(1);
+  });
+
+  it('should migrate the remaining tenants with continueOnError', async () => {
+    pendingByDatabase = { acme_db: ['CreateUsers1700000000000'], globex_db: ['CreateUsers1700000000000'] };
+    failingDatabases.add('acme_db');
+
+    const report = await runner.run({ continueOnError: true, concurrency: 2 });
+
+    expect(report).toMatchObject({ applied: 2, failed: 1, skipped: 0 });
+    expect(report.tenants.map((tenant) => tenant.status)).toEqual(['failed', 'applied', 'applied']);
+  });
+
+  it('should report the migrations committed before a failure', async () => {
+    pendingByDatabase = { acme_db: ['CreateUsers1700000000000', 'AddEmailIndex1700000000001'] };
+    failingDatabases.add('acme_db');
+
+    const report = await runner.run({ tenantIds: ['acme'] });
+
+    expect(report.tenants[0]).toMatchObject({
+      status: 'failed',
+      pending: ['CreateUsers1700000000000', 'AddEmailIndex1700000000001'],
+      applied: ['CreateUsers1700000000000']
+    });
+  });
+
+  it('should migrate RLS tenants sharing tables once and report the result for each of them', async () => {
+    manager.setTenantConfigProvider(new InMemoryTenantConfigProvider([
+      pgTenant('hooli', { database: 'shared_db', username: 'app', tenancy: 'rls' }),
+      pgTenant('piedpiper', { database: 'shared_db', username: 'app', tenancy: 'rls' }),
+      pgTenant('acme')
+    ]));
+    pendingByDatabase = { shared_db: ['CreateUsers1700000000000'], acme_db: ['CreateUsers1700000000000'] };
+
+    const report = await runner.run({ concurrency: 3 });
+
+    expect(PostgreSQLConnector).toHaveBeenCalledTimes(2);
+    expect(report).toMatchObject({ total: 3, applied: 3, failed: 0 });
+    expect(report.tenants.map((tenant) => [tenant.tenantId, tenant.status, tenant.applied])).toEqual([
+      ['hooli', 'applied', ['CreateUsers1700000000000']],
+      ['piedpiper', 'applied', ['CreateUsers1700000000000']],
+      ['acme', 'applied', ['CreateUsers1700000000000']]
+    ]);
+  });
+
+  it('should report connection failures per tenant', async () => {
+    (PostgreSQLConnector as unknown as jest.Mock).mockImplementationOnce(() => ({
+      connect: jest.fn().mockRejectedValue(new Error('connection refused')),
+      disconnect
+    }));
+
+    const report = await runner.run({ tenantIds: ['acme', 'initech'], continueOnError: true });
+
+    expect(report.tenants.map((tenant) => tenant.status)).toEqual(['failed', 'applied']);
+  });
+
+  it('should reject tenants that are not PostgreSQL tenants', async () => {
+    await expect(runner.run({ tenantIds: ['acme', 'docs'] })).rejects.toThrow('Tenant docs is not a PostgreSQL tenant');
+  });
+
+  it('should need tenant IDs when the provider cannot list tenants', async () => {
+    manager.setTenantConfigProvider({ getTenantConfig: async () => undefined });
+
+    await expect(runner.run()).rejects.toThrow('Pass tenantIds');
+  });
+});
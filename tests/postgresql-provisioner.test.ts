@@ -0,0 +1,214 @@
+/// <reference types="jest" />
+
+import { Client } from 'pg';
+import { ProvisioningError } from '../src/errors';
+import { PostgreSQLProvisioner } from '../src/provisioning';
+import { DatabaseType, PostgreSQLCredentials } from '../src/types';
+import { silentLogger } from '../src/utils/logger';
+
+jest.mock('pg');
+
+interface FakeServer {
+  roles: Set<string>;
+  databases: Set<string>;
+  statements: Array<{ database: string; sql: string }>;
+  failOn?: RegExp;
+  passwordReadable?: boolean;
+}
+
+const adminCredentials: PostgreSQLCredentials = {
+  host: 'db.internal',
+  port: 5432,
+  username: 'postgres',
+  password: 'admin-secret',
+  database: 'postgres',
+  ssl: true
+};
+
+describe('PostgreSQLProvisioner', () => {
+  let server: FakeServer;
+  let provisioner: PostgreSQLProvisioner;
+
+  const statementsIn = (database: string) => server.statements.filter((statement) => statement.database === database).map((statement) => statement.sql);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    server = { roles: new Set(), databases: new Set(['postgres']), statements: [] };
+
+    (Client as unknown as jest.Mock).mockImplementation(({ database }: { database: string }) => ({
+      connect: jest.fn(async () => {
+        if (!server.databases.has(database)) {
+          throw new Error(`database "${database}" does not exist`);
+        }
+      }),
+      end: jest.fn().mockResolvedValue(undefined),
+      query: jest.fn(async (sql: string, parameters: string[] = []) => {
+        server.statements.push({ database, sql });
+        if (server.failOn?.test(sql)) {
+          throw new Error(`failed: ${sql}`);
+        }
+        if (sql.includes('FROM pg_roles')) {
+          const rows = server.roles.has(parameters[0])
+            ? [{ rolcanlogin: true, rolsuper: false, rolcreatedb: true, rolcreaterole: false, rolreplication: false, rolbypassrls: false, rolconnlimit: 5 }]
+            : [];
+          return { rowCount: rows.length, rows };
+        }
+        if (sql.includes('FROM pg_authid')) {
+          if (!server.passwordReadable) throw new Error('permission denied for table pg_authid');
+          return { rowCount: 1, rows: [{ rolpassword: 'SCRAM-SHA-256$4096:old' }] };
+        }
+        if (sql.includes('FROM pg_database')) return { rowCount: server.databases.has(parameters[0]) ? 1 : 0 };
+
+        const [, kind, name] = /^(CREATE ROLE|CREATE DATABASE|DROP ROLE IF EXISTS|DROP DATABASE IF EXISTS) "([^"]+)"/.exec(sql) ?? [];
+        if (kind === 'CREATE ROLE') server.roles.add(name);
+        if (kind === 'CREATE DATABASE') server.databases.add(name);
+        if (kind === 'DROP ROLE IF EXISTS') server.roles.delete(name);
+        if (kind === 'DROP DATABASE IF EXISTS') server.databases.delete(name);
+        return { rowCount: 0, rows: [] };
+      })
+    }));
+
+    provisioner = new PostgreSQLProvisioner(adminCredentials, silentLogger);
+  });
+
+  it('should derive safe default names from the tenant ID', () => {
+    expect(PostgreSQLProvisioner.getDefaultName('Acme-Corp.EU')).toBe('tenant_acme_corp_eu');
+    expect(PostgreSQLProvisioner.getDefaultName('x'.repeat(100))).toHaveLength(63);
+  });
+
+  it('should create a database per tenant and return its config', async () => {
+    const config = await provisioner.provisionTenant('acme', { extensions: ['uuid-ossp'], options: { maxConnections: 5 } });
+
+    expect(config).toEqual({
+      tenantId: 'acme',
+      databaseType: DatabaseType.POSTGRESQL,
+      credentials: {
+        host: 'db.internal',
+        port: 5432,
+        username: 'tenant_acme',
+        password: expect.stringMatching(/^[0-9a-f]{48}$/),
+        database: 'tenant_acme',
+        schema: 'public',
+        ssl: true,
+        options: { maxConnections: 5 }
+      }
+    });
+    expect(server.roles).toContain('tenant_acme');
+    expect(server.databases).toContain('tenant_acme');
+
+    const [, createRole] = statementsIn('postgres');
+    expect(createRole).toMatch(/^CREATE ROLE "tenant_acme" WITH LOGIN NOSUPERUSER NOCREATEDB NOCREATEROLE NOREPLICATION NOBYPASSRLS CONNECTION LIMIT -1 PASSWORD '[0-9a-f]{48}'$/);
+    expect(statementsIn('tenant_acme')).toEqual([
+      'BEGIN',
+      'REVOKE ALL ON DATABASE "tenant_acme" FROM PUBLIC',
+      'GRANT CONNECT, TEMPORARY ON DATABASE "tenant_acme" TO "tenant_acme"',
+      'CREATE SCHEMA IF NOT EXISTS "public"',
+      'GRANT USAGE, CREATE ON SCHEMA "public" TO "tenant_acme"',
+      'GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA "public" TO "tenant_acme"',
+      'GRANT USAGE, SELECT, UPDATE ON ALL SEQUENCES IN SCHEMA "public" TO "tenant_acme"',
+      'ALTER DEFAULT PRIVILEGES IN SCHEMA "public" GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO "tenant_acme"',
+      'ALTER DEFAULT PRIVILEGES IN SCHEMA "public" GRANT USAGE, SELECT, UPDATE ON SEQUENCES TO "tenant_acme"',
+      'ALTER DEFAULT PRIVILEGES IN SCHEMA "public" GRANT EXECUTE ON FUNCTIONS TO "tenant_acme"',
+      'ALTER ROLE "tenant_acme" IN DATABASE "tenant_acme" SET search_path TO "public"',
+      'CREATE EXTENSION IF NOT EXISTS "uuid-ossp"',
+      'COMMIT'
+    ]);
+  });
+
+  it('should create a schema in the shared database in schema mode', async () => {
+    const config = await provisioner.provisionTenant('acme', { tenancy: 'schema', password: 'tenant-secret', connectionLimit: 10, host: 'pgbouncer.internal' });
+
+    expect(config.credentials).toMatchObject({
+      host: 'pgbouncer.internal',
+      username: 'tenant_acme',
+      password: 'tenant-secret',
+      database: 'postgres',
+      schema: 'tenant_acme'
+    });
+    expect(server.databases).not.toContain('tenant_acme');
+
+    const statements = statementsIn('postgres');
+    expect(statements).toContain('CREATE SCHEMA IF NOT EXISTS "tenant_acme"');
+    expect(statements.some((sql) => sql.startsWith('REVOKE ALL ON DATABASE'))).toBe(false);
+    expect(statements.find((sql) => sql.startsWith('CREATE ROLE'))).toContain('CONNECTION LIMIT 10 PASSWORD \'tenant-secret\'');
+  });
+
+  it('should refuse to change an existing role without updateExistingRole', async () => {
+    await provisioner.provisionTenant('acme');
+    server.statements = [];
+
+    await expect(provisioner.provisionTenant('acme')).rejects.toMatchObject({ step: 'role' });
+
+    const statements = server.statements.map((statement) => statement.sql);
+    expect(statements.some((sql) => sql.startsWith('ALTER ROLE') || sql.startsWith('DROP'))).toBe(false);
+    expect(server.roles).toContain('tenant_acme');
+  });
+
+  it('should be idempotent and rotate the password of an existing role with updateExistingRole', async () => {
+    const first = await provisioner.provisionTenant('acme');
+    server.statements = [];
+
+    const second = await provisioner.provisionTenant('acme', { updateExistingRole: true });
+
+    expect(second.credentials.password).not.toBe(first.credentials.password);
+    const statements = server.statements.map((statement) => statement.sql);
+    expect(statements.some((sql) => sql.startsWith('ALTER ROLE "tenant_acme" WITH LOGIN'))).toBe(true);
+    expect(statements.some((sql) => sql.startsWith('CREATE ROLE') || sql.startsWith('CREATE DATABASE'))).toBe(false);
+    // The database already existed, so its PUBLIC privileges are left as they are
+    expect(statements.some((sql) => sql.startsWith('REVOKE'))).toBe(false);
+  });
+
+  it('should drop the role and database it created when a later step fails', async () => {
+    server.failOn = /CREATE EXTENSION/;
+
+    const error = await provisioner.provisionTenant('acme', { extensions: ['postgis'] }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ProvisioningError);
+    expect(error).toMatchObject({ tenantId: 'acme', step: 'privileges' });
+    expect(statementsIn('tenant_acme')).toContain('ROLLBACK');
+    expect(statementsIn('postgres').slice(-2)).toEqual(['DROP DATABASE IF EXISTS "tenant_acme"', 'DROP ROLE IF EXISTS "tenant_acme"']);
+    expect(server.roles.size).toBe(0);
+    expect(server.databases).toEqual(new Set(['postgres']));
+  });
+
+  it('should keep objects that existed before the failed run and restore the role it changed', async () => {
+    server.roles.add('tenant_acme');
+    server.databases.add('tenant_acme');
+    server.passwordReadable = true;
+    server.failOn = /^GRANT CONNECT/;
+
+    await expect(provisioner.provisionTenant('acme', { updateExistingRole: true })).rejects.toThrow('failed at step privileges');
+
+    expect(server.statements.some(({ sql }) => sql.startsWith('DROP'))).toBe(false);
+    expect(statementsIn('postgres').pop()).toBe(
+      'ALTER ROLE "tenant_acme" WITH LOGIN NOSUPERUSER CREATEDB NOCREATEROLE NOREPLICATION NOBYPASSRLS CONNECTION LIMIT 5 PASSWORD \'SCRAM-SHA-256$4096:old\''
+    );
+    expect(server.roles).toContain('tenant_acme');
+    expect(server.databases).toContain('tenant_acme');
+  });
+
+  it('should restore the attributes of the changed role when its password cannot be read', async () => {
+    server.roles.add('tenant_acme');
+    server.failOn = /CREATE EXTENSION/;
+
+    await expect(provisioner.provisionTenant('acme', { updateExistingRole: true, extensions: ['postgis'] })).rejects.toThrow('failed at step privileges');
+
+    expect(statementsIn('postgres').slice(-2)).toEqual([
+      'DROP DATABASE IF EXISTS "tenant_acme"',
+      'ALTER ROLE "tenant_acme" WITH LOGIN NOSUPERUSER CREATEDB NOCREATEROLE NOREPLICATION NOBYPASSRLS CONNECTION LIMIT 5'
+    ]);
+    expect(server.roles).toContain('tenant_acme');
+  });
+
+  it('should report the step that failed before anything was created', async () => {
+    server.failOn = /^CREATE ROLE/;
+
+    await expect(provisioner.provisionTenant('acme')).rejects.toMatchObject({ step: 'role' });
+    expect(server.statements.some(({ sql }) => sql.startsWith('DROP'))).toBe(false);
+  });
+
+  it('should refuse to provision the admin role', async () => {
+    await expect(provisioner.provisionTenant('acme', { role: 'postgres' })).rejects.toThrow('must not be the admin role');
+    expect(Client).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,219 @@
+/// <reference types="jest" />
+
+import { PostgreSQLRlsConnection } from '../src/connectors/postgresql-rls-connection';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { DatabaseType, PostgreSQLCredentials, TenantConfig } from '../src/types';
+import { ConnectionValidator } from '../src/utils/connection-validator';
+import { generateRlsPolicy, RlsPolicyRegistry } from '../src/utils/rls-policies';
+
+jest.mock('../src/connectors/postgresql-connector');
+
+const createDataSource = () => {
+  const queries: Array<{ sql: string; parameters?: any[] }> = [];
+  const dataSource = {
+    isConnected: true,
+    queries,
+    close: jest.fn().mockResolvedValue(undefined),
+    createQueryRunner: jest.fn(() => {
+      const queryRunner = {
+        isReleased: false,
+        isTransactionActive: false,
+        startTransaction: jest.fn(async () => {
+          queryRunner.isTransactionActive = true;
+          queries.push({ sql: 'BEGIN' });
+        }),
+        commitTransaction: jest.fn(async () => {
+          queryRunner.isTransactionActive = false;
+          queries.push({ sql: 'COMMIT' });
+        }),
+        rollbackTransaction: jest.fn(async () => {
+          queryRunner.isTransactionActive = false;
+          queries.push({ sql: 'ROLLBACK' });
+        }),
+        query: jest.fn(async (sql: string, parameters?: any[]) => {
+          queries.push(parameters ? { sql, parameters } : { sql });
+          return [{ version: 'PostgreSQL 15.2' }];
+        }),
+        release: jest.fn(async () => {
+          queryRunner.isReleased = true;
+        })
+      };
+      return queryRunner;
+    })
+  };
+  return dataSource;
+};
+
+describe('Row-level-security PostgreSQL', () => {
+  describe('PostgreSQLRlsConnection', () => {
+    it('should set the tenant inside a transaction and commit on success', async () => {
+      const dataSource = createDataSource();
+      const connection = new PostgreSQLRlsConnection(dataSource as any, 'acme', 'app.current_tenant', jest.fn());
+
+      await connection.query('SELECT * FROM orders');
+
+      expect(dataSource.queries).toEqual([
+        { sql: 'BEGIN' },
+        { sql: 'SELECT set_config($1, $2, true)', parameters: ['app.current_tenant', 'acme'] },
+        { sql: 'SELECT * FROM orders' },
+        { sql: 'COMMIT' }
+      ]);
+      expect(dataSource.createQueryRunner.mock.results[0].value.isReleased).toBe(true);
+    });
+
+    it('should roll back when the callback fails', async () => {
+      const dataSource = createDataSource();
+      const connection = new PostgreSQLRlsConnection(dataSource as any, 'acme', 'app.current_tenant', jest.fn());
+
+      await expect(connection.withQueryRunner(async (queryRunner) => {
+        await queryRunner.query('INSERT INTO orders DEFAULT VALUES');
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      expect(dataSource.queries.map((query) => query.sql)).toEqual([
+        'BEGIN', 'SELECT set_config($1, $2, true)', 'INSERT INTO orders DEFAULT VALUES', 'ROLLBACK'
+      ]);
+    });
+
+    it('should roll back an uncommitted checkout on release', async () => {
+      const dataSource = createDataSource();
+      const connection = new PostgreSQLRlsConnection(dataSource as any, 'acme', 'app.current_tenant', jest.fn());
+
+      const queryRunner = await connection.acquireQueryRunner();
+      await queryRunner.release();
+
+      expect(dataSource.queries[dataSource.queries.length - 1]).toEqual({ sql: 'ROLLBACK' });
+      expect(queryRunner.isReleased).toBe(true);
+    });
+
+    it('should refuse checkouts after destroy', async () => {
+      const onDestroy = jest.fn().mockResolvedValue(undefined);
+      const connection = new PostgreSQLRlsConnection(createDataSource() as any, 'acme', 'app.current_tenant', onDestroy);
+
+      await connection.destroy();
+      await connection.destroy();
+
+      expect(onDestroy).toHaveBeenCalledTimes(1);
+      await expect(connection.query('SELECT 1')).rejects.toThrow('has been closed');
+    });
+  });
+
+  describe('RLS policies', () => {
+    it('should generate idempotent policy statements', () => {
+      expect(generateRlsPolicy({ table: 'orders' })).toEqual([
+        'ALTER TABLE "orders" ENABLE ROW LEVEL SECURITY',
+        'ALTER TABLE "orders" FORCE ROW LEVEL SECURITY',
+        'DROP POLICY IF EXISTS "tenant_isolation" ON "orders"',
+        'CREATE POLICY "tenant_isolation" ON "orders" TO PUBLIC'
+          + ' USING ("tenant_id" = NULLIF(current_setting(\'app.current_tenant\', true), \'\'))'
+          + ' WITH CHECK ("tenant_id" = NULLIF(current_setting(\'app.current_tenant\', true), \'\'))'
+      ]);
+    });
+
+    it('should honour the table and policy options', () => {
+      const statements = generateRlsPolicy(
+        { table: 'invoices', schema: 'billing', tenantColumn: 'org_id', columnType: 'uuid', policyName: 'org_isolation' },
+        { tenantSetting: 'billing.org', role: 'app_user', force: false }
+      );
+
+      expect(statements).toHaveLength(3);
+      expect(statements[2]).toBe(
+        'CREATE POLICY "org_isolation" ON "billing"."invoices" TO "app_user"'
+          + ' USING ("org_id" = NULLIF(current_setting(\'billing.org\', true), \'\')::uuid)'
+          + ' WITH CHECK ("org_id" = NULLIF(current_setting(\'billing.org\', true), \'\')::uuid)'
+      );
+    });
+
+    it('should reject settings and column types that are not plain names', () => {
+      expect(() => generateRlsPolicy({ table: 'orders' }, { tenantSetting: 'current_tenant' })).toThrow('Invalid tenant setting');
+      expect(() => generateRlsPolicy({ table: 'orders', columnType: 'uuid); DROP TABLE orders; --' })).toThrow('Invalid column type');
+    });
+
+    it('should generate and apply the policies of registered tables', async () => {
+      const registry = new RlsPolicyRegistry()
+        .register('orders')
+        .register({ table: 'invoices', schema: 'billing' })
+        .register({ table: 'orders', tenantColumn: 'org_id' });
+      const executor = { query: jest.fn().mockResolvedValue(undefined) };
+
+      await registry.applyPolicies(executor);
+
+      expect(registry.getTables()).toEqual([{ table: 'orders', tenantColumn: 'org_id' }, { table: 'invoices', schema: 'billing' }]);
+      expect(executor.query).toHaveBeenCalledTimes(8);
+      expect(executor.query.mock.calls.map(([sql]) => sql)).toEqual(registry.generatePolicies());
+      expect(registry.unregister('invoices', 'billing')).toBe(true);
+      expect(registry.generatePolicies()).toHaveLength(4);
+    });
+  });
+
+  describe('MultiTenantManager', () => {
+    let manager: MultiTenantManager;
+    let dataSource: ReturnType<typeof createDataSource>;
+    let connect: jest.Mock;
+
+    const rlsTenant = (tenantId: string, credentials: Partial<PostgreSQLCredentials> = {}): TenantConfig => ({
+      tenantId,
+      databaseType: DatabaseType.POSTGRESQL,
+      credentials: {
+        host: 'localhost',
+        port: 5432,
+        username: 'app_user',
+        password: 'secret',
+        database: 'app',
+        tenancy: 'rls',
+        ...credentials
+      } as PostgreSQLCredentials
+    });
+
+    beforeEach(() => {
+      const { PostgreSQLConnector } = require('../src/connectors/postgresql-connector');
+      dataSource = createDataSource();
+      connect = jest.fn().mockResolvedValue(dataSource);
+      PostgreSQLConnector.mockImplementation(() => ({ connect }));
+
+      manager = new MultiTenantManager({ enableLogging: false });
+    });
+
+    it('should give each tenant a handle on one shared pool', async () => {
+      const acme = await manager.getConnection('acme', rlsTenant('acme'));
+      const globex = await manager.getConnection('globex', rlsTenant('globex', { tenantSetting: 'app.org' }));
+
+      expect(connect).toHaveBeenCalledTimes(1);
+      expect(acme).toBeInstanceOf(PostgreSQLRlsConnection);
+      expect(acme.tenantId).toBe('acme');
+      expect(acme.tenantSetting).toBe('app.current_tenant');
+      expect(globex.tenantSetting).toBe('app.org');
+      expect(globex.dataSource).toBe(acme.dataSource);
+      expect(manager.getConnectionStats().sharedPools).toEqual({ 'postgresql://app_user@localhost:5432/app': 2 });
+
+      await globex.query('SELECT * FROM orders');
+      expect(dataSource.queries).toContainEqual({ sql: 'SELECT set_config($1, $2, true)', parameters: ['app.org', 'globex'] });
+    });
+
+    it('should keep tenants with a different default schema on separate pools', async () => {
+      await manager.getConnection('acme', rlsTenant('acme'));
+      await manager.getConnection('globex', rlsTenant('globex', { schema: 'shared' }));
+
+      expect(connect).toHaveBeenCalledTimes(2);
+      expect(Object.keys(manager.getConnectionStats().sharedPools)).toEqual([
+        'postgresql://app_user@localhost:5432/app',
+        'postgresql://app_user@localhost:5432/app?schema=shared'
+      ]);
+    });
+
+    it('should close the shared pool with its last tenant', async () => {
+      await manager.getConnection('acme', rlsTenant('acme'));
+      await manager.getConnection('globex', rlsTenant('globex'));
+
+      await manager.closeAllConnections();
+
+      expect(dataSource.close).toHaveBeenCalledTimes(1);
+      expect(manager.getConnectionStats().sharedPools).toEqual({});
+    });
+
+    it('should reject an invalid tenant setting', () => {
+      const { credentials } = rlsTenant('acme', { tenantSetting: 'tenant' });
+      expect(() => ConnectionValidator.validatePostgreSQLCredentials(credentials)).toThrow('Invalid tenant setting');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/// <reference types="jest" />
+
+import { PostgreSQLSchemaConnection } from '../src/connectors/postgresql-schema-connection';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { DatabaseType, PostgreSQLCredentials, TenantConfig } from '../src/types';
+import { SharedConnectionRegistry } from '../src/utils/shared-connection-registry';
+
+jest.mock('../src/connectors/postgresql-connector');
+
+const createDataSource = () => {
+  const queries: string[] = [];
+  const dataSource = {
+    isConnected: true,
+    queries,
+    close: jest.fn().mockResolvedValue(undefined),
+    createQueryRunner: jest.fn(() => {
+      const queryRunner = {
+        isReleased: false,
+        isTransactionActive: false,
+        isAborted: false,
+        query: jest.fn(async (sql: string) => {
+          if (queryRunner.isAborted) {
+            throw new Error('current transaction is aborted, commands ignored until end of transaction block');
+          }
+          queries.push(sql);
+          if (sql === 'SELECT fail()') {
+            queryRunner.isAborted = queryRunner.isTransactionActive;
+            throw new Error('boom');
+          }
+          return [{ version: 'PostgreSQL 15.2', current_schema: 'tenant_a' }];
+        }),
+        startTransaction: jest.fn(async () => {
+          queries.push('START TRANSACTION');
+          queryRunner.isTransactionActive = true;
+        }),
+        rollbackTransaction: jest.fn(async () => {
+          queries.push('ROLLBACK');
+          queryRunner.isTransactionActive = false;
+          queryRunner.isAborted = false;
+        }),
+        release: jest.fn(async () => {
+          queryRunner.isReleased = true;
+        })
+      };
+      return queryRunner;
+    })
+  };
+  return dataSource;
+};
+
+describe('Schema-per-tenant PostgreSQL', () => {
+  describe('SharedConnectionRegistry', () => {
+    it('should open a connection once and close it after the last release', async () => {
+      const close = jest.fn().mockResolvedValue(undefined);
+      const open = jest.fn().mockResolvedValue('pool');
+      const registry = new SharedConnectionRegistry<string>(close);
+
+      await Promise.all([registry.acquire('key', open), registry.acquire('key', open)]);
+      expect(open).toHaveBeenCalledTimes(1);
+      expect(registry.getRefCount('key')).toBe(2);
+
+      await registry.release('key');
+      expect(close).not.toHaveBeenCalled();
+
+      await registry.release('key');
+      expect(close).toHaveBeenCalledWith('pool', 'key');
+      expect(registry.size).toBe(0);
+    });
+
+    it('should not keep a failed open', async () => {
+      const registry = new SharedConnectionRegistry<string>(jest.fn());
+
+      await expect(registry.acquire('key', () => Promise.reject(new Error('down')))).rejects.toThrow('down');
+      await expect(registry.acquire('key', async () => 'pool')).resolves.toBe('pool');
+      expect(registry.getRefCount('key')).toBe(1);
+    });
+  });
+
+  describe('PostgreSQLSchemaConnection', () => {
+    it('should set the search_path on checkout and reset it on release', async () => {
+      const dataSource = createDataSource();
+      const connection = new PostgreSQLSchemaConnection(dataSource as any, 'tenant "a"', jest.fn());
+
+      await connection.query('SELECT * FROM users');
+
+      expect(dataSource.queries).toEqual(['SET search_path TO "tenant ""a"""', 'SELECT * FROM users', 'RESET search_path']);
+      const queryRunner = dataSource.createQueryRunner.mock.results[0].value;
+      expect(queryRunner.isReleased).toBe(true);
+    });
+
+    it('should release the query runner when the callback fails', async () => {
+      const dataSource = createDataSource();
+      const connection = new PostgreSQLSchemaConnection(dataSource as any, 'tenant_a', jest.fn());
+
+      await expect(connection.withQueryRunner(async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      expect(dataSource.queries[dataSource.queries.length - 1]).toBe('RESET search_path');
+    });
+
+    it('should roll back an aborted transaction before resetting the search_path', async () => {
+      const dataSource = createDataSource();
+      const connection = new PostgreSQLSchemaConnection(dataSource as any, 'tenant_a', jest.fn());
+
+      await expect(connection.withQueryRunner(async (queryRunner) => {
+        await queryRunner.startTransaction();
+        await queryRunner.query('SELECT fail()');
+      })).rejects.toThrow('boom');
+
+      expect(dataSource.queries.slice(-2)).toEqual(['ROLLBACK', 'RESET search_path']);
+      const queryRunner = dataSource.createQueryRunner.mock.results[0].value;
+      expect(queryRunner.isTransactionActive).toBe(false);
+      expect(queryRunner.isReleased).toBe(true);
+    });
+
+    it('should release its share once and refuse checkouts after destroy', async () => {
+      const onDestroy = jest.fn().mockResolvedValue(undefined);
+      const connection = new PostgreSQLSchemaConnection(createDataSource() as any, 'tenant_a', onDestroy);
+
+      await connection.destroy();
+      await connection.destroy();
+
+      expect(onDestroy).toHaveBeenCalledTimes(1);
+      expect(connection.isInitialized).toBe(false);
+      await expect(connection.query('SELECT 1')).rejects.toThrow('has been closed');
+    });
+  });
+
+  describe('MultiTenantManager', () => {
+    let manager: MultiTenantManager;
+    let dataSource: ReturnType<typeof createDataSource>;
+    let connect: jest.Mock;
+
+    const schemaTenant = (tenantId: string, database: string = 'app'): TenantConfig => ({
+      tenantId,
+      databaseType: DatabaseType.POSTGRESQL,
+      credentials: {
+        host: 'localhost',
+        port: 5432,
+        username: 'app_user',
+        password: 'secret',
+        database,
+        schema: tenantId,
+        tenancy: 'schema'
+      } as PostgreSQLCredentials
+    });
+
+    beforeEach(() => {
+      const { PostgreSQLConnector } = require('../src/connectors/postgresql-connector');
+      dataSource = createDataSource();
+      connect = jest.fn().mockResolvedValue(dataSource);
+      PostgreSQLConnector.mockImplementation(() => ({ connect }));
+
+      manager = new MultiTenantManager({ enableLogging: false, connectionBudget: { maxPoolSlots: 20 } });
+    });
+
+    it('should share one pool between tenants of the same database', async () => {
+      const tenantA = await manager.getConnection('tenant_a', schemaTenant('tenant_a'));
+      const tenantB = await manager.getConnection('tenant_b', schemaTenant('tenant_b'));
+
+      expect(connect).toHaveBeenCalledTimes(1);
+      expect(tenantA).toBeInstanceOf(PostgreSQLSchemaConnection);
+      expect(tenantB.schema).toBe('tenant_b');
+      expect(tenantB.dataSource).toBe(tenantA.dataSource);
+      expect(manager.getConnectionStats()).toMatchObject({
+        totalConnections: 2,
+        totalPoolSlots: 10,
+        sharedPools: { 'postgresql://app_user@localhost:5432/app': 2 }
+      });
+    });
+
+    it('should open separate pools for different databases', async () => {
+      await manager.getConnection('tenant_a', schemaTenant('tenant_a', 'app'));
+      await manager.getConnection('tenant_b', schemaTenant('tenant_b', 'other'));
+
+      expect(connect).toHaveBeenCalledTimes(2);
+      expect(Object.keys(manager.getConnectionStats().sharedPools)).toHaveLength(2);
+    });
+
+    it('should close the shared pool only when its last tenant is closed', async () => {
+      await manager.getConnection('tenant_a', schemaTenant('tenant_a'));
+      await manager.getConnection('tenant_b', schemaTenant('tenant_b'));
+
+      await manager.closeConnection('tenant_a');
+      expect(dataSource.close).not.toHaveBeenCalled();
+      expect(manager.getConnectionStats().sharedPools).toEqual({ 'postgresql://app_user@localhost:5432/app': 1 });
+
+      await manager.closeConnection('tenant_b');
+      expect(dataSource.close).toHaveBeenCalledTimes(1);
+      expect(manager.getConnectionStats()).toMatchObject({ sharedPools: {}, totalPoolSlots: 0 });
+    });
+
+    it('should reuse a healthy tenant handle', async () => {
+      const first = await manager.getConnection('tenant_a', schemaTenant('tenant_a'));
+      const second = await manager.getConnection('tenant_a', schemaTenant('tenant_a'));
+
+      expect(second).toBe(first);
+      expect(dataSource.queries).toContain('SELECT 1');
+    });
+  });
+});
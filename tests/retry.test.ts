@@ -0,0 +1,88 @@
+/// <reference types="jest" />
+
+import {
+    computeRetryDelay,
+    createRetryPolicy,
+    isRetryableConnectionError,
+    withRetry
+} from '../src/utils/retry';
+
+describe('Retry', () => {
+  describe('computeRetryDelay', () => {
+    const policy = createRetryPolicy({
+      retryAttempts: 5,
+      retryDelay: 100,
+      maxRetryDelay: 1000,
+      retryJitter: false
+    });
+
+    it('should grow exponentially', () => {
+      expect(computeRetryDelay(1, policy)).toBe(100);
+      expect(computeRetryDelay(2, policy)).toBe(200);
+      expect(computeRetryDelay(3, policy)).toBe(400);
+    });
+
+    it('should cap the delay at maxRetryDelay', () => {
+      expect(computeRetryDelay(10, policy)).toBe(1000);
+    });
+
+    it('should apply full jitter when enabled', () => {
+      const jittered = { ...policy, jitter: true };
+
+      expect(computeRetryDelay(3, jittered, () => 0.5)).toBe(200);
+      expect(computeRetryDelay(3, jittered, () => 0)).toBe(0);
+    });
+  });
+
+  describe('isRetryableConnectionError', () => {
+    it('should treat network errors as retryable', () => {
+      const error = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:5432'), { code: 'ECONNREFUSED' });
+      expect(isRetryableConnectionError(error)).toBe(true);
+    });
+
+    it('should treat PostgreSQL authentication failures as fatal', () => {
+      const error = Object.assign(new Error('password authentication failed for user "app"'), { code: '28P01' });
+      expect(isRetryableConnectionError(error)).toBe(false);
+    });
+
+    it('should treat MongoDB authentication failures as fatal', () => {
+      const error = Object.assign(new Error('Authentication failed.'), { code: 18, codeName: 'AuthenticationFailed' });
+      expect(isRetryableConnectionError(error)).toBe(false);
+    });
+  });
+
+  describe('withRetry', () => {
+    const basePolicy = { retryAttempts: 3, retryDelay: 1, retryJitter: false };
+
+    it('should retry transient failures until the operation succeeds', async () => {
+      const onRetry = jest.fn();
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValue('connected');
+
+      const result = await withRetry(operation, createRetryPolicy({ ...basePolicy, onRetry }));
+
+      expect(result).toBe('connected');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[1][0]).toMatchObject({ attempt: 2, maxAttempts: 4, delay: 2 });
+    });
+
+    it('should give up after the configured number of attempts', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('timeout'));
+
+      await expect(withRetry(operation, createRetryPolicy(basePolicy))).rejects.toThrow('timeout');
+      expect(operation).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry fatal errors', async () => {
+      const operation = jest.fn().mockRejectedValue(
+        Object.assign(new Error('password authentication failed'), { code: '28P01' })
+      );
+
+      await expect(withRetry(operation, createRetryPolicy(basePolicy))).rejects.toThrow('password authentication failed');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/// <reference types="jest" />
+
+import { EventEmitter } from 'events';
+import { CircuitOpenError, TenantNotFoundError } from '../src/errors';
+import { createStrapiPlugin, StrapiContext, StrapiPlugin } from '../src/strapi';
+import { DatabaseType, PostgreSQLCredentials, TenantConfig } from '../src/types';
+
+describe('Strapi plugin', () => {
+  const tenantConfig = (tenantId: string): TenantConfig => ({
+    tenantId,
+    databaseType: DatabaseType.POSTGRESQL,
+    credentials: {
+      host: 'localhost',
+      port: 5432,
+      username: 'user',
+      password: 'secret',
+      database: `${tenantId}_db`
+    } as PostgreSQLCredentials
+  });
+
+  const connection = { isInitialized: true };
+  let plugin: StrapiPlugin;
+  let strapi: any;
+  let release: jest.Mock;
+
+  const createContext = (overrides: Partial<StrapiContext> = {}): StrapiContext => ({
+    headers: {},
+    hostname: 'localhost',
+    originalUrl: '/',
+    state: {},
+    status: 404,
+    body: undefined,
+    set: jest.fn(),
+    params: {},
+    query: {},
+    request: { headers: {}, hostname: 'localhost', originalUrl: '/' },
+    res: new EventEmitter(),
+    throw: jest.fn((status: number, message: string, properties?: Record<string, any>) => {
+      throw Object.assign(new Error(message), { status }, properties);
+    }) as any,
+    ...overrides
+  });
+
+  const register = (config: Record<string, any>) => {
+    strapi = {
+      config: { get: jest.fn(() => config) },
+      log: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+      admin: { services: { permission: { actionProvider: { registerMany: jest.fn() } } } }
+    };
+    plugin.register({ strapi });
+
+    const manager = plugin.services.tenant().manager;
+    jest.spyOn(manager, 'getConnection').mockImplementation(async (tenantId: string) => {
+      if (tenantId === 'down') throw new CircuitOpenError('down', 2000);
+      await manager.resolveTenantConfig(tenantId);
+      return connection;
+    });
+    jest.spyOn(manager, 'acquireConnection').mockImplementation(async (tenantId: string) => (
+      { tenantId, connection: await manager.getConnection(tenantId), release }
+    ));
+    return manager;
+  };
+
+  beforeEach(() => {
+    release = jest.fn();
+    plugin = createStrapiPlugin();
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+  });
+
+  describe('lifecycle', () => {
+    it('should reject invalid configuration', () => {
+      expect(() => plugin.config.validator({ tenants: [tenantConfig('a'), tenantConfig('a')] })).toThrow('Duplicate tenant ID');
+    });
+
+    it('should register permissions and warm up tenants during bootstrap', async () => {
+      const manager = register({ enableLogging: false, warmUp: true, tenants: [tenantConfig('acme'), tenantConfig('globex')] });
+
+      await plugin.bootstrap({ strapi });
+
+      expect(strapi.admin.services.permission.actionProvider.registerMany).toHaveBeenCalledWith([
+        expect.objectContaining({ uid: 'read', pluginName: 'multi-tenant' }),
+        expect.objectContaining({ uid: 'manage', pluginName: 'multi-tenant' })
+      ]);
+      expect(manager.getConnection).toHaveBeenCalledTimes(2);
+      expect(strapi.log.info).toHaveBeenCalledWith('multi-tenant: connected 2 tenant(s) during bootstrap');
+    });
+
+    it('should close all connections on destroy', async () => {
+      const manager = register({ enableLogging: false });
+      const closeAll = jest.spyOn(manager, 'closeAllConnections');
+
+      await plugin.destroy();
+
+      expect(closeAll).toHaveBeenCalled();
+      expect(() => plugin.services.tenant().manager).toThrow('plugin is not registered');
+    });
+  });
+
+  describe('resolve-tenant policy', () => {
+    const policy = () => plugin.policies['resolve-tenant'];
+
+    it('should set the tenant connection on ctx.state', async () => {
+      register({ enableLogging: false, tenants: [tenantConfig('acme')] });
+      const ctx = createContext({ request: { headers: { 'x-tenant-id': 'acme' }, hostname: 'localhost', originalUrl: '/api/articles' } });
+
+      await expect(policy()(ctx)).resolves.toBe(true);
+      expect(ctx.state).toEqual({ tenantId: 'acme', tenantConnection: connection });
+      expect(release).not.toHaveBeenCalled();
+
+      (ctx.res as EventEmitter).emit('finish');
+      expect(release).toHaveBeenCalled();
+    });
+
+    it('should throw HTTP errors for unknown and unavailable tenants', async () => {
+      register({ enableLogging: false, tenants: [tenantConfig('acme')] });
+      const request = (tenantId: string) => createContext({ request: { headers: { 'x-tenant-id': tenantId }, hostname: 'localhost', originalUrl: '/' } });
+
+      await expect(policy()(request('unknown'))).rejects.toMatchObject({ status: 404 });
+      await expect(policy()(request('down'))).rejects.toMatchObject({ status: 503, headers: { 'Retry-After': '2' } });
+    });
+  });
+
+  describe('admin controller', () => {
+    const admin = () => plugin.controllers.admin();
+
+    beforeEach(() => {
+      register({ enableLogging: false, tenants: [tenantConfig('acme')] });
+    });
+
+    it('should list tenants and hide passwords', async () => {
+      const listCtx = createContext();
+      await admin().listTenants(listCtx);
+      expect(listCtx.body).toEqual([{ tenantId: 'acme', connected: false }]);
+
+      const getCtx = createContext({ params: { tenantId: 'acme' } });
+      await admin().getTenant(getCtx);
+      expect((getCtx.body as any).config.credentials).not.toHaveProperty('password');
+      expect((getCtx.body as any).config.credentials.database).toBe('acme_db');
+    });
+
+    it('should only expose the public credential fields of a tenant', async () => {
+      const base = tenantConfig('globex');
+      await plugin.services.tenant().addTenant({
+        ...base,
+        credentials: {
+          ...base.credentials,
+          schema: 'app',
+          ssl: { rejectUnauthorized: true, key: 'PRIVATE KEY', cert: 'CERT' },
+          options: { application_name: 'api', password: 'also-secret' }
+        } as PostgreSQLCredentials
+      });
+
+      const details = await plugin.services.tenant().getTenant('globex');
+
+      expect(details.config).toEqual({
+        tenantId: 'globex',
+        databaseType: DatabaseType.POSTGRESQL,
+        credentials: { host: 'localhost', port: 5432, username: 'user', database: 'globex_db', schema: 'app' }
+      });
+      expect(details.config.credentials).not.toHaveProperty('ssl');
+      expect(details.config.credentials).not.toHaveProperty('options');
+    });
+
+    it('should add and remove tenants', async () => {
+      const createCtx = createContext({ request: { headers: {}, hostname: 'localhost', originalUrl: '/', body: tenantConfig('globex') } });
+      await admin().createTenant(createCtx);
+      expect(createCtx.body).toMatchObject({ tenantId: 'globex', connected: false });
+
+      await expect(admin().createTenant(createCtx)).rejects.toMatchObject({ status: 409 });
+
+      await admin().deleteTenant(createContext({ params: { tenantId: 'globex' } }));
+      await expect(plugin.services.tenant().getTenant('globex')).rejects.toBeInstanceOf(TenantNotFoundError);
+    });
+
+    it('should map missing tenants and invalid configurations to HTTP errors', async () => {
+      await expect(admin().getTenant(createContext({ params: { tenantId: 'missing' } }))).rejects.toMatchObject({ status: 404 });
+      await expect(admin().createTenant(createContext({
+        request: { headers: {}, hostname: 'localhost', originalUrl: '/', body: { tenantId: 'broken' } }
+      }))).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('should report fleet health', async () => {
+      const ctx = createContext();
+      await admin().getHealth(ctx);
+
+      expect(ctx.status).toBe(200);
+      expect(ctx.body).toMatchObject({ status: 'healthy', tenants: [] });
+    });
+  });
+});
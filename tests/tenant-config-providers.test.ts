@@ -0,0 +1,134 @@
+/// <reference types="jest" />
+
+import {
+    CachedTenantConfigProvider,
+    FunctionTenantConfigProvider,
+    InMemoryTenantConfigProvider
+} from '../src/providers';
+import { DatabaseType, TenantConfig } from '../src/types';
+
+describe('Tenant Config Providers', () => {
+  const tenantConfig: TenantConfig = {
+    tenantId: 'tenant1',
+    databaseType: DatabaseType.POSTGRESQL,
+    credentials: {
+      host: 'localhost',
+      port: 5432,
+      username: 'user',
+      password: 'pass',
+      database: 'tenant1_db'
+    }
+  };
+
+  describe('InMemoryTenantConfigProvider', () => {
+    it('should resolve registered tenants', async () => {
+      const provider = new InMemoryTenantConfigProvider([tenantConfig]);
+
+      await expect(provider.getTenantConfig('tenant1')).resolves.toBe(tenantConfig);
+      await expect(provider.getTenantConfig('tenant2')).resolves.toBeUndefined();
+      await expect(provider.listTenantIds()).resolves.toEqual(['tenant1']);
+    });
+
+    it('should add and remove tenants', async () => {
+      const provider = new InMemoryTenantConfigProvider();
+
+      provider.addTenant(tenantConfig);
+      expect(provider.hasTenant('tenant1')).toBe(true);
+
+      expect(provider.removeTenant('tenant1')).toBe(true);
+      await expect(provider.getTenantConfig('tenant1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('FunctionTenantConfigProvider', () => {
+    it('should delegate to the lookup function', async () => {
+      const lookup = jest.fn().mockResolvedValue(null);
+      const provider = new FunctionTenantConfigProvider(lookup);
+
+      await expect(provider.getTenantConfig('tenant1')).resolves.toBeUndefined();
+      expect(lookup).toHaveBeenCalledWith('tenant1');
+      expect(provider.listTenantIds).toBeUndefined();
+    });
+
+    it('should expose listing only when a lister is given', async () => {
+      const provider = new FunctionTenantConfigProvider(
+        async () => tenantConfig,
+        async () => ['tenant1']
+      );
+
+      await expect(provider.listTenantIds!()).resolves.toEqual(['tenant1']);
+    });
+  });
+
+  describe('CachedTenantConfigProvider', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should cache resolved configs until the TTL expires', async () => {
+      jest.useFakeTimers();
+      const lookup = jest.fn().mockResolvedValue(tenantConfig);
+      const provider = new CachedTenantConfigProvider(new FunctionTenantConfigProvider(lookup), { ttl: 1000 });
+
+      await provider.getTenantConfig('tenant1');
+      await provider.getTenantConfig('tenant1');
+      expect(lookup).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1001);
+      await provider.getTenantConfig('tenant1');
+      expect(lookup).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share concurrent lookups', async () => {
+      const lookup = jest.fn().mockResolvedValue(tenantConfig);
+      const provider = new CachedTenantConfigProvider(new FunctionTenantConfigProvider(lookup));
+
+      await Promise.all([provider.getTenantConfig('tenant1'), provider.getTenantConfig('tenant1')]);
+
+      expect(lookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache unknown tenants by default', async () => {
+      const lookup = jest.fn().mockResolvedValue(undefined);
+      const provider = new CachedTenantConfigProvider(new FunctionTenantConfigProvider(lookup));
+
+      await provider.getTenantConfig('tenant1');
+      await provider.getTenantConfig('tenant1');
+
+      expect(lookup).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate cached entries', async () => {
+      const lookup = jest.fn().mockResolvedValue(tenantConfig);
+      const provider = new CachedTenantConfigProvider(new FunctionTenantConfigProvider(lookup));
+
+      await provider.getTenantConfig('tenant1');
+      provider.invalidate('tenant1');
+      await provider.getTenantConfig('tenant1');
+
+      expect(lookup).toHaveBeenCalledTimes(2);
+    });
+
+    it.each([
+      ['the tenant', 'tenant1'],
+      ['the whole cache', undefined]
+    ])('should not cache a lookup that was in flight when %s was invalidated', async (_scope, invalidatedTenantId) => {
+      const updatedConfig = { ...tenantConfig, connectionName: 'updated' };
+      let resolveStale!: (config: typeof tenantConfig) => void;
+      const lookup = jest.fn()
+        .mockReturnValueOnce(new Promise((resolve) => { resolveStale = resolve; }))
+        .mockResolvedValue(updatedConfig);
+      const provider = new CachedTenantConfigProvider(new FunctionTenantConfigProvider(lookup));
+
+      const stale = provider.getTenantConfig('tenant1');
+      provider.invalidate(invalidatedTenantId);
+      const fresh = provider.getTenantConfig('tenant1');
+      resolveStale(tenantConfig);
+
+      await expect(stale).resolves.toBe(tenantConfig);
+      await expect(fresh).resolves.toBe(updatedConfig);
+      await expect(provider.getTenantConfig('tenant1')).resolves.toBe(updatedConfig);
+      expect(lookup).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/// <reference types="jest" />
+
+import { MongoDBConnector } from '../src/connectors/mongodb-connector';
+import { PostgreSQLConnector } from '../src/connectors/postgresql-connector';
+import { PostgreSQLRlsConnection } from '../src/connectors/postgresql-rls-connection';
+import { PostgreSQLSchemaConnection } from '../src/connectors/postgresql-schema-connection';
+import { MultiTenantManager } from '../src/multi-tenant-manager';
+import { InMemoryTenantConfigProvider } from '../src/providers';
+import { isRetryableTransactionError, runPostgreSQLTransaction } from '../src/transactions';
+import { DatabaseType, MongoDBCredentials, PostgreSQLCredentials } from '../src/types';
+
+jest.mock('../src/connectors/mongodb-connector');
+jest.mock('../src/connectors/postgresql-connector');
+
+const serializationFailure = () => Object.assign(new Error('could not serialize access due to concurrent update'), { code: '40001' });
+const transientError = () => Object.assign(new Error('WriteConflict'), { errorLabels: ['TransientTransactionError'] });
+
+const createQueryRunner = (log: string[]) => {
+  const queryRunner: any = {
+    isTransactionActive: false,
+    isReleased: false,
+    manager: { name: 'transactional-manager' },
+    query: jest.fn(async (sql: string) => { log.push(sql); return []; }),
+    startTransaction: jest.fn(async (isolationLevel?: string) => {
+      log.push(isolationLevel ? `BEGIN ${isolationLevel}` : 'BEGIN');
+      queryRunner.isTransactionActive = true;
+    }),
+    commitTransaction: jest.fn(async () => { log.push('COMMIT'); queryRunner.isTransactionActive = false; }),
+    rollbackTransaction: jest.fn(async () => { log.push('ROLLBACK'); queryRunner.isTransactionActive = false; }),
+    release: jest.fn(async () => { log.push('RELEASE'); queryRunner.isReleased = true; })
+  };
+  return queryRunner;
+};
+
+const createSession = (log: string[]) => {
+  let inTransaction = false;
+  return {
+    startTransaction: jest.fn((options?: unknown) => { log.push(options ? `start ${JSON.stringify(options)}` : 'start'); inTransaction = true; }),
+    commitTransaction: jest.fn(async () => { log.push('commit'); inTransaction = false; }),
+    abortTransaction: jest.fn(async () => { log.push('abort'); inTransaction = false; }),
+    inTransaction: () => inTransaction,
+    endSession: jest.fn(async () => { log.push('end'); })
+  };
+};
+
+describe('withTransaction', () => {
+  let manager: MultiTenantManager;
+  let log: string[];
+  let pgConnection: any;
+  let session: ReturnType<typeof createSession>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    log = [];
+    pgConnection = {
+      isConnected: true,
+      query: jest.fn().mockResolvedValue([]),
+      createQueryRunner: jest.fn(() => createQueryRunner(log))
+    };
+    session = createSession(log);
+    const mongoConnection = {
+      models: {},
+      startSession: jest.fn(async () => session)
+    };
+
+    (PostgreSQLConnector as unknown as jest.Mock).mockImplementation(() => ({
+      connect: jest.fn().mockResolvedValue(pgConnection),
+      ping: jest.fn().mockResolvedValue(true),
+      disconnect: jest.fn().mockResolvedValue(undefined)
+    }));
+    (MongoDBConnector as unknown as jest.Mock).mockImplementation(() => ({
+      connect: jest.fn().mockResolvedValue(mongoConnection),
+      ping: jest.fn().mockResolvedValue(true),
+      disconnect: jest.fn().mockResolvedValue(undefined)
+    }));
+
+    manager = new MultiTenantManager({
+      enableLogging: false,
+      tenantConfigProvider: new InMemoryTenantConfigProvider([
+        {
+          tenantId: 'acme',
+          databaseType: DatabaseType.POSTGRESQL,
+          credentials: { host: 'localhost', port: 5432, username: 'acme', password: 'secret', database: 'acme_db' } as PostgreSQLCredentials
+        },
+        {
+          tenantId: 'docs',
+          databaseType: DatabaseType.MONGODB,
+          credentials: { host: 'localhost', port: 27017, username: 'docs', password: 'secret', database: 'docs_db' } as MongoDBCredentials
+        }
+      ])
+    });
+  });
+
+  describe('PostgreSQL', () => {
+    it('should commit and release the query runner', async () => {
+      const result = await manager.withTransaction('acme', async (tx) => {
+        if (tx.databaseType !== DatabaseType.POSTGRESQL) throw new Error('expected a PostgreSQL transaction');
+        await tx.queryRunner.query('INSERT INTO users DEFAULT VALUES');
+        return tx.manager;
+      }, { isolationLevel: 'SERIALIZABLE' });
+
+      expect(result).toEqual({ name: 'transactional-manager' });
+      expect(log).toEqual(['BEGIN SERIALIZABLE', 'INSERT INTO users DEFAULT VALUES', 'COMMIT', 'RELEASE']);
+      expect(manager.getConnectionInfo('acme')?.inUse).toBe(0);
+    });
+
+    it('should roll back and release when the callback throws', async () => {
+      await expect(manager.withTransaction('acme', async () => {
+        throw new Error('constraint violated');
+      })).rejects.toThrow('constraint violated');
+
+      expect(log).toEqual(['BEGIN', 'ROLLBACK', 'RELEASE']);
+    });
+
+    it('should run the callback again after a serialization failure', async () => {
+      const attempts: number[] = [];
+
+      const result = await manager.withTransaction('acme', async (tx) => {
+        attempts.push(tx.attempt);
+        if (tx.attempt < 3) throw serializationFailure();
+        return 'done';
+      }, { retryDelay: 0 });
+
+      expect(result).toBe('done');
+      expect(attempts).toEqual([1, 2, 3]);
+      expect(log).toEqual(['BEGIN', 'ROLLBACK', 'RELEASE', 'BEGIN', 'ROLLBACK', 'RELEASE', 'BEGIN', 'COMMIT', 'RELEASE']);
+    });
+
+    it('should give up after maxRetries and not retry other errors', async () => {
+      const retried = jest.fn(async () => { throw serializationFailure(); });
+      const failed = jest.fn(async () => { throw new Error('syntax error'); });
+
+      await expect(manager.withTransaction('acme', retried, { maxRetries: 1, retryDelay: 0 })).rejects.toMatchObject({ code: '40001' });
+      await expect(manager.withTransaction('acme', failed, { retryDelay: 0 })).rejects.toThrow('syntax error');
+
+      expect(retried).toHaveBeenCalledTimes(2);
+      expect(failed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should scope transactions on shared pools to the tenant', async () => {
+      const dataSource: any = { isConnected: true, createQueryRunner: jest.fn(() => createQueryRunner(log)) };
+      const onDestroy = jest.fn().mockResolvedValue(undefined);
+
+      await runPostgreSQLTransaction('globex', new PostgreSQLSchemaConnection(dataSource, 'globex', onDestroy), async () => undefined);
+      expect(log).toEqual(['SET search_path TO "globex"', 'BEGIN', 'COMMIT', 'RESET search_path', 'RELEASE']);
+
+      log.length = 0;
+      await runPostgreSQLTransaction('initech', new PostgreSQLRlsConnection(dataSource, 'initech', 'app.current_tenant', onDestroy), async () => undefined, {
+        isolationLevel: 'REPEATABLE READ'
+      });
+      expect(log).toEqual(['BEGIN REPEATABLE READ', 'SELECT set_config($1, $2, true)', 'COMMIT', 'RELEASE']);
+    });
+  });
+
+  describe('MongoDB', () => {
+    it('should commit the session transaction and end the session', async () => {
+      const result = await manager.withTransaction('docs', async (tx) => {
+        if (tx.databaseType !== DatabaseType.MONGODB) throw new Error('expected a MongoDB transaction');
+        expect(tx.session).toBe(session);
+        return 42;
+      }, { mongoOptions: { readConcern: { level: 'snapshot' } } });
+
+      expect(result).toBe(42);
+      expect(log).toEqual(['start {"readConcern":{"level":"snapshot"}}', 'commit', 'end']);
+    });
+
+    it('should abort and retry transient transaction errors', async () => {
+      const callback = jest.fn(async (tx: { attempt: number }) => {
+        if (tx.attempt === 1) throw transientError();
+        return 'ok';
+      });
+
+      await expect(manager.withTransaction('docs', callback, { retryDelay: 0 })).resolves.toBe('ok');
+      expect(log).toEqual(['start', 'abort', 'start', 'commit', 'end']);
+    });
+
+    it('should retry only the commit when its result is unknown', async () => {
+      session.commitTransaction
+        .mockRejectedValueOnce(Object.assign(new Error('timeout'), { errorLabels: ['UnknownTransactionCommitResult'] }));
+      const callback = jest.fn(async () => 'ok');
+
+      await expect(manager.withTransaction('docs', callback)).resolves.toBe('ok');
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(session.commitTransaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should abort and end the session when the callback throws', async () => {
+      await expect(manager.withTransaction('docs', async () => {
+        throw new Error('duplicate key');
+      })).rejects.toThrow('duplicate key');
+
+      expect(log).toEqual(['start', 'abort', 'end']);
+    });
+  });
+
+  it('should recognize retryable transaction errors', () => {
+    expect(isRetryableTransactionError(serializationFailure())).toBe(true);
+    expect(isRetryableTransactionError({ driverError: { code: '40P01' } })).toBe(true);
+    expect(isRetryableTransactionError({ hasErrorLabel: (label: string) => label === 'TransientTransactionError' })).toBe(true);
+    expect(isRetryableTransactionError(Object.assign(new Error('unique violation'), { code: '23505' }))).toBe(false);
+    expect(isRetryableTransactionError(undefined)).toBe(false);
+  });
+});